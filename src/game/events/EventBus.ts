@@ -1,3 +1,5 @@
+import type { PlayerDamageType } from '../sprites/Player';
+
 export enum GameEvent {
     // Scene events
     SCENE_CHANGE = 'scene:change',
@@ -16,6 +18,7 @@ export enum GameEvent {
     PLAYER_DAMAGE = 'player:damage',
     PLAYER_DEATH = 'player:death',
     PLAYER_RESPAWN = 'player:respawn',
+    WEAPON_CHANGE = 'player:weapon_change',
     
     // Animation events
     ANIMATION_PLAY = 'animation:play',
@@ -33,6 +36,9 @@ export enum GameEvent {
     SOUND_EFFECT_STOP = 'sound:stop',
     SOUND_EFFECT_VOLUME_CHANGE = 'sound:volume_change',
     
+    // Settings events
+    KEY_BINDINGS_CHANGE = 'settings:key_bindings_change',
+    
     // Game events
     GAME_START = 'game:start',
     GAME_OVER = 'game:over',
@@ -40,9 +46,16 @@ export enum GameEvent {
     GAME_PAUSE = 'game:pause',
     GAME_RESUME = 'game:resume',
     
+    // Level events
+    LEVEL_START = 'level:start',
+    LEVEL_COMPLETE = 'level:complete',
+    
     // Item events
     ITEM_COLLECT = 'item:collect',
     GOAL_REACHED = 'goal:reached',
+    CHECKPOINT_ACTIVATE = 'checkpoint:activate',
+    POWER_UP_ACTIVATE = 'powerup:activate',
+    POWER_UP_EXPIRE = 'powerup:expire',
     
     // Enemy events
     ENEMY_SPAWN = 'enemy:spawn',
@@ -50,7 +63,15 @@ export enum GameEvent {
     ENEMY_ATTACK = 'enemy:attack',
     
     // Obstacle events
-    OBSTACLE_DESTROYED = 'obstacle:destroyed'
+    OBSTACLE_DESTROYED = 'obstacle:destroyed',
+    DOOR_OPEN = 'door:open',
+    SWITCH_TOGGLE = 'switch:toggle',
+    SPRING_LAUNCH = 'spring:launch',
+    PLATFORM_BREAK = 'platform:break',
+    
+    // Trigger events
+    TRIGGER_ACTIVATE = 'trigger:activate',
+    FLAG_CHANGE = 'level:flag_change'
 }
 
 export interface EventData {
@@ -100,6 +121,7 @@ export interface EventData {
         player: any;
         damage: number;
         health: number;
+        damageType: PlayerDamageType;
     };
     [GameEvent.PLAYER_DEATH]: {
         player: any;
@@ -107,6 +129,12 @@ export interface EventData {
     [GameEvent.PLAYER_RESPAWN]: {
         player: any;
         position: { x: number; y: number };
+        lives: number;
+    };
+    [GameEvent.WEAPON_CHANGE]: {
+        player: any;
+        weapon: string;
+        ammo: number;
     };
     
     [GameEvent.ANIMATION_PLAY]: {
@@ -150,6 +178,10 @@ export interface EventData {
         volume: number;
     };
     
+    [GameEvent.KEY_BINDINGS_CHANGE]: {
+        keyBindings: { [action: string]: number[] };
+    };
+    
     [GameEvent.GAME_START]: void;
     [GameEvent.GAME_OVER]: {
         reason?: string;
@@ -160,14 +192,36 @@ export interface EventData {
     [GameEvent.GAME_PAUSE]: void;
     [GameEvent.GAME_RESUME]: void;
     
+    [GameEvent.LEVEL_START]: {
+        levelId: string;
+        name: string;
+    };
+    [GameEvent.LEVEL_COMPLETE]: {
+        levelId: string;
+        nextLevelId: string | null;
+    };
+    
     [GameEvent.ITEM_COLLECT]: {
         item: any;
         type: string;
         value?: number;
     };
+    [GameEvent.POWER_UP_ACTIVATE]: {
+        player: any;
+        effect: string;
+        duration: number;
+    };
+    [GameEvent.POWER_UP_EXPIRE]: {
+        player: any;
+        effect: string;
+    };
     [GameEvent.GOAL_REACHED]: {
         player: any;
     };
+    [GameEvent.CHECKPOINT_ACTIVATE]: {
+        checkpoint: any;
+        position: { x: number; y: number };
+    };
     
     [GameEvent.ENEMY_SPAWN]: {
         enemy: any;
@@ -175,6 +229,7 @@ export interface EventData {
     };
     [GameEvent.ENEMY_DEATH]: {
         enemy: any;
+        cause: 'stomp' | 'bullet' | 'hazard';
     };
     [GameEvent.ENEMY_ATTACK]: {
         enemy: any;
@@ -186,6 +241,33 @@ export interface EventData {
         y: number;
         type: string;
     };
+    [GameEvent.DOOR_OPEN]: {
+        door: any;
+        requires: string;
+    };
+    [GameEvent.SWITCH_TOGGLE]: {
+        switch: any;
+        kind: 'lever' | 'button' | 'pressure_plate';
+        on: boolean;
+    };
+    [GameEvent.SPRING_LAUNCH]: {
+        spring: any;
+        target: any;
+        velocity: { x: number; y: number };
+    };
+    [GameEvent.PLATFORM_BREAK]: {
+        platform: any;
+        kind: 'crumbling' | 'falling';
+    };
+    
+    [GameEvent.TRIGGER_ACTIVATE]: {
+        trigger: any;
+        actions: string[];
+    };
+    [GameEvent.FLAG_CHANGE]: {
+        name: string;
+        value: boolean | number | string;
+    };
 }
 
 type EventCallback<T extends GameEvent> = EventData[T] extends void 
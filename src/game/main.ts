@@ -3,6 +3,9 @@ import { GameOver } from './scenes/GameOver';
 // import { Game as MainGame } from './scenes/Game';
 import { MainMenu } from './scenes/MainMenu';
 import { Victory } from './scenes/Victory';
+import { Pause } from './scenes/Pause';
+import { Settings } from './scenes/Settings';
+import { Controls } from './scenes/Controls';
 import { AUTO, Game } from 'phaser';
 import { Preloader } from './scenes/Preloader';
 import { BGMPlayer } from './managers/BGMPlayer';
@@ -26,8 +29,14 @@ const config: Phaser.Types.Core.GameConfig = {
         Preloader,
         MainMenu,
         GameOver,
-        Victory
+        Victory,
+        Pause,
+        Settings,
+        Controls
     ],
+    input: {
+        gamepad: true
+    },
     physics: {
         default: "arcade",
         arcade: {
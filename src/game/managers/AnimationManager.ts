@@ -286,6 +286,11 @@ export class AnimationManager {
                 fallbackAnim = 'idle';
                 animKey = this.getAnimationKey(atlasKey, fallbackAnim);
             }
+            // Atlases without a climb_idle animation hold on with the climb animation
+            if (animationName === 'climb_idle') {
+                fallbackAnim = 'climb';
+                animKey = this.getAnimationKey(atlasKey, fallbackAnim);
+            }
             
             // If the fallback animation also doesn't exist, return
             if (!this.createdAnimations.has(animKey)) {
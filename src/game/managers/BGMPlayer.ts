@@ -27,6 +27,9 @@ export class BGMPlayer {
   private loadedSounds: Set<string> = new Set();
   private isInitialized: boolean = false;
   private activeScene: Phaser.Scene | null = null;
+  // Volume configured for the current track, before the global multiplier
+  private currentBaseVolume: number = 1.0;
+  private globalVolume: number = 1.0;
 
   private constructor() {}
 
@@ -85,7 +88,7 @@ export class BGMPlayer {
     });
     
     eventBus.on(GameEvent.BGM_VOLUME_CHANGE, (data) => {
-      this.setVolume(data.volume);
+      this.setGlobalVolume(data.volume);
     });
   }
 
@@ -287,9 +290,10 @@ export class BGMPlayer {
     if (!this.activeScene) return;
 
     try {
+      this.currentBaseVolume = volume;
       this.currentBGMSound = this.activeScene.sound.add(key, {
         loop: loop,
-        volume: volume
+        volume: volume * this.globalVolume
       });
 
       this.currentBGMSound.play();
@@ -332,11 +336,24 @@ export class BGMPlayer {
 
   public setVolume(volume: number): void {
     const clampedVolume = Math.max(0, Math.min(1, volume));
+    this.currentBaseVolume = clampedVolume;
     if (this.currentBGMSound && 'setVolume' in this.currentBGMSound) {
-      (this.currentBGMSound as any).setVolume(clampedVolume);
+      (this.currentBGMSound as any).setVolume(clampedVolume * this.globalVolume);
     }
   }
 
+  // Master BGM volume, applied on top of the per-scene volume from bgm-config.json
+  public setGlobalVolume(volume: number): void {
+    this.globalVolume = Math.max(0, Math.min(1, volume));
+    if (this.currentBGMSound && 'setVolume' in this.currentBGMSound) {
+      (this.currentBGMSound as any).setVolume(this.currentBaseVolume * this.globalVolume);
+    }
+  }
+
+  public getGlobalVolume(): number {
+    return this.globalVolume;
+  }
+
   public getCurrentBGM(): string | null {
     return this.currentBGM;
   }
@@ -6,6 +6,15 @@ export interface CollectedItemData {
     properties: any;       // Additional properties
 }
 
+/**
+ * Copy of the collection progress, used to roll back to a checkpoint
+ */
+export interface CollectedItemsSnapshot {
+    items: CollectedItemData[];
+    totalScore: number;
+    collectedMustHaveItems: string[];
+}
+
 export class CollectedItemsManager {
     private items: Map<string, CollectedItemData> = new Map();
     private totalScore: number = 0;
@@ -71,6 +80,10 @@ export class CollectedItemsManager {
         return missing;
     }
     
+    getCollectedRequiredItems(): string[] {
+        return Array.from(this.collectedMustHaveItems);
+    }
+    
     getTotalScore(): number {
         return this.totalScore;
     }
@@ -100,6 +113,59 @@ export class CollectedItemsManager {
         return this.items.get(name)?.score || 0;
     }
     
+    /**
+     * Number of held items whose name or type matches (e.g. "key" counts every item of type key)
+     */
+    getHeldCount(nameOrType: string): number {
+        let count = 0;
+        for (const item of this.items.values()) {
+            if (item.name === nameOrType || item.type === nameOrType) {
+                count += item.count;
+            }
+        }
+        return count;
+    }
+    
+    /**
+     * Use up held items whose name or type matches, e.g. a key spent on a door.
+     * The score they gave is kept.
+     * @returns false (and nothing is used up) if fewer than count are held
+     */
+    consumeItems(nameOrType: string, count: number = 1): boolean {
+        if (this.getHeldCount(nameOrType) < count) {
+            return false;
+        }
+        
+        let remaining = count;
+        for (const item of this.items.values()) {
+            if (remaining <= 0) break;
+            if (item.name !== nameOrType && item.type !== nameOrType) continue;
+            
+            const used = Math.min(item.count, remaining);
+            item.count -= used;
+            remaining -= used;
+        }
+        return true;
+    }
+    
+    snapshot(): CollectedItemsSnapshot {
+        return {
+            items: Array.from(this.items.values()).map(item => ({ ...item })),
+            totalScore: this.totalScore,
+            collectedMustHaveItems: Array.from(this.collectedMustHaveItems)
+        };
+    }
+    
+    restore(snapshot: CollectedItemsSnapshot): void {
+        // Must-collect requirements come from the level itself and are kept
+        this.items.clear();
+        snapshot.items.forEach(item => {
+            this.items.set(item.name, { ...item });
+        });
+        this.totalScore = snapshot.totalScore;
+        this.collectedMustHaveItems = new Set(snapshot.collectedMustHaveItems);
+    }
+    
     getSummaryData(): {
         totalScore: number;
         itemsByType: Map<string, CollectedItemData[]>;
@@ -0,0 +1,47 @@
+import { eventBus, GameEvent } from '../events/EventBus';
+
+export type FlagValue = boolean | number | string;
+
+/**
+ * FlagManager - Named level state set by triggers
+ *
+ * Flags live for the duration of a level and are cleared when the Game scene starts.
+ */
+export class FlagManager {
+    private static instance: FlagManager;
+    private flags: Map<string, FlagValue> = new Map();
+
+    private constructor() {}
+
+    static getInstance(): FlagManager {
+        if (!FlagManager.instance) {
+            FlagManager.instance = new FlagManager();
+        }
+        return FlagManager.instance;
+    }
+
+    setFlag(name: string, value: FlagValue = true): void {
+        if (this.flags.get(name) === value) {
+            return;
+        }
+
+        this.flags.set(name, value);
+
+        eventBus.emit(GameEvent.FLAG_CHANGE, { name, value });
+    }
+
+    getFlag(name: string): FlagValue | undefined {
+        return this.flags.get(name);
+    }
+
+    /**
+     * A flag is set when it exists and is not false, 0 or an empty string
+     */
+    isSet(name: string): boolean {
+        return Boolean(this.flags.get(name));
+    }
+
+    clear(): void {
+        this.flags.clear();
+    }
+}
@@ -0,0 +1,154 @@
+import { StorageBackend, LocalStorageBackend, MemoryStorageBackend } from './SaveStorage';
+
+/**
+ * A captured moment of a run: [level time ms, x, y, animation index, flipX (0/1)]
+ */
+export type GhostSample = [number, number, number, number, number];
+
+/**
+ * Trajectory of a finished run, replayed as a ghost
+ */
+export interface GhostRun {
+    levelId: string;
+    atlasKey: string;           // Player texture atlas
+    scaleX: number;
+    scaleY: number;
+    time: number;               // Completion time in ms
+    animations: string[];       // Animation names referenced by the samples
+    samples: GhostSample[];
+}
+
+// Capture interval in level time; positions in between are interpolated
+const SAMPLE_INTERVAL = 50;
+// Larger jumps between two samples are teleports (respawn) and are not interpolated
+export const GHOST_TELEPORT_DISTANCE = 200;
+
+const GHOSTS_KEY = 'platformer_ghosts';
+
+/**
+ * Captures the player trajectory of the current run
+ */
+export class GhostRecorder {
+    private levelId: string;
+    private atlasKey: string;
+    private scaleX: number;
+    private scaleY: number;
+    private animations: string[] = [];
+    private samples: GhostSample[] = [];
+    private lastSampleTime: number = -Infinity;
+    private lastAnimation: string = '';
+
+    constructor(levelId: string, atlasKey: string, scaleX: number, scaleY: number) {
+        this.levelId = levelId;
+        this.atlasKey = atlasKey;
+        this.scaleX = scaleX;
+        this.scaleY = scaleY;
+    }
+
+    /**
+     * Called every frame; only keeps a sample per interval or when the animation changes
+     */
+    capture(time: number, x: number, y: number, animation: string, flipX: boolean): void {
+        if (time - this.lastSampleTime < SAMPLE_INTERVAL && animation === this.lastAnimation) {
+            return;
+        }
+
+        let animationIndex = this.animations.indexOf(animation);
+        if (animationIndex === -1) {
+            animationIndex = this.animations.push(animation) - 1;
+        }
+
+        this.samples.push([Math.round(time), Math.round(x), Math.round(y), animationIndex, flipX ? 1 : 0]);
+        this.lastSampleTime = time;
+        this.lastAnimation = animation;
+    }
+
+    finish(time: number): GhostRun {
+        return {
+            levelId: this.levelId,
+            atlasKey: this.atlasKey,
+            scaleX: this.scaleX,
+            scaleY: this.scaleY,
+            time,
+            animations: this.animations,
+            samples: this.samples
+        };
+    }
+}
+
+/**
+ * GhostManager - Best-run ghost storage
+ *
+ * Keeps the fastest trajectory of every level. Ghosts are stored under their
+ * own storage key so the regular save stays small.
+ */
+export class GhostManager {
+    private static instance: GhostManager;
+    private backend: StorageBackend;
+    private ghosts: { [levelId: string]: GhostRun } = {};
+
+    private constructor() {
+        this.backend = LocalStorageBackend.isAvailable()
+            ? new LocalStorageBackend()
+            : new MemoryStorageBackend();
+        this.load();
+    }
+
+    static getInstance(): GhostManager {
+        if (!GhostManager.instance) {
+            GhostManager.instance = new GhostManager();
+        }
+        return GhostManager.instance;
+    }
+
+    setBackend(backend: StorageBackend): void {
+        this.backend = backend;
+        this.load();
+    }
+
+    private load(): void {
+        this.ghosts = {};
+        const raw = this.backend.read(GHOSTS_KEY);
+        if (!raw) return;
+
+        try {
+            const parsed = JSON.parse(raw);
+            if (parsed && typeof parsed === 'object') {
+                this.ghosts = parsed;
+            }
+        } catch (error) {
+            console.error('[GhostManager] Failed to load ghosts:', error);
+        }
+    }
+
+    private save(): void {
+        this.backend.write(GHOSTS_KEY, JSON.stringify(this.ghosts));
+    }
+
+    getGhost(levelId: string): GhostRun | null {
+        return this.ghosts[levelId] ?? null;
+    }
+
+    /**
+     * Store a finished run if it beats the current ghost of its level
+     * @returns true if the run became the new ghost
+     */
+    submitRun(run: GhostRun): boolean {
+        const current = this.ghosts[run.levelId];
+        if (current && current.time <= run.time) {
+            return false;
+        }
+        if (run.samples.length === 0) {
+            return false;
+        }
+
+        this.ghosts[run.levelId] = run;
+        this.save();
+        return true;
+    }
+
+    clear(): void {
+        this.ghosts = {};
+        this.backend.remove(GHOSTS_KEY);
+    }
+}
@@ -0,0 +1,443 @@
+import { Scene } from 'phaser';
+import { MobileControls } from '../ui/MobileControls';
+
+/**
+ * Abstract game actions, independent of the physical device
+ */
+export enum InputAction {
+    MOVE_LEFT = 'move_left',
+    MOVE_RIGHT = 'move_right',
+    MOVE_UP = 'move_up',
+    MOVE_DOWN = 'move_down',
+    JUMP = 'jump',
+    SHOOT = 'shoot',
+    SWITCH_WEAPON = 'switch_weapon',
+    INTERACT = 'interact',
+    PAUSE = 'pause',
+    RESTART = 'restart'
+}
+
+/**
+ * State of a digital action for the current frame
+ */
+export interface ActionState {
+    isDown: boolean;
+    justPressed: boolean;
+    justReleased: boolean;
+}
+
+/**
+ * Merged input of all devices for a single frame
+ */
+export interface InputState {
+    moveX: number;          // -1 (left) .. 1 (right)
+    moveY: number;          // -1 (up) .. 1 (down)
+    duck: boolean;
+    jump: ActionState;
+    shoot: ActionState;
+    switchWeapon: ActionState;
+    interact: ActionState;
+    pause: ActionState;
+    restart: ActionState;
+}
+
+export type KeyBindings = { [action in InputAction]: number[] };
+
+const KeyCodes = Phaser.Input.Keyboard.KeyCodes;
+
+// Keys per action (each action has up to this many slots)
+export const MAX_KEYS_PER_ACTION = 2;
+
+export const ACTION_LABELS: { [action in InputAction]: string } = {
+    [InputAction.MOVE_LEFT]: 'Move Left',
+    [InputAction.MOVE_RIGHT]: 'Move Right',
+    [InputAction.MOVE_UP]: 'Move Up',
+    [InputAction.MOVE_DOWN]: 'Duck / Down',
+    [InputAction.JUMP]: 'Jump',
+    [InputAction.SHOOT]: 'Shoot',
+    [InputAction.SWITCH_WEAPON]: 'Switch Weapon',
+    [InputAction.INTERACT]: 'Interact',
+    [InputAction.PAUSE]: 'Pause',
+    [InputAction.RESTART]: 'Restart'
+};
+
+/**
+ * Built-in keyboard layouts
+ */
+export const KEY_BINDING_PRESETS: { [preset: string]: { name: string; bindings: KeyBindings } } = {
+    arrows: {
+        name: 'Arrows + X',
+        bindings: {
+            [InputAction.MOVE_LEFT]: [KeyCodes.LEFT],
+            [InputAction.MOVE_RIGHT]: [KeyCodes.RIGHT],
+            [InputAction.MOVE_UP]: [KeyCodes.UP],
+            [InputAction.MOVE_DOWN]: [KeyCodes.DOWN],
+            [InputAction.JUMP]: [KeyCodes.SPACE, KeyCodes.UP],
+            [InputAction.SHOOT]: [KeyCodes.X],
+            [InputAction.SWITCH_WEAPON]: [KeyCodes.C],
+            [InputAction.INTERACT]: [KeyCodes.Z],
+            [InputAction.PAUSE]: [KeyCodes.ESC, KeyCodes.P],
+            [InputAction.RESTART]: [KeyCodes.R]
+        }
+    },
+    wasd: {
+        name: 'WASD + Space',
+        bindings: {
+            [InputAction.MOVE_LEFT]: [KeyCodes.A],
+            [InputAction.MOVE_RIGHT]: [KeyCodes.D],
+            [InputAction.MOVE_UP]: [KeyCodes.W],
+            [InputAction.MOVE_DOWN]: [KeyCodes.S],
+            [InputAction.JUMP]: [KeyCodes.SPACE, KeyCodes.W],
+            [InputAction.SHOOT]: [KeyCodes.J],
+            [InputAction.SWITCH_WEAPON]: [KeyCodes.K],
+            [InputAction.INTERACT]: [KeyCodes.E],
+            [InputAction.PAUSE]: [KeyCodes.ESC, KeyCodes.P],
+            [InputAction.RESTART]: [KeyCodes.R]
+        }
+    },
+    azerty: {
+        name: 'AZERTY (ZQSD)',
+        bindings: {
+            [InputAction.MOVE_LEFT]: [KeyCodes.Q],
+            [InputAction.MOVE_RIGHT]: [KeyCodes.D],
+            [InputAction.MOVE_UP]: [KeyCodes.Z],
+            [InputAction.MOVE_DOWN]: [KeyCodes.S],
+            [InputAction.JUMP]: [KeyCodes.SPACE, KeyCodes.Z],
+            [InputAction.SHOOT]: [KeyCodes.J],
+            [InputAction.SWITCH_WEAPON]: [KeyCodes.K],
+            [InputAction.INTERACT]: [KeyCodes.E],
+            [InputAction.PAUSE]: [KeyCodes.ESC, KeyCodes.P],
+            [InputAction.RESTART]: [KeyCodes.R]
+        }
+    }
+};
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = KEY_BINDING_PRESETS.arrows.bindings;
+
+/**
+ * Action pairs that may share a key (e.g. Up both climbs and jumps)
+ */
+const SHAREABLE_ACTIONS: [InputAction, InputAction][] = [
+    [InputAction.MOVE_UP, InputAction.JUMP]
+];
+
+/**
+ * Touch buttons that repeat while held: they report justPressed every frame
+ * (the player fires at the weapon cooldown rate), keys and gamepad buttons need a new press
+ */
+const TOUCH_REPEAT_ACTIONS: InputAction[] = [
+    InputAction.SHOOT
+];
+
+/**
+ * Deep copy a binding table so edits never touch the presets
+ */
+export function cloneKeyBindings(bindings: KeyBindings): KeyBindings {
+    const copy = {} as KeyBindings;
+    Object.values(InputAction).forEach(action => {
+        copy[action] = [...(bindings[action] ?? [])];
+    });
+    return copy;
+}
+
+/**
+ * Find the action that already uses a key and can't share it with the given action
+ * @returns The conflicting action, or null if the key is free
+ */
+export function findKeyConflict(bindings: KeyBindings, action: InputAction, keyCode: number): InputAction | null {
+    for (const other of Object.values(InputAction)) {
+        if (other === action || !bindings[other]?.includes(keyCode)) continue;
+
+        const shareable = SHAREABLE_ACTIONS.some(([a, b]) =>
+            (a === action && b === other) || (a === other && b === action)
+        );
+        if (!shareable) {
+            return other;
+        }
+    }
+    return null;
+}
+
+const KEY_NAME_OVERRIDES: { [keyCode: number]: string } = {
+    [KeyCodes.LEFT]: '←',
+    [KeyCodes.RIGHT]: '→',
+    [KeyCodes.UP]: '↑',
+    [KeyCodes.DOWN]: '↓',
+    [KeyCodes.SPACE]: 'Space',
+    [KeyCodes.ESC]: 'Esc',
+    [KeyCodes.ENTER]: 'Enter',
+    [KeyCodes.SHIFT]: 'Shift',
+    [KeyCodes.CTRL]: 'Ctrl',
+    [KeyCodes.ALT]: 'Alt'
+};
+
+/**
+ * Human readable name of a key code (e.g. 'Space', 'A', '←')
+ */
+export function getKeyName(keyCode: number): string {
+    if (KEY_NAME_OVERRIDES[keyCode]) {
+        return KEY_NAME_OVERRIDES[keyCode];
+    }
+    const name = Object.keys(KeyCodes).find(key => (KeyCodes as any)[key] === keyCode);
+    return name ? name.replace(/_/g, ' ') : `Key ${keyCode}`;
+}
+
+/**
+ * Standard gamepad mapping button indices
+ */
+export const DEFAULT_GAMEPAD_BINDINGS: { [action in InputAction]: number[] } = {
+    [InputAction.MOVE_LEFT]: [14],
+    [InputAction.MOVE_RIGHT]: [15],
+    [InputAction.MOVE_UP]: [12],
+    [InputAction.MOVE_DOWN]: [13],
+    [InputAction.JUMP]: [0],        // A / Cross
+    [InputAction.SHOOT]: [2, 1],    // X / Square, B / Circle
+    [InputAction.SWITCH_WEAPON]: [3],   // Y / Triangle
+    [InputAction.INTERACT]: [5],    // RB / R1
+    [InputAction.PAUSE]: [9],       // Start / Options
+    [InputAction.RESTART]: [8]      // Select / Share
+};
+
+// Analog values below this are treated as a centered stick
+const STICK_DEADZONE = 0.2;
+// Analog Y needed to count as ducking (matches the old joystick behavior)
+const DUCK_THRESHOLD = 0.5;
+
+/**
+ * InputManager - Unified input action layer
+ *
+ * Merges keyboard, MobileControls (joystick and buttons) and the Phaser
+ * gamepad plugin into one InputState per frame. Created per scene; call
+ * update() once per frame and pass the result to whoever consumes input.
+ */
+export class InputManager {
+    private scene: Scene;
+    private keyBindings: KeyBindings;
+    private keys: Map<number, Phaser.Input.Keyboard.Key> = new Map();
+    private mobileControls: MobileControls | null = null;
+
+    // Touch button presses are latched so taps shorter than a frame are not lost
+    private mobileDown: Set<InputAction> = new Set();
+    private mobilePressed: Set<InputAction> = new Set();
+    private mobileReleased: Set<InputAction> = new Set();
+
+    // Gamepad buttons are polled, so edges are detected against the previous frame
+    private previousGamepadDown: Set<InputAction> = new Set();
+
+    private lastChargeLevel: number = 0;
+    private state: InputState = InputManager.createEmptyState();
+
+    constructor(scene: Scene, keyBindings: KeyBindings = DEFAULT_KEY_BINDINGS) {
+        this.scene = scene;
+        this.keyBindings = cloneKeyBindings(keyBindings);
+        this.createKeys();
+    }
+
+    static createEmptyState(): InputState {
+        return {
+            moveX: 0,
+            moveY: 0,
+            duck: false,
+            jump: { isDown: false, justPressed: false, justReleased: false },
+            shoot: { isDown: false, justPressed: false, justReleased: false },
+            switchWeapon: { isDown: false, justPressed: false, justReleased: false },
+            interact: { isDown: false, justPressed: false, justReleased: false },
+            pause: { isDown: false, justPressed: false, justReleased: false },
+            restart: { isDown: false, justPressed: false, justReleased: false }
+        };
+    }
+
+    /**
+     * Replace the keyboard bindings (e.g. after they were changed in the settings)
+     */
+    setKeyBindings(keyBindings: KeyBindings): void {
+        this.removeKeys();
+        this.keyBindings = cloneKeyBindings(keyBindings);
+        this.createKeys();
+    }
+
+    private createKeys(): void {
+        const keyboard = this.scene.input.keyboard;
+        if (!keyboard) return;
+
+        Object.values(this.keyBindings).forEach(keyCodes => {
+            keyCodes.forEach(keyCode => {
+                if (!this.keys.has(keyCode)) {
+                    this.keys.set(keyCode, keyboard.addKey(keyCode));
+                }
+            });
+        });
+    }
+
+    /**
+     * Route the touch joystick and buttons into the action layer
+     */
+    setMobileControls(controls: MobileControls): void {
+        this.mobileControls = controls;
+
+        const bindButton = (action: InputAction) => ({
+            onPress: () => {
+                if (!this.mobileDown.has(action)) {
+                    this.mobileDown.add(action);
+                    this.mobilePressed.add(action);
+                }
+            },
+            onRelease: () => {
+                if (this.mobileDown.has(action)) {
+                    this.mobileDown.delete(action);
+                    this.mobileReleased.add(action);
+                }
+            }
+        });
+
+        const jump = bindButton(InputAction.JUMP);
+        controls.setJumpCallbacks(jump.onPress, jump.onRelease);
+
+        const shoot = bindButton(InputAction.SHOOT);
+        controls.setShootCallbacks(shoot.onPress, shoot.onRelease);
+
+        const switchWeapon = bindButton(InputAction.SWITCH_WEAPON);
+        controls.setSwitchWeaponCallbacks(switchWeapon.onPress, switchWeapon.onRelease);
+
+        const interact = bindButton(InputAction.INTERACT);
+        controls.setInteractCallbacks(interact.onPress, interact.onRelease);
+
+        // The pause button has no release callback, treat it as a tap
+        controls.setPauseCallback(() => {
+            this.mobilePressed.add(InputAction.PAUSE);
+        });
+    }
+
+    /**
+     * Sample all devices and build the state for this frame
+     */
+    update(): InputState {
+        const pad = this.getGamepad();
+
+        // Movement axes: use whichever device is pushed furthest
+        const keyX = (this.isKeyDown(InputAction.MOVE_RIGHT) ? 1 : 0) - (this.isKeyDown(InputAction.MOVE_LEFT) ? 1 : 0);
+        const keyY = (this.isKeyDown(InputAction.MOVE_DOWN) ? 1 : 0) - (this.isKeyDown(InputAction.MOVE_UP) ? 1 : 0);
+
+        const joystick = this.mobileControls ? this.mobileControls.getJoystickForce() : { x: 0, y: 0 };
+
+        let padX = 0;
+        let padY = 0;
+        if (pad) {
+            padX = (this.isPadDown(pad, InputAction.MOVE_RIGHT) ? 1 : 0) - (this.isPadDown(pad, InputAction.MOVE_LEFT) ? 1 : 0);
+            padY = (this.isPadDown(pad, InputAction.MOVE_DOWN) ? 1 : 0) - (this.isPadDown(pad, InputAction.MOVE_UP) ? 1 : 0);
+            if (padX === 0 && Math.abs(pad.leftStick.x) > STICK_DEADZONE) {
+                padX = pad.leftStick.x;
+            }
+            if (padY === 0 && Math.abs(pad.leftStick.y) > STICK_DEADZONE) {
+                padY = pad.leftStick.y;
+            }
+        }
+
+        const moveX = this.strongest(keyX, joystick.x, padX);
+        const moveY = this.strongest(keyY, joystick.y, padY);
+
+        this.state = {
+            moveX,
+            moveY,
+            duck: moveY > DUCK_THRESHOLD,
+            jump: this.readAction(InputAction.JUMP, pad),
+            shoot: this.readAction(InputAction.SHOOT, pad),
+            switchWeapon: this.readAction(InputAction.SWITCH_WEAPON, pad),
+            interact: this.readAction(InputAction.INTERACT, pad),
+            pause: this.readAction(InputAction.PAUSE, pad),
+            restart: this.readAction(InputAction.RESTART, pad)
+        };
+
+        // Latched touch edges have been consumed
+        this.mobilePressed.clear();
+        this.mobileReleased.clear();
+
+        return this.state;
+    }
+
+    /**
+     * State built by the last update() call
+     */
+    getState(): InputState {
+        return this.state;
+    }
+
+    /**
+     * Show charge jump progress (0..1) on the devices that can display it
+     */
+    setChargeFeedback(level: number): void {
+        if (level === this.lastChargeLevel) return;
+        this.lastChargeLevel = level;
+
+        if (this.mobileControls) {
+            this.mobileControls.updateJumpButtonProgress(level);
+        }
+    }
+
+    private readAction(action: InputAction, pad: Phaser.Input.Gamepad.Gamepad | null): ActionState {
+        let isDown = false;
+        let justPressed = false;
+        let justReleased = false;
+
+        // Keyboard (JustDown/JustUp are latched by Phaser between frames)
+        (this.keyBindings[action] ?? []).forEach(keyCode => {
+            const key = this.keys.get(keyCode);
+            if (!key) return;
+            isDown = isDown || key.isDown;
+            justPressed = Phaser.Input.Keyboard.JustDown(key) || justPressed;
+            justReleased = Phaser.Input.Keyboard.JustUp(key) || justReleased;
+        });
+
+        // Touch buttons
+        isDown = isDown || this.mobileDown.has(action);
+        const touchRepeat = TOUCH_REPEAT_ACTIONS.includes(action) && this.mobileDown.has(action);
+        justPressed = justPressed || this.mobilePressed.has(action) || touchRepeat;
+        justReleased = justReleased || this.mobileReleased.has(action);
+
+        // Gamepad
+        const padDown = pad ? this.isPadDown(pad, action) : false;
+        const padWasDown = this.previousGamepadDown.has(action);
+        if (padDown) {
+            this.previousGamepadDown.add(action);
+        } else {
+            this.previousGamepadDown.delete(action);
+        }
+        isDown = isDown || padDown;
+        justPressed = justPressed || (padDown && !padWasDown);
+        justReleased = justReleased || (!padDown && padWasDown);
+
+        // A release only counts once every device has let go
+        return { isDown, justPressed, justReleased: justReleased && !isDown };
+    }
+
+    private isKeyDown(action: InputAction): boolean {
+        return (this.keyBindings[action] ?? []).some(keyCode => this.keys.get(keyCode)?.isDown);
+    }
+
+    private isPadDown(pad: Phaser.Input.Gamepad.Gamepad, action: InputAction): boolean {
+        return DEFAULT_GAMEPAD_BINDINGS[action].some(index => pad.buttons[index]?.pressed);
+    }
+
+    private getGamepad(): Phaser.Input.Gamepad.Gamepad | null {
+        const gamepad = this.scene.input.gamepad;
+        if (!gamepad || gamepad.total === 0) return null;
+        return gamepad.getAll()[0] ?? null;
+    }
+
+    private strongest(...values: number[]): number {
+        return values.reduce((best, value) => Math.abs(value) > Math.abs(best) ? value : best, 0);
+    }
+
+    private removeKeys(): void {
+        const keyboard = this.scene.input.keyboard;
+        if (keyboard) {
+            this.keys.forEach(key => keyboard.removeKey(key));
+        }
+        this.keys.clear();
+    }
+
+    destroy(): void {
+        this.removeKeys();
+        this.mobileControls = null;
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * Unlock rule for a level in the manifest
+ * - "always": Level is playable from the start
+ * - "previous": Level unlocks once the level before it in the manifest is completed
+ * - "levels": Level unlocks once every level listed in `levels` is completed
+ */
+export interface LevelUnlockRule {
+    type: 'always' | 'previous' | 'levels';
+    levels?: string[];
+}
+
+/**
+ * Single level entry in the level manifest
+ */
+export interface LevelDefinition {
+    id: string;                 // Unique level id (used to start the Game scene)
+    name: string;               // Display name shown in menus and HUD
+    tilemap: string;            // Path to the Tiled JSON file
+    unlock?: LevelUnlockRule;   // Defaults to "always" for the first level, "previous" otherwise
+}
+
+/**
+ * Level manifest format (public/assets/tilemap/levels.json)
+ */
+export interface LevelManifest {
+    levels: LevelDefinition[];
+}
+
+/**
+ * LevelManager - Campaign level registry
+ *
+ * This manager handles:
+ * - Holding the ordered list of levels loaded from the manifest
+ * - Mapping level ids to tilemap cache keys
+ * - Tracking the level currently being played
+ * - Tracking completed levels and evaluating unlock rules
+ */
+export class LevelManager {
+    private static instance: LevelManager;
+    private levels: LevelDefinition[] = [];
+    private currentLevelId: string | null = null;
+    private completedLevels: Set<string> = new Set();
+
+    private constructor() {}
+
+    /**
+     * Get the singleton instance
+     */
+    static getInstance(): LevelManager {
+        if (!LevelManager.instance) {
+            LevelManager.instance = new LevelManager();
+        }
+        return LevelManager.instance;
+    }
+
+    /**
+     * Load the level manifest
+     */
+    loadManifest(manifest: LevelManifest): void {
+        this.levels = [];
+
+        if (!manifest || !Array.isArray(manifest.levels)) {
+            console.error('[LevelManager] Invalid level manifest');
+            return;
+        }
+
+        const seenIds = new Set<string>();
+        manifest.levels.forEach(level => {
+            if (!level.id || !level.tilemap) {
+                console.warn('[LevelManager] Skipping level without id or tilemap:', level);
+                return;
+            }
+            if (seenIds.has(level.id)) {
+                console.warn(`[LevelManager] Duplicate level id: ${level.id}`);
+                return;
+            }
+            seenIds.add(level.id);
+            this.levels.push({
+                ...level,
+                name: level.name || level.id
+            });
+        });
+    }
+
+    /**
+     * Get all levels in campaign order
+     */
+    getLevels(): LevelDefinition[] {
+        return [...this.levels];
+    }
+
+    /**
+     * Get a level by id
+     */
+    getLevel(levelId: string): LevelDefinition | undefined {
+        return this.levels.find(level => level.id === levelId);
+    }
+
+    /**
+     * Check if a level exists in the manifest
+     */
+    hasLevel(levelId: string): boolean {
+        return this.getLevel(levelId) !== undefined;
+    }
+
+    /**
+     * Get the position of a level in the campaign (-1 if not found)
+     */
+    getLevelIndex(levelId: string): number {
+        return this.levels.findIndex(level => level.id === levelId);
+    }
+
+    /**
+     * Get the id of the first level in the campaign
+     */
+    getFirstLevelId(): string | null {
+        return this.levels.length > 0 ? this.levels[0].id : null;
+    }
+
+    /**
+     * Get the id of the level following the given one (null if it is the last one)
+     */
+    getNextLevelId(levelId: string): string | null {
+        const index = this.getLevelIndex(levelId);
+        if (index < 0 || index + 1 >= this.levels.length) {
+            return null;
+        }
+        return this.levels[index + 1].id;
+    }
+
+    /**
+     * Get the cache key under which a level's tilemap is loaded
+     */
+    getTilemapKey(levelId: string): string {
+        return `tilemap_${levelId}`;
+    }
+
+    /**
+     * Set the level currently being played
+     */
+    setCurrentLevel(levelId: string): void {
+        if (!this.hasLevel(levelId)) {
+            console.warn(`[LevelManager] Unknown level: ${levelId}`);
+            return;
+        }
+        this.currentLevelId = levelId;
+    }
+
+    /**
+     * Get the level currently being played
+     */
+    getCurrentLevel(): LevelDefinition | undefined {
+        return this.currentLevelId ? this.getLevel(this.currentLevelId) : undefined;
+    }
+
+    getCurrentLevelId(): string | null {
+        return this.currentLevelId;
+    }
+
+    /**
+     * Get the tilemap cache key of the level currently being played
+     */
+    getCurrentTilemapKey(): string {
+        const levelId = this.currentLevelId ?? this.getFirstLevelId();
+        return levelId ? this.getTilemapKey(levelId) : '';
+    }
+
+    /**
+     * Mark a level as completed
+     */
+    markCompleted(levelId: string): void {
+        this.completedLevels.add(levelId);
+    }
+
+    isCompleted(levelId: string): boolean {
+        return this.completedLevels.has(levelId);
+    }
+
+    getCompletedLevels(): string[] {
+        return Array.from(this.completedLevels);
+    }
+
+    /**
+     * Replace the set of completed levels (e.g. when restoring progress)
+     */
+    setCompletedLevels(levelIds: string[]): void {
+        this.completedLevels = new Set(levelIds);
+    }
+
+    /**
+     * Evaluate the unlock rule of a level
+     */
+    isUnlocked(levelId: string): boolean {
+        const index = this.getLevelIndex(levelId);
+        if (index < 0) {
+            return false;
+        }
+
+        const level = this.levels[index];
+        const rule = level.unlock ?? { type: index === 0 ? 'always' : 'previous' };
+
+        switch (rule.type) {
+            case 'always':
+                return true;
+            case 'previous':
+                return index === 0 || this.isCompleted(this.levels[index - 1].id);
+            case 'levels':
+                return (rule.levels ?? []).every(id => this.isCompleted(id));
+            default:
+                console.warn(`[LevelManager] Unknown unlock rule for ${levelId}: ${(rule as any).type}`);
+                return false;
+        }
+    }
+
+    /**
+     * Get the level the player should continue with:
+     * the first unlocked level that isn't completed yet, or the first level
+     */
+    getDefaultLevelId(): string | null {
+        const nextLevel = this.levels.find(level => this.isUnlocked(level.id) && !this.isCompleted(level.id));
+        return nextLevel ? nextLevel.id : this.getFirstLevelId();
+    }
+}
@@ -0,0 +1,207 @@
+import { eventBus, GameEvent } from '../events/EventBus';
+import { Player } from '../sprites/Player';
+
+export type PowerUpEffect = 'double_jump' | 'shoot' | 'speed' | 'invincibility' | 'extra_heart' | 'shield' | 'bullet_cap';
+
+/**
+ * A power-up currently affecting the player, as shown by the HUD
+ */
+export interface ActivePowerUp {
+    effect: PowerUpEffect;
+    label: string;
+    duration: number;       // Total duration in ms, 0 = permanent
+    remaining: number;      // Time left in ms (0 for permanent power-ups)
+}
+
+interface PowerUpDefinition {
+    label: string;
+    duration: number;       // Default duration in ms, 0 = permanent
+    value: number;          // Default strength (multiplier, hearts, hits, bullets)
+    instant?: boolean;      // Applied once, never active (extra_heart)
+    // Applies the effect and returns how to undo it
+    apply: (player: Player, value: number) => (() => void);
+}
+
+const POWER_UPS: { [effect in PowerUpEffect]: PowerUpDefinition } = {
+    double_jump: {
+        label: 'Double Jump',
+        duration: 0,
+        value: 0,
+        apply: player => {
+            const had = player.hasAbility('canDoubleJump');
+            player.setAbility('canDoubleJump', true);
+            return () => player.setAbility('canDoubleJump', had);
+        }
+    },
+    shoot: {
+        label: 'Blaster',
+        duration: 0,
+        value: 0,
+        apply: player => {
+            const had = player.hasAbility('canShoot');
+            player.setAbility('canShoot', true);
+            return () => player.setAbility('canShoot', had);
+        }
+    },
+    speed: {
+        label: 'Speed',
+        duration: 10000,
+        value: 1.5,
+        apply: (player, value) => {
+            const previous = player.getSpeedMultiplier();
+            player.setSpeedMultiplier(value);
+            return () => player.setSpeedMultiplier(previous);
+        }
+    },
+    invincibility: {
+        label: 'Invincible',
+        duration: 8000,
+        value: 0,
+        apply: player => {
+            player.setInvincible(true);
+            return () => player.setInvincible(false);
+        }
+    },
+    extra_heart: {
+        label: 'Extra Heart',
+        duration: 0,
+        value: 1,
+        instant: true,
+        apply: (player, value) => {
+            player.increaseMaxHealth(value);
+            return () => {};
+        }
+    },
+    shield: {
+        label: 'Shield',
+        duration: 0,
+        value: 1,
+        apply: (player, value) => {
+            player.addShield(value);
+            return () => player.setShield(0);
+        }
+    },
+    bullet_cap: {
+        label: 'Bullet Cap',
+        duration: 0,
+        value: 20,
+        apply: (player, value) => {
+            const previous = player.getMaxBullets();
+            player.setMaxBullets(value);
+            return () => player.setMaxBullets(previous);
+        }
+    }
+};
+
+interface PowerUpState extends ActivePowerUp {
+    restore: () => void;
+}
+
+/**
+ * PowerUpManager - Applies power-up effects to the player and ends timed ones
+ *
+ * Effects only change the player through its ability API. Collecting a power-up
+ * that is already active refreshes its duration; a permanent one replaces a timed one.
+ */
+export class PowerUpManager {
+    private player: Player;
+    private active: Map<PowerUpEffect, PowerUpState> = new Map();
+
+    constructor(player: Player) {
+        this.player = player;
+    }
+
+    static isPowerUpEffect(name: string): name is PowerUpEffect {
+        return name in POWER_UPS;
+    }
+
+    /**
+     * @param duration Duration in ms, 0 = permanent (default: per effect)
+     * @param value Strength of the effect (default: per effect)
+     */
+    activate(effect: PowerUpEffect, duration?: number, value?: number): void {
+        const definition = POWER_UPS[effect];
+        const effectDuration = definition.instant ? 0 : Math.max(0, duration ?? definition.duration);
+
+        const restore = definition.apply(this.player, value ?? definition.value);
+
+        if (!definition.instant) {
+            const current = this.active.get(effect);
+            if (current) {
+                // Keep undoing to the state from before the first pickup
+                const permanent = current.duration === 0 || effectDuration === 0;
+                current.duration = permanent ? 0 : effectDuration;
+                current.remaining = current.duration;
+            } else {
+                this.active.set(effect, {
+                    effect,
+                    label: definition.label,
+                    duration: effectDuration,
+                    remaining: effectDuration,
+                    restore
+                });
+            }
+        }
+
+        eventBus.emit(GameEvent.POWER_UP_ACTIVATE, {
+            player: this.player,
+            effect,
+            duration: effectDuration
+        });
+    }
+
+    /**
+     * Count down timed power-ups, called by the Game scene every frame
+     */
+    update(delta: number): void {
+        this.active.forEach(powerUp => {
+            // A used up shield is over
+            if (powerUp.effect === 'shield' && this.player.getShield() === 0) {
+                this.remove(powerUp);
+                return;
+            }
+
+            if (powerUp.duration === 0) return;
+
+            powerUp.remaining -= delta;
+            if (powerUp.remaining <= 0) {
+                powerUp.restore();
+                this.remove(powerUp);
+            }
+        });
+    }
+
+    /**
+     * End every timed power-up, permanent ones stay (used when the player respawns)
+     */
+    expireTimed(): void {
+        this.active.forEach(powerUp => {
+            if (powerUp.duration > 0) {
+                powerUp.restore();
+                this.remove(powerUp);
+            }
+        });
+    }
+
+    isActive(effect: PowerUpEffect): boolean {
+        return this.active.has(effect);
+    }
+
+    getActivePowerUps(): ActivePowerUp[] {
+        return Array.from(this.active.values()).map(({ effect, label, duration, remaining }) => ({
+            effect,
+            label,
+            duration,
+            remaining: Math.max(0, remaining)
+        }));
+    }
+
+    private remove(powerUp: PowerUpState): void {
+        this.active.delete(powerUp.effect);
+
+        eventBus.emit(GameEvent.POWER_UP_EXPIRE, {
+            player: this.player,
+            effect: powerUp.effect
+        });
+    }
+}
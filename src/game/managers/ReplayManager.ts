@@ -0,0 +1,309 @@
+import { InputState, ActionState } from './InputManager';
+
+export const REPLAY_FORMAT = '2dplatformer-replay';
+export const REPLAY_VERSION = 1;
+
+/**
+ * A single recorded frame: [delta ms, moveX, moveY, button flags]
+ */
+export type ReplayFrame = [number, number, number, number];
+
+/**
+ * Replay file contents
+ */
+export interface ReplayData {
+    format: string;
+    version: number;
+    levelId: string;
+    seed: string;
+    recordedAt: string;     // ISO date
+    time: number;           // Level time in ms when the run ended
+    completed: boolean;     // Whether the run reached the goal
+    frames: ReplayFrame[];
+}
+
+// Button flag bits
+const FLAG_JUMP_DOWN = 1 << 0;
+const FLAG_JUMP_PRESSED = 1 << 1;
+const FLAG_JUMP_RELEASED = 1 << 2;
+const FLAG_SHOOT_DOWN = 1 << 3;
+const FLAG_SHOOT_PRESSED = 1 << 4;
+const FLAG_SHOOT_RELEASED = 1 << 5;
+const FLAG_DUCK = 1 << 6;
+// The Game scene skipped player update on this frame (pause was requested)
+const FLAG_SKIP = 1 << 7;
+const FLAG_SWITCH_WEAPON_DOWN = 1 << 8;
+const FLAG_SWITCH_WEAPON_PRESSED = 1 << 9;
+const FLAG_SWITCH_WEAPON_RELEASED = 1 << 10;
+const FLAG_INTERACT_DOWN = 1 << 11;
+const FLAG_INTERACT_PRESSED = 1 << 12;
+const FLAG_INTERACT_RELEASED = 1 << 13;
+
+/**
+ * Round analog values so replay files stay small (and identical on playback)
+ */
+function quantize(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function encodeAction(action: ActionState, down: number, pressed: number, released: number): number {
+    return (action.isDown ? down : 0) | (action.justPressed ? pressed : 0) | (action.justReleased ? released : 0);
+}
+
+function decodeAction(flags: number, down: number, pressed: number, released: number): ActionState {
+    return {
+        isDown: (flags & down) !== 0,
+        justPressed: (flags & pressed) !== 0,
+        justReleased: (flags & released) !== 0
+    };
+}
+
+const IDLE_ACTION: ActionState = { isDown: false, justPressed: false, justReleased: false };
+
+/**
+ * Records the delta and player input of every simulated frame
+ */
+export class ReplayRecorder {
+    private levelId: string;
+    private seed: string;
+    private frames: ReplayFrame[] = [];
+
+    constructor(levelId: string, seed: string) {
+        this.levelId = levelId;
+        this.seed = seed;
+    }
+
+    /**
+     * Record a frame. Returns the input as it will be reproduced on playback,
+     * so the live run sees exactly the same (quantized) values as the replay.
+     */
+    record(delta: number, input: InputState, skipped: boolean = false): InputState {
+        const flags =
+            encodeAction(input.jump, FLAG_JUMP_DOWN, FLAG_JUMP_PRESSED, FLAG_JUMP_RELEASED) |
+            encodeAction(input.shoot, FLAG_SHOOT_DOWN, FLAG_SHOOT_PRESSED, FLAG_SHOOT_RELEASED) |
+            encodeAction(input.switchWeapon, FLAG_SWITCH_WEAPON_DOWN, FLAG_SWITCH_WEAPON_PRESSED, FLAG_SWITCH_WEAPON_RELEASED) |
+            encodeAction(input.interact, FLAG_INTERACT_DOWN, FLAG_INTERACT_PRESSED, FLAG_INTERACT_RELEASED) |
+            (input.duck ? FLAG_DUCK : 0) |
+            (skipped ? FLAG_SKIP : 0);
+
+        const frame: ReplayFrame = [delta, quantize(input.moveX), quantize(input.moveY), flags];
+        this.frames.push(frame);
+
+        return ReplayPlayer.decodeFrame(frame, input);
+    }
+
+    getFrameCount(): number {
+        return this.frames.length;
+    }
+
+    finish(time: number, completed: boolean): ReplayData {
+        return {
+            format: REPLAY_FORMAT,
+            version: REPLAY_VERSION,
+            levelId: this.levelId,
+            seed: this.seed,
+            recordedAt: new Date().toISOString(),
+            time,
+            completed,
+            frames: this.frames
+        };
+    }
+}
+
+/**
+ * Feeds recorded frames back into the Game scene
+ */
+export class ReplayPlayer {
+    private replay: ReplayData;
+    private frameIndex: number = 0;
+
+    constructor(replay: ReplayData) {
+        this.replay = replay;
+    }
+
+    /**
+     * Rebuild the player input of a frame. Pause and restart are not recorded
+     * and are taken from the live input so the viewer can still use them.
+     */
+    static decodeFrame(frame: ReplayFrame, liveInput: InputState): InputState {
+        const flags = frame[3];
+        return {
+            moveX: frame[1],
+            moveY: frame[2],
+            duck: (flags & FLAG_DUCK) !== 0,
+            jump: decodeAction(flags, FLAG_JUMP_DOWN, FLAG_JUMP_PRESSED, FLAG_JUMP_RELEASED),
+            shoot: decodeAction(flags, FLAG_SHOOT_DOWN, FLAG_SHOOT_PRESSED, FLAG_SHOOT_RELEASED),
+            switchWeapon: decodeAction(flags, FLAG_SWITCH_WEAPON_DOWN, FLAG_SWITCH_WEAPON_PRESSED, FLAG_SWITCH_WEAPON_RELEASED),
+            interact: decodeAction(flags, FLAG_INTERACT_DOWN, FLAG_INTERACT_PRESSED, FLAG_INTERACT_RELEASED),
+            pause: liveInput.pause,
+            restart: liveInput.restart
+        };
+    }
+
+    /**
+     * Delta of the frame about to be played, or null when the replay is over
+     */
+    peekDelta(): number | null {
+        const frame = this.replay.frames[this.frameIndex];
+        return frame ? frame[0] : null;
+    }
+
+    /**
+     * Input of the next frame. Returns idle input once the replay is over.
+     */
+    nextInput(liveInput: InputState): { input: InputState; skipped: boolean } {
+        const frame = this.replay.frames[this.frameIndex];
+        if (!frame) {
+            return {
+                input: {
+                    moveX: 0,
+                    moveY: 0,
+                    duck: false,
+                    jump: IDLE_ACTION,
+                    shoot: IDLE_ACTION,
+                    switchWeapon: IDLE_ACTION,
+                    interact: IDLE_ACTION,
+                    pause: liveInput.pause,
+                    restart: liveInput.restart
+                },
+                skipped: false
+            };
+        }
+
+        this.frameIndex++;
+        return {
+            input: ReplayPlayer.decodeFrame(frame, liveInput),
+            skipped: (frame[3] & FLAG_SKIP) !== 0
+        };
+    }
+
+    isFinished(): boolean {
+        return this.frameIndex >= this.replay.frames.length;
+    }
+
+    getReplay(): ReplayData {
+        return this.replay;
+    }
+}
+
+/**
+ * ReplayManager - Replay storage and file import/export
+ *
+ * Keeps the replay of the last finished run so the Victory screen can export
+ * it, and validates replay files picked by the player.
+ */
+export class ReplayManager {
+    private static instance: ReplayManager;
+    private lastReplay: ReplayData | null = null;
+
+    private constructor() {}
+
+    static getInstance(): ReplayManager {
+        if (!ReplayManager.instance) {
+            ReplayManager.instance = new ReplayManager();
+        }
+        return ReplayManager.instance;
+    }
+
+    /**
+     * Create a seed for a new recorded run
+     */
+    static createSeed(): string {
+        return Math.random().toString(36).substring(2, 10);
+    }
+
+    setLastReplay(replay: ReplayData | null): void {
+        this.lastReplay = replay;
+    }
+
+    getLastReplay(): ReplayData | null {
+        return this.lastReplay;
+    }
+
+    serialize(replay: ReplayData): string {
+        return JSON.stringify(replay);
+    }
+
+    /**
+     * Parse and validate a replay file
+     * @throws Error if the file is not a replay this game can play
+     */
+    parse(text: string): ReplayData {
+        let data: any;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            throw new Error('Replay file is not valid JSON');
+        }
+
+        if (data?.format !== REPLAY_FORMAT) {
+            throw new Error('Not a replay file');
+        }
+        if (typeof data.version !== 'number' || data.version > REPLAY_VERSION) {
+            throw new Error(`Unsupported replay version ${data.version}`);
+        }
+        if (typeof data.levelId !== 'string' || typeof data.seed !== 'string') {
+            throw new Error('Replay is missing its level or seed');
+        }
+        const framesValid = Array.isArray(data.frames) && data.frames.every((frame: any) =>
+            Array.isArray(frame) && frame.length === 4 && frame.every((value: any) => typeof value === 'number')
+        );
+        if (!framesValid) {
+            throw new Error('Replay frames are corrupted');
+        }
+
+        return {
+            format: data.format,
+            version: data.version,
+            levelId: data.levelId,
+            seed: data.seed,
+            recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+            time: typeof data.time === 'number' ? data.time : 0,
+            completed: data.completed === true,
+            frames: data.frames
+        };
+    }
+
+    /**
+     * Download a replay as a .json file
+     */
+    exportReplay(replay: ReplayData): void {
+        const blob = new Blob([this.serialize(replay)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `replay_${replay.levelId}_${Math.round(replay.time)}ms.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Let the player pick a replay file
+     * @returns The parsed replay, or null if the picker was cancelled
+     */
+    importReplay(): Promise<ReplayData | null> {
+        return new Promise((resolve, reject) => {
+            const input = document.createElement('input');
+            input.type = 'file';
+            input.accept = '.json,application/json';
+
+            input.addEventListener('change', () => {
+                const file = input.files?.[0];
+                if (!file) {
+                    resolve(null);
+                    return;
+                }
+
+                file.text()
+                    .then(text => resolve(this.parse(text)))
+                    .catch(reject);
+            });
+            input.addEventListener('cancel', () => resolve(null));
+
+            input.click();
+        });
+    }
+}
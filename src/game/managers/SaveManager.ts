@@ -0,0 +1,412 @@
+import { eventBus, GameEvent } from '../events/EventBus';
+import { StorageBackend, LocalStorageBackend, MemoryStorageBackend } from './SaveStorage';
+import { BGMPlayer } from './BGMPlayer';
+import { SoundEffectPlayer } from './SoundEffectPlayer';
+import { InputAction, KeyBindings, DEFAULT_KEY_BINDINGS, cloneKeyBindings } from './InputManager';
+
+/**
+ * Persisted progress for a single level
+ */
+export interface LevelSaveData {
+    completed: boolean;
+    bestScore: number;
+    bestTime: number | null;            // Best completion time in ms (null if never completed)
+    bestStars: number;                  // Most stars earned in a single run
+    collectedMustCollect: string[];     // Must-collect item names collected in any successful run
+}
+
+/**
+ * Persisted audio settings
+ */
+export interface AudioSettings {
+    bgmVolume: number;      // 0..1
+    sfxVolume: number;      // 0..1
+    muted: boolean;
+}
+
+/**
+ * Persisted control settings
+ */
+export interface ControlSettings {
+    keyBindings: KeyBindings;
+}
+
+/**
+ * Persisted gameplay options
+ */
+export interface GameplaySettings {
+    showGhost: boolean;     // Race against the ghost of the best run
+}
+
+/**
+ * Root save data structure
+ */
+export interface SaveData {
+    version: number;
+    levels: { [levelId: string]: LevelSaveData };
+    settings: {
+        audio: AudioSettings;
+        controls: ControlSettings;
+        gameplay: GameplaySettings;
+    };
+}
+
+/**
+ * Result of a finished level run
+ */
+export interface LevelResult {
+    score: number;
+    time: number;                       // Completion time in ms
+    stars: number;                      // Stars earned (0 if the level has no rating)
+    collectedMustCollect: string[];
+}
+
+/**
+ * Which records a level run improved
+ */
+export interface LevelRecordUpdate {
+    isNewBestScore: boolean;
+    isNewBestTime: boolean;
+    isNewBestStars: boolean;
+    isFirstCompletion: boolean;
+}
+
+type SaveMigration = (data: any) => any;
+
+export const CURRENT_SAVE_VERSION = 4;
+
+/**
+ * Schema migrations keyed by the version they upgrade from.
+ * When SaveData changes, bump CURRENT_SAVE_VERSION and add a migration
+ * from the previous version so existing saves keep working.
+ */
+const SAVE_MIGRATIONS: { [fromVersion: number]: SaveMigration } = {
+    // v2: rebindable controls
+    1: (data) => ({
+        ...data,
+        settings: {
+            ...data.settings,
+            controls: { keyBindings: cloneKeyBindings(DEFAULT_KEY_BINDINGS) }
+        }
+    }),
+    // v3: ghost racing toggle
+    2: (data) => ({
+        ...data,
+        settings: {
+            ...data.settings,
+            gameplay: { showGhost: true }
+        }
+    }),
+    // v4: star ratings
+    3: (data) => {
+        const levels: { [levelId: string]: any } = {};
+        for (const [levelId, levelData] of Object.entries<any>(data.levels ?? {})) {
+            levels[levelId] = { ...levelData, bestStars: 0 };
+        }
+        return { ...data, levels };
+    }
+};
+
+const SAVE_KEY = 'platformer_save';
+
+/**
+ * SaveManager - Versioned save data persistence
+ *
+ * This manager handles:
+ * - Loading and saving data through a pluggable StorageBackend
+ * - Migrating old save data to the current schema version
+ * - Per-level records (completion, best score, best time, stars, must-collect items)
+ * - Audio, control and gameplay settings
+ */
+export class SaveManager {
+    private static instance: SaveManager;
+    private backend: StorageBackend;
+    private data: SaveData;
+    // Set when the stored save comes from a newer game version, to avoid overwriting it
+    private persistenceDisabled: boolean = false;
+
+    private constructor() {
+        this.backend = LocalStorageBackend.isAvailable()
+            ? new LocalStorageBackend()
+            : new MemoryStorageBackend();
+        this.data = SaveManager.createDefaultData();
+        this.load();
+        this.setupEventListeners();
+    }
+
+    /**
+     * Get the singleton instance
+     */
+    static getInstance(): SaveManager {
+        if (!SaveManager.instance) {
+            SaveManager.instance = new SaveManager();
+        }
+        return SaveManager.instance;
+    }
+
+    static createDefaultData(): SaveData {
+        return {
+            version: CURRENT_SAVE_VERSION,
+            levels: {},
+            settings: {
+                audio: {
+                    bgmVolume: 1,
+                    sfxVolume: 1,
+                    muted: false
+                },
+                controls: {
+                    keyBindings: cloneKeyBindings(DEFAULT_KEY_BINDINGS)
+                },
+                gameplay: {
+                    showGhost: true
+                }
+            }
+        };
+    }
+
+    static createDefaultLevelData(): LevelSaveData {
+        return {
+            completed: false,
+            bestScore: 0,
+            bestTime: null,
+            bestStars: 0,
+            collectedMustCollect: []
+        };
+    }
+
+    private setupEventListeners(): void {
+        // Persist volume changes made anywhere in the game
+        eventBus.on(GameEvent.BGM_VOLUME_CHANGE, (data) => {
+            this.setAudioSettings({ bgmVolume: data.volume });
+        });
+
+        eventBus.on(GameEvent.SOUND_EFFECT_VOLUME_CHANGE, (data) => {
+            this.setAudioSettings({ sfxVolume: data.volume });
+        });
+    }
+
+    /**
+     * Swap the storage backend (e.g. MemoryStorageBackend in tests) and reload from it
+     */
+    setBackend(backend: StorageBackend): void {
+        this.backend = backend;
+        this.load();
+    }
+
+    /**
+     * Load save data from the backend, migrating it if needed
+     */
+    load(): void {
+        this.persistenceDisabled = false;
+        const raw = this.backend.read(SAVE_KEY);
+        if (!raw) {
+            this.data = SaveManager.createDefaultData();
+            return;
+        }
+
+        try {
+            const parsed = JSON.parse(raw);
+            this.data = this.migrate(parsed);
+        } catch (error) {
+            console.error('[SaveManager] Failed to load save data, starting fresh:', error);
+            this.data = SaveManager.createDefaultData();
+        }
+    }
+
+    /**
+     * Write save data to the backend
+     */
+    save(): void {
+        if (this.persistenceDisabled) {
+            return;
+        }
+        this.backend.write(SAVE_KEY, JSON.stringify(this.data));
+    }
+
+    /**
+     * Delete all saved progress and settings
+     */
+    reset(): void {
+        this.data = SaveManager.createDefaultData();
+        this.persistenceDisabled = false;
+        this.backend.remove(SAVE_KEY);
+    }
+
+    private migrate(raw: any): SaveData {
+        let data = raw;
+        let version = typeof data?.version === 'number' ? data.version : 0;
+
+        if (version > CURRENT_SAVE_VERSION) {
+            console.warn(`[SaveManager] Save version ${version} is newer than supported version ${CURRENT_SAVE_VERSION}, progress will not be saved`);
+            this.persistenceDisabled = true;
+            return this.normalize(data);
+        }
+
+        while (version < CURRENT_SAVE_VERSION) {
+            const migration = SAVE_MIGRATIONS[version];
+            if (migration) {
+                data = migration(data);
+            }
+            version++;
+            data.version = version;
+        }
+
+        return this.normalize(data);
+    }
+
+    /**
+     * Fill in any missing fields with defaults
+     */
+    private normalize(raw: any): SaveData {
+        const defaults = SaveManager.createDefaultData();
+        const levels: { [levelId: string]: LevelSaveData } = {};
+
+        if (raw?.levels && typeof raw.levels === 'object') {
+            for (const [levelId, levelData] of Object.entries<any>(raw.levels)) {
+                levels[levelId] = {
+                    ...SaveManager.createDefaultLevelData(),
+                    ...levelData
+                };
+            }
+        }
+
+        return {
+            ...raw,
+            version: CURRENT_SAVE_VERSION,
+            levels,
+            settings: {
+                ...defaults.settings,
+                ...raw?.settings,
+                audio: {
+                    ...defaults.settings.audio,
+                    ...raw?.settings?.audio
+                },
+                controls: {
+                    keyBindings: this.normalizeKeyBindings(raw?.settings?.controls?.keyBindings)
+                },
+                gameplay: {
+                    ...defaults.settings.gameplay,
+                    ...raw?.settings?.gameplay
+                }
+            }
+        };
+    }
+
+    /**
+     * Keep valid saved bindings and fall back to defaults for anything missing or malformed
+     */
+    private normalizeKeyBindings(raw: any): KeyBindings {
+        const keyBindings = cloneKeyBindings(DEFAULT_KEY_BINDINGS);
+        if (!raw || typeof raw !== 'object') {
+            return keyBindings;
+        }
+
+        Object.values(InputAction).forEach(action => {
+            const keys = raw[action];
+            if (Array.isArray(keys) && keys.every(keyCode => typeof keyCode === 'number')) {
+                keyBindings[action] = [...keys];
+            }
+        });
+        return keyBindings;
+    }
+
+    getData(): SaveData {
+        return this.data;
+    }
+
+    /**
+     * Get the saved record of a level (defaults if never played)
+     */
+    getLevelRecord(levelId: string): LevelSaveData {
+        return this.data.levels[levelId] ?? SaveManager.createDefaultLevelData();
+    }
+
+    getCompletedLevelIds(): string[] {
+        return Object.keys(this.data.levels).filter(levelId => this.data.levels[levelId].completed);
+    }
+
+    /**
+     * Record a successful level run and persist any improved records
+     */
+    recordLevelResult(levelId: string, result: LevelResult): LevelRecordUpdate {
+        const record = this.data.levels[levelId] ?? SaveManager.createDefaultLevelData();
+
+        const update: LevelRecordUpdate = {
+            isFirstCompletion: !record.completed,
+            isNewBestScore: result.score > record.bestScore,
+            isNewBestTime: record.bestTime === null || result.time < record.bestTime,
+            isNewBestStars: result.stars > record.bestStars
+        };
+
+        record.completed = true;
+        if (update.isNewBestScore) {
+            record.bestScore = result.score;
+        }
+        if (update.isNewBestTime) {
+            record.bestTime = result.time;
+        }
+        if (update.isNewBestStars) {
+            record.bestStars = result.stars;
+        }
+        record.collectedMustCollect = Array.from(
+            new Set([...record.collectedMustCollect, ...result.collectedMustCollect])
+        );
+
+        this.data.levels[levelId] = record;
+        this.save();
+
+        return update;
+    }
+
+    getAudioSettings(): AudioSettings {
+        return { ...this.data.settings.audio };
+    }
+
+    setAudioSettings(settings: Partial<AudioSettings>): void {
+        const audio = this.data.settings.audio;
+        if (settings.bgmVolume !== undefined) {
+            audio.bgmVolume = Math.max(0, Math.min(1, settings.bgmVolume));
+        }
+        if (settings.sfxVolume !== undefined) {
+            audio.sfxVolume = Math.max(0, Math.min(1, settings.sfxVolume));
+        }
+        if (settings.muted !== undefined) {
+            audio.muted = settings.muted;
+        }
+        this.save();
+    }
+
+    getGameplaySettings(): GameplaySettings {
+        return { ...this.data.settings.gameplay };
+    }
+
+    setGameplaySettings(settings: Partial<GameplaySettings>): void {
+        this.data.settings.gameplay = {
+            ...this.data.settings.gameplay,
+            ...settings
+        };
+        this.save();
+    }
+
+    getKeyBindings(): KeyBindings {
+        return cloneKeyBindings(this.data.settings.controls.keyBindings);
+    }
+
+    setKeyBindings(keyBindings: KeyBindings): void {
+        this.data.settings.controls.keyBindings = cloneKeyBindings(keyBindings);
+        this.save();
+
+        eventBus.emit(GameEvent.KEY_BINDINGS_CHANGE, {
+            keyBindings: this.getKeyBindings()
+        });
+    }
+
+    /**
+     * Push the saved audio settings to the BGM and sound effect players
+     */
+    applyAudioSettings(): void {
+        const audio = this.data.settings.audio;
+        BGMPlayer.getInstance().setGlobalVolume(audio.muted ? 0 : audio.bgmVolume);
+        SoundEffectPlayer.getInstance().setGlobalVolume(audio.muted ? 0 : audio.sfxVolume);
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * Storage backend used by SaveManager to persist serialized save data
+ */
+export interface StorageBackend {
+    read(key: string): string | null;
+    write(key: string, value: string): void;
+    remove(key: string): void;
+}
+
+/**
+ * Browser localStorage backend (default)
+ */
+export class LocalStorageBackend implements StorageBackend {
+    read(key: string): string | null {
+        try {
+            return window.localStorage.getItem(key);
+        } catch (error) {
+            console.warn('[LocalStorageBackend] Failed to read save data:', error);
+            return null;
+        }
+    }
+
+    write(key: string, value: string): void {
+        try {
+            window.localStorage.setItem(key, value);
+        } catch (error) {
+            // Quota exceeded or storage disabled (e.g. private browsing)
+            console.warn('[LocalStorageBackend] Failed to write save data:', error);
+        }
+    }
+
+    remove(key: string): void {
+        try {
+            window.localStorage.removeItem(key);
+        } catch (error) {
+            console.warn('[LocalStorageBackend] Failed to remove save data:', error);
+        }
+    }
+
+    /**
+     * Check if localStorage can be used in this environment
+     */
+    static isAvailable(): boolean {
+        try {
+            const testKey = '__storage_test__';
+            window.localStorage.setItem(testKey, testKey);
+            window.localStorage.removeItem(testKey);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+}
+
+/**
+ * In-memory backend, used for tests and as a fallback when localStorage is unavailable
+ */
+export class MemoryStorageBackend implements StorageBackend {
+    private store: Map<string, string> = new Map();
+
+    read(key: string): string | null {
+        return this.store.has(key) ? this.store.get(key)! : null;
+    }
+
+    write(key: string, value: string): void {
+        this.store.set(key, value);
+    }
+
+    remove(key: string): void {
+        this.store.delete(key);
+    }
+}
@@ -18,6 +18,8 @@ export class SoundEffectPlayer {
     private loadedSounds: Map<string, Phaser.Sound.BaseSound> = new Map();
     private animationToSounds: Map<string, SoundEffect[]> = new Map();
     private configLoaded: boolean = false;
+    // Master volume multiplier applied to every sound effect
+    private globalVolume: number = 1.0;
     
     private constructor() {}
     
@@ -93,9 +95,11 @@ export class SoundEffectPlayer {
             });
         });
         
-        eventBus.on(GameEvent.PLAYER_DAMAGE, () => {
+        eventBus.on(GameEvent.PLAYER_DAMAGE, (data) => {
+            // A sound for the damage type (e.g. damage_spike) replaces the generic one
+            const typedKey = `damage_${data.damageType}`;
             eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
-                key: 'damage',
+                key: this.scene.cache.audio.exists(typedKey) ? typedKey : 'damage',
                 volume: 0.7
             });
         });
@@ -247,7 +251,7 @@ export class SoundEffectPlayer {
             if (this.scene.cache.audio.exists(soundKey)) {
                 try {
                     const newSound = this.scene.sound.add(soundKey, {
-                        volume: volume,
+                        volume: volume * this.globalVolume,
                         loop: false
                     });
                     this.loadedSounds.set(soundKey, newSound);
@@ -263,7 +267,7 @@ export class SoundEffectPlayer {
         }
         
         if ('volume' in sound) {
-            (sound as any).volume = volume;
+            (sound as any).volume = volume * this.globalVolume;
         }
         
         if (!sound.isPlaying) {
@@ -298,6 +302,7 @@ export class SoundEffectPlayer {
     
     setGlobalVolume(volume: number): void {
         const clampedVolume = Math.max(0, Math.min(1, volume));
+        this.globalVolume = clampedVolume;
         this.loadedSounds.forEach(sound => {
             if ('volume' in sound) {
                 (sound as any).volume = clampedVolume;
@@ -305,6 +310,10 @@ export class SoundEffectPlayer {
         });
     }
     
+    getGlobalVolume(): number {
+        return this.globalVolume;
+    }
+    
     hasAnimationSound(atlasKey: string, animationName: string): boolean {
         const animKey = `${atlasKey}_${animationName}`;
         const sounds = this.animationToSounds.get(animKey);
@@ -458,7 +458,18 @@ export class UIManager {
         }
     }
 
-    public animateElement(key: string, tweenConfig: Phaser.Types.Tweens.TweenBuilderConfig): void {
+    public setButtonText(key: string, text: string): void {
+        const element = this.elements.get(key);
+        const config = this.config.elements[key];
+        
+        if (!(element instanceof Phaser.GameObjects.Container) || !config || config.type !== 'button') return;
+        
+        (config as ButtonElementConfig).text = text;
+        const label = element.list.find(child => child instanceof Phaser.GameObjects.Text) as GameObjects.Text | undefined;
+        label?.setText(text);
+    }
+
+    public animateElement(key: string, tweenConfig: Omit<Phaser.Types.Tweens.TweenBuilderConfig, 'targets'>): void {
         const element = this.elements.get(key);
         const config = this.config.elements[key];
         if (element && config) {
@@ -0,0 +1,325 @@
+import { Scene } from 'phaser';
+import { eventBus, GameEvent } from '../events/EventBus';
+import { UIManager, UILayoutConfig, UIElement } from '../managers/UIManager';
+import { SaveManager } from '../managers/SaveManager';
+import {
+    InputAction,
+    KeyBindings,
+    ACTION_LABELS,
+    KEY_BINDING_PRESETS,
+    MAX_KEYS_PER_ACTION,
+    cloneKeyBindings,
+    findKeyConflict,
+    getKeyName
+} from '../managers/InputManager';
+
+const KeyCodes = Phaser.Input.Keyboard.KeyCodes;
+
+const STATUS_COLOR = '#cccccc';
+const WARNING_COLOR = '#ff6b6b';
+
+/**
+ * Key binding screen, launched from the Settings overlay.
+ * Click a slot and press a key to rebind it; changes are saved immediately.
+ */
+export class Controls extends Scene
+{
+    private uiManager: UIManager;
+    private overlay: Phaser.GameObjects.Rectangle;
+    private saveManager: SaveManager;
+    private returnTo: string | undefined;
+    private keyBindings: KeyBindings;
+    // Slot waiting for a key press
+    private listening: { action: InputAction; slot: number } | null = null;
+
+    constructor ()
+    {
+        super('Controls');
+        this.saveManager = SaveManager.getInstance();
+    }
+
+    init (data: { returnTo?: string })
+    {
+        this.returnTo = data?.returnTo;
+        this.listening = null;
+    }
+
+    create ()
+    {
+        eventBus.emit(GameEvent.SCENE_START, {
+            scene: 'Controls'
+        });
+
+        this.keyBindings = this.saveManager.getKeyBindings();
+
+        this.overlay = this.add.rectangle(0, 0, this.scale.width, this.scale.height, 0x1a1a2e, 0.95);
+        this.overlay.setOrigin(0, 0);
+        this.overlay.setInteractive();
+
+        const labelStyle = {
+            fontFamily: 'Arial Black',
+            fontSize: '22px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 4
+        };
+
+        const slotStyle = {
+            fontFamily: 'Arial Black',
+            fontSize: '22px',
+            color: '#FFD700',
+            stroke: '#000000',
+            strokeThickness: 4
+        };
+
+        const buttonStyle = {
+            fontFamily: 'Arial Black',
+            fontSize: '24px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 5
+        };
+
+        const elements: { [key: string]: UIElement } = {
+            title: {
+                type: 'text',
+                text: '🎮 CONTROLS',
+                position: { x: '50%', y: '8%' },
+                origin: { x: 0.5, y: 0.5 },
+                style: {
+                    fontFamily: 'Arial Black',
+                    fontSize: '48px',
+                    color: '#ffffff',
+                    stroke: '#000000',
+                    strokeThickness: 8,
+                    align: 'center'
+                },
+                depth: 2
+            }
+        };
+
+        // One row per action with a button per key slot
+        Object.values(InputAction).forEach((action, row) => {
+            const y = `${18 + row * 5.5}%`;
+
+            elements[`${action}Label`] = {
+                type: 'text',
+                text: ACTION_LABELS[action],
+                position: { x: '20%', y },
+                origin: { x: 0, y: 0.5 },
+                style: labelStyle,
+                depth: 2
+            };
+
+            for (let slot = 0; slot < MAX_KEYS_PER_ACTION; slot++) {
+                elements[this.getSlotKey(action, slot)] = {
+                    type: 'button',
+                    text: '',
+                    position: { x: `${60 + slot * 16}%`, y },
+                    scale: 1,
+                    textStyle: slotStyle,
+                    onClick: () => this.startListening(action, slot),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 3
+                };
+            }
+        });
+
+        // Preset layouts
+        Object.entries(KEY_BINDING_PRESETS).forEach(([presetId, preset], index) => {
+            elements[`preset_${presetId}`] = {
+                type: 'button',
+                text: preset.name,
+                position: { x: `${25 + index * 25}%`, y: '73%' },
+                scale: 1,
+                textStyle: labelStyle,
+                onClick: () => this.applyPreset(presetId),
+                hoverScale: 1.1,
+                clickScale: 0.95,
+                depth: 3
+            };
+        });
+
+        elements.status = {
+            type: 'text',
+            text: '',
+            position: { x: '50%', y: '81%' },
+            origin: { x: 0.5, y: 0.5 },
+            style: {
+                fontFamily: 'Arial',
+                fontSize: '18px',
+                color: STATUS_COLOR,
+                align: 'center'
+            },
+            depth: 2
+        };
+
+        elements.backButton = {
+            type: 'button',
+            text: '⬅ BACK',
+            position: { x: '50%', y: '90%' },
+            scale: 1,
+            textStyle: buttonStyle,
+            onClick: () => this.close(),
+            hoverScale: 1.1,
+            clickScale: 0.95,
+            depth: 3
+        };
+
+        const uiConfig: UILayoutConfig = {
+            baseWidth: 1024,
+            baseHeight: 768,
+            scalingMode: 'fit',
+            responsive: true,
+            elements
+        };
+
+        this.uiManager = new UIManager(this, uiConfig);
+        this.uiManager.createUI();
+        this.refreshBindings();
+        this.showStatus('Click a key to change it');
+
+        this.scale.on('resize', this.onResize, this);
+        this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+            this.scale.off('resize', this.onResize, this);
+            this.input.keyboard?.off('keydown', this.onKeyDown, this);
+            this.uiManager.destroy();
+        });
+
+        this.input.keyboard?.on('keydown', this.onKeyDown, this);
+    }
+
+    private onResize(gameSize: Phaser.Structs.Size): void {
+        this.overlay.setSize(gameSize.width, gameSize.height);
+    }
+
+    private getSlotKey(action: InputAction, slot: number): string {
+        return `${action}Slot${slot}`;
+    }
+
+    private startListening(action: InputAction, slot: number): void {
+        // Fill slots in order, a second key can't be added before the first
+        const keyCount = this.keyBindings[action].length;
+        this.listening = { action, slot: Math.min(slot, keyCount) };
+
+        this.refreshBindings();
+        this.showStatus(`Press a key for ${ACTION_LABELS[action]} (Esc to cancel, Backspace to clear)`);
+    }
+
+    private onKeyDown(event: KeyboardEvent): void {
+        if (event.repeat) return;
+
+        if (!this.listening) {
+            if (event.keyCode === KeyCodes.ESC) {
+                this.close();
+            }
+            return;
+        }
+
+        const { action, slot } = this.listening;
+        this.listening = null;
+
+        if (event.keyCode === KeyCodes.ESC) {
+            this.refreshBindings();
+            this.showStatus('Cancelled');
+            return;
+        }
+
+        if (event.keyCode === KeyCodes.BACKSPACE) {
+            this.clearSlot(action, slot);
+            return;
+        }
+
+        this.assignKey(action, slot, event.keyCode);
+    }
+
+    private assignKey(action: InputAction, slot: number, keyCode: number): void {
+        const keys = this.keyBindings[action];
+        const keyName = getKeyName(keyCode);
+
+        const conflict = findKeyConflict(this.keyBindings, action, keyCode);
+        if (conflict) {
+            this.refreshBindings();
+            this.showStatus(`${keyName} is already used by ${ACTION_LABELS[conflict]}`, true);
+            return;
+        }
+
+        if (keys.includes(keyCode) && keys[slot] !== keyCode) {
+            this.refreshBindings();
+            this.showStatus(`${keyName} is already bound to ${ACTION_LABELS[action]}`, true);
+            return;
+        }
+
+        keys[slot] = keyCode;
+        this.saveBindings();
+        this.showStatus(`${ACTION_LABELS[action]} bound to ${keyName}`);
+    }
+
+    private clearSlot(action: InputAction, slot: number): void {
+        const keys = this.keyBindings[action];
+
+        if (slot >= keys.length) {
+            this.refreshBindings();
+            return;
+        }
+
+        // Every action must stay reachable from the keyboard
+        if (keys.length <= 1) {
+            this.refreshBindings();
+            this.showStatus(`${ACTION_LABELS[action]} needs at least one key`, true);
+            return;
+        }
+
+        keys.splice(slot, 1);
+        this.saveBindings();
+        this.showStatus(`Cleared key for ${ACTION_LABELS[action]}`);
+    }
+
+    private applyPreset(presetId: string): void {
+        const preset = KEY_BINDING_PRESETS[presetId];
+        if (!preset) return;
+
+        this.listening = null;
+        this.keyBindings = cloneKeyBindings(preset.bindings);
+        this.saveBindings();
+        this.showStatus(`Applied ${preset.name} layout`);
+    }
+
+    private saveBindings(): void {
+        this.saveManager.setKeyBindings(this.keyBindings);
+        this.refreshBindings();
+    }
+
+    private refreshBindings(): void {
+        Object.values(InputAction).forEach(action => {
+            for (let slot = 0; slot < MAX_KEYS_PER_ACTION; slot++) {
+                const keyCode = this.keyBindings[action][slot];
+                const isListening = this.listening?.action === action && this.listening.slot === slot;
+
+                let text = keyCode !== undefined ? `[ ${getKeyName(keyCode)} ]` : '[ — ]';
+                if (isListening) {
+                    text = '[ ... ]';
+                }
+                this.uiManager.setButtonText(this.getSlotKey(action, slot), text);
+            }
+        });
+    }
+
+    private showStatus(message: string, isWarning: boolean = false): void {
+        this.uiManager.updateElement('status', {
+            type: 'text',
+            text: message
+        });
+
+        const status = this.uiManager.getElement('status') as Phaser.GameObjects.Text | undefined;
+        status?.setColor(isWarning ? WARNING_COLOR : STATUS_COLOR);
+    }
+
+    private close(): void {
+        this.scene.stop();
+        if (this.returnTo) {
+            this.scene.wake(this.returnTo);
+        }
+    }
+}
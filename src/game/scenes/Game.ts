@@ -1,20 +1,54 @@
 import { Scene } from 'phaser';
-import { Player } from '../sprites/Player';
+import { Player, PlayerDamageType } from '../sprites/Player';
 import { StaticHazard } from '../sprites/StaticHazard';
 import { Goal } from '../sprites/Goal';
 import { Collectible } from '../sprites/Collectible';
 import { Enemy } from '../sprites/Enemy';
+import { EnemyProjectile } from '../sprites/EnemyProjectile';
+import { Boss } from '../sprites/Boss';
+import { BossArena } from '../sprites/BossArena';
+import { Spawner } from '../sprites/Spawner';
 import { Bullet } from '../sprites/Bullet';
 import { Trigger } from '../sprites/Trigger';
 import { Obstacle } from '../sprites/Obstacle';
+import { Checkpoint } from '../sprites/Checkpoint';
+import { Door } from '../sprites/Door';
+import { Switch, SwitchKind } from '../sprites/Switch';
+import { Spring } from '../sprites/Spring';
+import { SurfaceBlock, SurfaceBlockKind } from '../sprites/SurfaceBlock';
+import { MovingPlatform } from '../sprites/MovingPlatform';
+import { TimedPlatform, TimedPlatformKind } from '../sprites/TimedPlatform';
+import { Climbable } from '../sprites/Climbable';
 import { HealthUI } from '../ui/HealthUI';
-import { CollectedItemsManager } from '../managers/CollectedItemsManager';
+import { DialogBox } from '../ui/DialogBox';
+import { BossHealthBar } from '../ui/BossHealthBar';
+import { PowerUpUI } from '../ui/PowerUpUI';
+import { CollectedItemsManager, CollectedItemsSnapshot } from '../managers/CollectedItemsManager';
 import { GameObjectManager } from '../managers/GameObjectManager';
+import { FlagManager } from '../managers/FlagManager';
+import { PowerUpManager } from '../managers/PowerUpManager';
 import { UUIDGenerator } from '../utils/UUIDGenerator';
 import { eventBus, GameEvent } from '../events/EventBus';
 import { DeviceDetector } from '../utils/DeviceDetector';
 import { FullscreenManager } from '../managers/FullscreenManager';
 import { MobileControls } from '../ui/MobileControls';
+import { InputManager, InputState } from '../managers/InputManager';
+import { LevelManager } from '../managers/LevelManager';
+import { SaveManager, LevelRecordUpdate } from '../managers/SaveManager';
+import { ReplayManager, ReplayData, ReplayRecorder, ReplayPlayer } from '../managers/ReplayManager';
+import { GhostManager, GhostRecorder } from '../managers/GhostManager';
+import { Ghost } from '../sprites/Ghost';
+import { TimeFormatter } from '../utils/TimeFormatter';
+import { StarRating, LevelRatingConfig, MAX_STARS } from '../utils/StarRating';
+import { TileCollision, SurfaceProperties, DEFAULT_SURFACE } from '../utils/TileCollision';
+
+/**
+ * Data passed when starting the Game scene
+ */
+export interface GameSceneData {
+    levelId?: string;   // Level to play, defaults to the next level the player should continue with
+    replay?: ReplayData; // Play back a recorded run instead of taking live input
+}
 
 export class Game extends Scene
 {
@@ -29,26 +63,99 @@ export class Game extends Scene
     goals: Phaser.Physics.Arcade.StaticGroup;
     collectibles: Phaser.Physics.Arcade.StaticGroup;
     enemies: Phaser.Physics.Arcade.Group;
+    enemyProjectiles: Phaser.Physics.Arcade.Group;
     triggers: Trigger[];
     obstacles: Phaser.Physics.Arcade.StaticGroup;
     movableObstacles: Phaser.Physics.Arcade.Group;
-    restartKey: Phaser.Input.Keyboard.Key;
+    checkpoints: Phaser.Physics.Arcade.StaticGroup;
+    doors: Phaser.Physics.Arcade.StaticGroup;
+    switches: Phaser.Physics.Arcade.StaticGroup;
+    springs: Phaser.Physics.Arcade.StaticGroup;
+    surfaceBlocks: Phaser.Physics.Arcade.StaticGroup;
+    platforms: Phaser.Physics.Arcade.StaticGroup;
+    timedPlatforms: Phaser.Physics.Arcade.StaticGroup;
+    spawners: Spawner[] = [];
+    climbables: Climbable[] = [];
+    activeCheckpoint: Checkpoint | null = null;
+    respawnPoint: { x: number; y: number } = { x: 0, y: 0 };
+    // Tiled definitions of objects that can be restored when respawning at a checkpoint
+    resettableObjects: Map<string, Phaser.Types.Tilemaps.TiledObject> = new Map();
+    checkpointSnapshot: { items: CollectedItemsSnapshot; aliveUUIDs: Set<string> } | null = null;
+    // Tiled definitions of objects that only appear when a trigger spawns them
+    spawnTemplates: Map<string, Phaser.Types.Tilemaps.TiledObject> = new Map();
     isVictory: boolean = false;
+    // "goal" (reach a Goal) or "boss" (defeating every boss also wins the level)
+    victoryCondition: string = 'goal';
+    activeBoss: Boss | null = null;
     healthUI: HealthUI;
+    bossHealthBar: BossHealthBar;
+    powerUpManager: PowerUpManager | null = null;
+    powerUpUI: PowerUpUI;
     scoreText: Phaser.GameObjects.Text;
+    livesText: Phaser.GameObjects.Text;
+    timerText: Phaser.GameObjects.Text;
+    weaponText: Phaser.GameObjects.Text;
+    dialogBox: DialogBox;
     collectedItemsManager: CollectedItemsManager;
     gameObjectManager: GameObjectManager;
     mobileControls: MobileControls | null = null;
+    inputManager: InputManager;
+    levelManager: LevelManager;
+    levelId: string;
+    levelTime: number = 0;
+    recordUpdate: LevelRecordUpdate | null = null;
+    ratingConfig: LevelRatingConfig;
+    stars: number = 0;
+    // Deterministic simulation: seeded RNG plus recorded frame deltas
+    seed: string;
+    simulationTime: number = 0;
+    frameDelta: number = 0;
+    replayRecorder: ReplayRecorder | null = null;
+    replayPlayer: ReplayPlayer | null = null;
+    replayEnded: boolean = false;
+    // Ghost racing against the best run of this level
+    ghost: Ghost | null = null;
+    ghostRecorder: GhostRecorder | null = null;
 
     constructor ()
     {
         super('Game');
         this.collectedItemsManager = new CollectedItemsManager();
         this.gameObjectManager = GameObjectManager.getInstance();
+        this.levelManager = LevelManager.getInstance();
+    }
+
+    init (data: GameSceneData)
+    {
+        // A replay always runs on its own level and seed
+        const replay = data?.replay;
+        if (replay) {
+            this.replayPlayer = new ReplayPlayer(replay);
+            this.seed = replay.seed;
+        } else {
+            this.seed = ReplayManager.createSeed();
+        }
+        
+        // Resolve which level to play
+        let levelId = replay?.levelId ?? data?.levelId ?? this.levelManager.getDefaultLevelId();
+        if (!levelId || !this.levelManager.hasLevel(levelId)) {
+            console.warn(`[Game] Unknown level "${levelId}", falling back to first level`);
+            levelId = this.levelManager.getFirstLevelId();
+        }
+
+        this.levelId = levelId ?? '';
+        this.levelManager.setCurrentLevel(this.levelId);
+        
+        if (!this.replayPlayer) {
+            this.replayRecorder = new ReplayRecorder(this.levelId, this.seed);
+        }
     }
 
     create ()
     {
+        // Seed the RNG and fix the frame timing before anything is created, so runs can be replayed
+        this.setupDeterministicSimulation();
+        
         // Enable EventBus debugger in development mode
         // Disabled to reduce console noise
         // if (import.meta.env.DEV) {
@@ -63,17 +170,24 @@ export class Game extends Scene
         // Emit game start event
         eventBus.emit(GameEvent.GAME_START);
         
+        // Emit level start event
+        eventBus.emit(GameEvent.LEVEL_START, {
+            levelId: this.levelId,
+            name: this.levelManager.getLevel(this.levelId)?.name ?? this.levelId
+        });
+        
         // Reset collected items manager for new game
         this.collectedItemsManager.reset();
         
         // Clear game object manager for new game
         this.gameObjectManager.clear();
+        FlagManager.getInstance().clear();
         
         this.camera = this.cameras.main;
         this.camera.setBackgroundColor(0x87CEEB);
 
         // Create the tilemap
-        this.map = this.make.tilemap({ key: 'tilemap' });
+        this.map = this.make.tilemap({ key: this.levelManager.getTilemapKey(this.levelId) });
 
         // Load tilesets from tilemap config.
         this.tilesets = [];
@@ -91,23 +205,39 @@ export class Game extends Scene
             if (layer) {
                 this.layers.push(layer);
                 layer.setCollisionByProperty({ collides: true });
+                // One-way platforms and slopes from the tile properties
+                TileCollision.setupLayer(layer);
             }
         })
 
+        // Par time and star thresholds from the map properties
+        this.ratingConfig = StarRating.fromMapProperties(this.map.properties);
+        
+        const mapProperties = Array.isArray(this.map.properties) ? this.map.properties as any[] : [];
+        this.victoryCondition = mapProperties.find(prop => prop.name === 'victory_condition')?.value ?? 'goal';
+
+        // Ghost goes above the tiles but below every level object
+        this.createGhost();
+
         this.createObjectsFromTilemap()
 
         // Create collides events
         this.createOverleapEvents();
         
-        // Setup restart key (R key)
-        this.restartKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.R);
+        // Slopes are resolved after every physics step
+        this.physics.world.on(Phaser.Physics.Arcade.Events.WORLD_STEP, this.resolveSlopes, this);
         
         // Create health UI
         this.healthUI = new HealthUI(this, 50, 50);
         if (this.player) {
+            this.healthUI.setMaxHealth(this.player.getMaxHealth());
             this.healthUI.updateHealth(this.player.getHealth());
+            this.powerUpManager = new PowerUpManager(this.player);
         }
         
+        // Boss health bar, shown next to the hearts during boss fights
+        this.bossHealthBar = new BossHealthBar(this, this.healthUI.getRight() + 40, 50);
+        
         // Create score UI
         this.scoreText = this.add.text(50, 100, 'Score: 0', {
             fontSize: '24px',
@@ -118,20 +248,302 @@ export class Game extends Scene
         this.scoreText.setScrollFactor(0);
         this.scoreText.setDepth(1000);
         
+        // Create lives UI
+        this.livesText = this.add.text(50, 140, '', {
+            fontSize: '24px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 4
+        });
+        this.livesText.setScrollFactor(0);
+        this.livesText.setDepth(1000);
+        this.updateLivesDisplay();
+        
+        // Create level timer UI
+        this.timerText = this.add.text(50, 180, '', {
+            fontSize: '24px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 4
+        });
+        this.timerText.setScrollFactor(0);
+        this.timerText.setDepth(1000);
+        this.updateTimerDisplay();
+        
+        // Current weapon and its ammo
+        this.weaponText = this.add.text(50, 220, '', {
+            fontSize: '24px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 4
+        });
+        this.weaponText.setScrollFactor(0);
+        this.weaponText.setDepth(1000);
+        this.updateWeaponDisplay();
+        
+        // Active power-ups, below the weapon
+        this.powerUpUI = new PowerUpUI(this, 50, 260);
+        
+        // Dialog text shown by triggers
+        this.dialogBox = new DialogBox(this);
+        
+        // Capture the trajectory of live runs for the ghost of the next attempt
+        if (this.player && !this.replayPlayer) {
+            this.ghostRecorder = new GhostRecorder(this.levelId, this.player.getAtlasKey(), this.player.scaleX, this.player.scaleY);
+        }
+        
         // Add fullscreen button for mobile devices
         if (DeviceDetector.isMobile() && DeviceDetector.isFullscreenSupported()) {
             FullscreenManager.getInstance().createFullscreenButton(this);
         }
         
+        // Unified input for keyboard, gamepad and touch
+        this.inputManager = new InputManager(this, SaveManager.getInstance().getKeyBindings());
+        this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+            this.inputManager.destroy();
+        });
+        
+        // Bindings may have been changed from the pause menu settings
+        this.events.on(Phaser.Scenes.Events.RESUME, () => {
+            this.inputManager.setKeyBindings(SaveManager.getInstance().getKeyBindings());
+        });
+        
         // Create mobile controls for mobile devices
         if (DeviceDetector.isMobile()) {
             this.mobileControls = new MobileControls(this);
-            
-            // Pass mobile controls to player
-            if (this.player) {
-                this.player.setMobileControls(this.mobileControls);
+            this.inputManager.setMobileControls(this.mobileControls);
+        }
+
+        // Show level name
+        this.showLevelTitle();
+        
+        if (this.replayPlayer) {
+            this.showReplayBanner();
+        }
+    }
+
+    private createGhost() {
+        if (this.replayPlayer || !SaveManager.getInstance().getGameplaySettings().showGhost) {
+            return;
+        }
+        
+        const run = GhostManager.getInstance().getGhost(this.levelId);
+        if (!run || run.samples.length === 0 || !this.textures.exists(run.atlasKey)) {
+            return;
+        }
+        
+        this.ghost = new Ghost(this, run);
+    }
+
+    /**
+     * Make the simulation reproducible from a seed and a list of frame deltas.
+     * The scene step is fed the recorded delta on playback, and tweens (which
+     * normally follow the wall clock) advance by the same simulated delta.
+     */
+    private setupDeterministicSimulation() {
+        Phaser.Math.RND.sow([this.seed]);
+        
+        // sys.step hands the frame time to every scene system (physics, timers, the scene
+        // update). Wrapping it is the one place a replay can swap in its recorded delta, with
+        // simulationTime standing in for the wall-clock time.
+        const systems = this.sys;
+        const step = systems.step;
+        systems.step = (_time: number, delta: number) => {
+            this.frameDelta = this.replayPlayer?.peekDelta() ?? delta;
+            this.simulationTime += this.frameDelta;
+            this.stepTweens(this.frameDelta);
+            step.call(systems, this.simulationTime, this.frameDelta);
+        };
+        
+        // The tween manager measures its own delta with Date.now(), so it stays paused
+        // and the tweens are stepped above instead
+        this.tweens.pauseAll();
+    }
+    
+    /**
+     * Advance every tween by the simulated frame delta, cleaning up finished ones
+     * the way the tween manager does
+     */
+    private stepTweens(delta: number) {
+        this.tweens.getTweens().forEach(tween => {
+            if (tween.update(delta) && (tween.isPendingRemove() || tween.isDestroyed())) {
+                this.tweens.remove(tween);
+                tween.destroy();
             }
+        });
+    }
+
+    private showReplayBanner() {
+        const banner = this.add.text(this.cameras.main.width / 2, 30, '▶ REPLAY', {
+            fontFamily: 'Arial Black',
+            fontSize: '28px',
+            color: '#ff4444',
+            stroke: '#000000',
+            strokeThickness: 5
+        });
+        banner.setOrigin(0.5, 0);
+        banner.setScrollFactor(0);
+        banner.setDepth(1000);
+        
+        this.tweens.add({
+            targets: banner,
+            alpha: 0.4,
+            duration: 600,
+            yoyo: true,
+            repeat: -1
+        });
+    }
+
+    /**
+     * The replay ran out of frames without reaching the goal
+     */
+    private endReplay() {
+        this.replayEnded = true;
+        this.physics.world.pause();
+        
+        const endText = this.add.text(this.cameras.main.width / 2, this.cameras.main.height / 2, 'Replay ended', {
+            fontFamily: 'Arial Black',
+            fontSize: '40px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 6
+        });
+        endText.setOrigin(0.5);
+        endText.setScrollFactor(0);
+        endText.setDepth(1000);
+        
+        this.time.delayedCall(2000, () => {
+            this.scene.start('MainMenu');
+            this.scene.remove('Game');
+        });
+    }
+
+    private showLevelTitle() {
+        const level = this.levelManager.getLevel(this.levelId);
+        if (!level) return;
+
+        const levelNumber = this.levelManager.getLevelIndex(this.levelId) + 1;
+        const titleText = this.add.text(this.cameras.main.width / 2, this.cameras.main.height / 3,
+            `Level ${levelNumber}\n${level.name}`, {
+            fontFamily: 'Arial Black',
+            fontSize: '40px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 6,
+            align: 'center'
+        });
+        titleText.setOrigin(0.5);
+        titleText.setScrollFactor(0);
+        titleText.setDepth(1000);
+
+        // Fade out title after a short delay
+        this.tweens.add({
+            targets: titleText,
+            alpha: 0,
+            duration: 800,
+            delay: 1500,
+            onComplete: () => titleText.destroy()
+        });
+    }
+
+    /**
+     * Freeze the level and open the pause overlay
+     */
+    pauseGame() {
+        if (this.isVictory || !this.scene.isActive()) return;
+        
+        eventBus.emit(GameEvent.GAME_PAUSE);
+        eventBus.emit(GameEvent.SCENE_PAUSE, {
+            scene: 'Game'
+        });
+        
+        // Duck the music while paused
+        eventBus.emit(GameEvent.BGM_PAUSE);
+        
+        // Pausing the scene stops its physics world, tweens and timers
+        this.scene.pause();
+        this.scene.launch('Pause', { levelId: this.levelId });
+    }
+
+    private updateTimerDisplay() {
+        const parTime = this.ratingConfig.parTime;
+        if (parTime === null) {
+            this.timerText.setText(`⏱ ${TimeFormatter.format(this.levelTime)}`);
+            return;
         }
+        
+        this.timerText.setText(`⏱ ${TimeFormatter.format(this.levelTime)} / Par ${TimeFormatter.format(parTime)}`);
+        this.timerText.setColor(this.levelTime > parTime ? '#ff6b6b' : '#ffffff');
+    }
+
+    /**
+     * Stars earned by the run that just reached the goal (0 if the level has no rating)
+     */
+    private evaluateStars(): number {
+        if (!StarRating.hasRating(this.ratingConfig)) {
+            return 0;
+        }
+        
+        return StarRating.evaluate(this.ratingConfig, {
+            time: this.levelTime,
+            score: this.collectedItemsManager.getTotalScore(),
+            collectedItems: this.collectedItemsManager.getAllCollectedItems()
+                .filter(item => item.count > 0)
+                .map(item => item.name)
+        });
+    }
+
+    /**
+     * Data handed to the Victory scene: collected items plus campaign progress
+     */
+    private getVictoryData() {
+        return {
+            ...this.collectedItemsManager.getSummaryData(),
+            levelId: this.levelId,
+            levelName: this.levelManager.getLevel(this.levelId)?.name,
+            nextLevelId: this.levelManager.getNextLevelId(this.levelId),
+            time: this.levelTime,
+            isNewBestScore: this.recordUpdate?.isNewBestScore ?? false,
+            isNewBestTime: this.recordUpdate?.isNewBestTime ?? false,
+            isNewBestStars: this.recordUpdate?.isNewBestStars ?? false,
+            parTime: this.ratingConfig.parTime,
+            stars: this.stars,
+            maxStars: StarRating.hasRating(this.ratingConfig) ? MAX_STARS : 0,
+            isReplay: this.replayPlayer !== null
+        };
+    }
+
+    /**
+     * Mark the current level completed and let the rest of the game know
+     */
+    private completeLevel() {
+        this.stars = this.evaluateStars();
+        
+        // Watching a replay doesn't count as progress
+        if (this.replayPlayer) {
+            ReplayManager.getInstance().setLastReplay(this.replayPlayer.getReplay());
+            return;
+        }
+        
+        this.levelManager.markCompleted(this.levelId);
+        
+        if (this.ghostRecorder) {
+            GhostManager.getInstance().submitRun(this.ghostRecorder.finish(this.levelTime));
+            this.ghostRecorder = null;
+        }
+        
+        // Persist records for this level
+        this.recordUpdate = SaveManager.getInstance().recordLevelResult(this.levelId, {
+            score: this.collectedItemsManager.getTotalScore(),
+            time: this.levelTime,
+            stars: this.stars,
+            collectedMustCollect: this.collectedItemsManager.getCollectedRequiredItems()
+        });
+        
+        eventBus.emit(GameEvent.LEVEL_COMPLETE, {
+            levelId: this.levelId,
+            nextLevelId: this.levelManager.getNextLevelId(this.levelId)
+        });
     }
 
     private createObjectsFromTilemap() {
@@ -143,6 +555,8 @@ export class Game extends Scene
             objectLayer?.objects.forEach((obj: Phaser.Types.Tilemaps.TiledObject) => {
                 if (obj.type === 'trigger') {
                     triggers.push(obj);
+                } else if (this.isSpawnTemplate(obj)) {
+                    this.createSpawnTemplate(obj);
                 } else {
                     this.createObject(obj);
                 }
@@ -155,10 +569,108 @@ export class Game extends Scene
         });
     }
 
+    private isSpawnTemplate(obj: Phaser.Types.Tilemaps.TiledObject): boolean {
+        const properties = obj.properties as any[];
+        return properties?.some(prop => prop.name === 'spawn_on_trigger' && prop.value === true) ?? false;
+    }
+
+    /**
+     * Objects marked spawn_on_trigger are created once and disabled, so their
+     * groups and colliders exist when a trigger spawns a copy later on
+     */
+    private createSpawnTemplate(obj: Phaser.Types.Tilemaps.TiledObject) {
+        const uuid = (obj.properties as any[]).find(prop => prop.name === 'uuid')?.value;
+        if (!uuid) {
+            console.warn(`[Game] Spawn template "${obj.name}" has no uuid and can't be spawned`);
+            return;
+        }
+        if (obj.type === 'player' || obj.type === 'trigger') {
+            console.warn(`[Game] Objects of type ${obj.type} can't be spawned`);
+            return;
+        }
+        
+        this.createObject(obj);
+        this.spawnTemplates.set(uuid, obj);
+        
+        const entry = this.gameObjectManager.getObjectByUUID(uuid);
+        if (entry) {
+            const template = entry.object as any;
+            template.setActive(false);
+            template.setVisible?.(false);
+            if (template.body) {
+                template.body.enable = false;
+            }
+            this.gameObjectManager.unregisterObject(uuid);
+        }
+        
+        // The disabled template is never restored at checkpoints
+        this.resettableObjects.delete(uuid);
+    }
+
+    /**
+     * Create a new copy of a spawn template, called by triggers.
+     * The copy takes over the template's UUID so later actions can target it.
+     * @param x Optional Tiled x coordinate, defaults to the template position
+     * @param y Optional Tiled y coordinate, defaults to the template position
+     */
+    spawnObject(uuid: string, x?: number, y?: number) {
+        const template = this.spawnTemplates.get(uuid);
+        if (!template) {
+            console.warn(`[Game] No spawn template with UUID ${uuid}`);
+            return;
+        }
+        
+        this.createFromTemplate({
+            ...template,
+            x: x ?? template.x,
+            y: y ?? template.y
+        }, uuid);
+    }
+    
+    /**
+     * Create a copy of a spawn template under its own UUID, called by spawners
+     * @param x Tiled x coordinate
+     * @param y Tiled y coordinate
+     * @returns The created object, or null if there is no such template
+     */
+    spawnObjectAs(templateUUID: string, uuid: string, x: number, y: number): Phaser.GameObjects.GameObject | null {
+        const template = this.spawnTemplates.get(templateUUID);
+        if (!template) {
+            console.warn(`[Game] No spawn template with UUID ${templateUUID}`);
+            return null;
+        }
+        
+        const properties = ((template.properties as any[]) || []).filter(prop => prop.name !== 'uuid');
+        properties.push({ name: 'uuid', type: 'string', value: uuid });
+        
+        return this.createFromTemplate({ ...template, x, y, properties }, uuid);
+    }
+    
+    private createFromTemplate(obj: Phaser.Types.Tilemaps.TiledObject, uuid: string): Phaser.GameObjects.GameObject | null {
+        this.createObject(obj);
+        
+        const spawned = this.gameObjectManager.getObjectByUUID(uuid)?.object ?? null;
+        if (spawned instanceof Enemy) {
+            eventBus.emit(GameEvent.ENEMY_SPAWN, {
+                enemy: spawned,
+                position: { x: spawned.x, y: spawned.y }
+            });
+        }
+        return spawned;
+    }
+    
+    /**
+     * Show a dialog text at the bottom of the screen, called by triggers
+     */
+    showDialog(text: string, duration: number = 3000) {
+        this.dialogBox.show(text, duration);
+    }
+
     private createObject(obj: Phaser.Types.Tilemaps.TiledObject) {
         console.log("create object", obj)
-        // Extract UUID from properties array, or generate one if not present
-        let uuid = UUIDGenerator.generate();
+        // Extract UUID from properties array. Without one the Tiled object id is used, so an
+        // object recreated from a checkpoint snapshot gets the UUID it was recorded under.
+        let uuid = obj.id !== undefined ? `tiled-${obj.id}` : UUIDGenerator.generate();
         const properties = obj.properties as any[];
         if (properties) {
             const uuidProp = properties.find(prop => prop.name === 'uuid');
@@ -178,17 +690,63 @@ export class Game extends Scene
                 this.createGoalFromTilemap(obj, uuid);
                 return
             case "collectible":
+                this.resettableObjects.set(uuid, obj);
                 this.createCollectibleFromTilemap(obj, uuid);
                 return
             case "enemy":
                 this.createEnemyFromTilemap(obj, uuid);
                 return
+            case "boss":
+                this.createEnemyFromTilemap(obj, uuid, true);
+                return
+            case "arena":
+                this.createArenaFromTilemap(obj, uuid);
+                return
+            case "spawner":
+            case "wave":
+                this.createSpawnerFromTilemap(obj, uuid, obj.type === "wave");
+                return
             case "trigger":
                 this.createTriggerFromTilemap(obj, uuid);
                 return
             case "obstacle":
+                this.resettableObjects.set(uuid, obj);
                 this.createObstacleFromTilemap(obj, uuid);
                 return
+            case "checkpoint":
+                this.createCheckpointFromTilemap(obj, uuid);
+                return
+            case "door":
+                this.createDoorFromTilemap(obj, uuid);
+                return
+            case "lever":
+            case "button":
+            case "pressure_plate":
+                this.createSwitchFromTilemap(obj, uuid, obj.type as SwitchKind);
+                return
+            case "spring":
+                this.createSpringFromTilemap(obj, uuid);
+                return
+            case "conveyor":
+            case "ice":
+                this.createSurfaceBlockFromTilemap(obj, uuid, obj.type as SurfaceBlockKind);
+                return
+            case "ladder":
+            case "vine":
+            case "climbable":
+                this.createClimbableFromTilemap(obj, uuid);
+                return
+            case "crumbling_platform":
+            case "falling_platform":
+            case "blink_platform":
+                this.createTimedPlatformFromTilemap(obj, uuid, obj.type.replace('_platform', '') as TimedPlatformKind);
+                return
+            case "platform":
+                this.createPlatformFromTilemap(obj, uuid);
+                return
+            case "path":
+                // Paths are read by the platforms that follow them
+                return
             default:
                 console.log("unknown object type", obj.type);
         }
@@ -200,14 +758,15 @@ export class Game extends Scene
             return;
         }
         // Create player
-        this.player = new Player(this, playerObject);
+        this.player = new Player(this, playerObject, this);
+        this.respawnPoint = { x: this.player.x, y: this.player.y };
         
         // Register player with UUID
         this.gameObjectManager.registerObject(uuid, this.player, 'player', playerObject.name);
 
         // Set up collides between player and tilemap layers
         this.layers.forEach(layer => {
-            this.physics.add.collider(this.player, layer);
+            this.physics.add.collider(this.player, layer, undefined, TileCollision.processTileCollision);
         });
 
         // Set camera bounds to match the tilemap
@@ -262,32 +821,51 @@ export class Game extends Scene
         }
     }
     
-    private createEnemyFromTilemap(enemyObject: Phaser.Types.Tilemaps.TiledObject, uuid: string) {
+    private createEnemyFromTilemap(enemyObject: Phaser.Types.Tilemaps.TiledObject, uuid: string, isBoss: boolean = false) {
         if (!this.enemies) {
             this.enemies = this.physics.add.group({
                 classType: Enemy,
                 runChildUpdate: true
             });
+            this.enemyProjectiles = this.physics.add.group({
+                classType: EnemyProjectile,
+                runChildUpdate: true
+            });
         }
         
-        const enemy = new Enemy(this, enemyObject);
+        const enemy = isBoss ? new Boss(this, enemyObject, this) : new Enemy(this, enemyObject);
         this.enemies.add(enemy);
         
         // Register enemy with UUID
-        this.gameObjectManager.registerObject(uuid, enemy, 'enemy', enemyObject.name);
+        this.gameObjectManager.registerObject(uuid, enemy, isBoss ? 'boss' : 'enemy', enemyObject.name);
         
         // Set up collides with tilemap layers
         this.layers.forEach(layer => {
-            this.physics.add.collider(enemy, layer);
+            this.physics.add.collider(enemy, layer, undefined, TileCollision.processTileCollision);
         });
     }
     
+    private createArenaFromTilemap(arenaObject: Phaser.Types.Tilemaps.TiledObject, uuid: string) {
+        const arena = new BossArena(this, arenaObject);
+        
+        // Register arena with UUID so bosses can find it
+        this.gameObjectManager.registerObject(uuid, arena, 'arena', arenaObject.name);
+    }
+    
+    private createSpawnerFromTilemap(spawnerObject: Phaser.Types.Tilemaps.TiledObject, uuid: string, isWave: boolean) {
+        const spawner = new Spawner(this, spawnerObject, isWave, this);
+        this.spawners.push(spawner);
+        
+        // Register spawner with UUID, spawned enemies are named after it
+        this.gameObjectManager.registerObject(uuid, spawner, isWave ? 'wave' : 'spawner', spawnerObject.name);
+    }
+    
     private createTriggerFromTilemap(triggerObject: Phaser.Types.Tilemaps.TiledObject, uuid: string) {
         if (!this.triggers) {
             this.triggers = [];
         }
         
-        const trigger = new Trigger(this, triggerObject);
+        const trigger = new Trigger(this, triggerObject, this);
         this.triggers.push(trigger);
         
         // Register trigger with UUID
@@ -308,7 +886,7 @@ export class Game extends Scene
             
             // Setup collisions with tilemap layers for movable obstacles
             this.layers.forEach(layer => {
-                this.physics.add.collider(obstacle, layer);
+                this.physics.add.collider(obstacle, layer, undefined, TileCollision.processTileCollision);
             });
         } else {
             if (!this.obstacles) {
@@ -321,6 +899,116 @@ export class Game extends Scene
         this.gameObjectManager.registerObject(uuid, obstacle, 'obstacle', obstacleObject.name);
     }
 
+    private createCheckpointFromTilemap(checkpointObject: Phaser.Types.Tilemaps.TiledObject, uuid: string) {
+        if (!this.checkpoints) {
+            this.checkpoints = this.physics.add.staticGroup();
+        }
+        
+        const checkpoint = new Checkpoint(this, checkpointObject);
+        this.checkpoints.add(checkpoint);
+        
+        // Register checkpoint with UUID
+        this.gameObjectManager.registerObject(uuid, checkpoint, 'checkpoint', checkpointObject.name);
+    }
+
+    private createDoorFromTilemap(doorObject: Phaser.Types.Tilemaps.TiledObject, uuid: string) {
+        if (!this.doors) {
+            this.doors = this.physics.add.staticGroup();
+        }
+        
+        const door = new Door(this, doorObject);
+        this.doors.add(door);
+        
+        // Register door with UUID so triggers can open it
+        this.gameObjectManager.registerObject(uuid, door, 'door', doorObject.name);
+    }
+
+    private createSwitchFromTilemap(switchObject: Phaser.Types.Tilemaps.TiledObject, uuid: string, kind: SwitchKind) {
+        if (!this.switches) {
+            this.switches = this.physics.add.staticGroup();
+        }
+        
+        const switchInstance = new Switch(this, switchObject, kind);
+        this.switches.add(switchInstance);
+        
+        // Register switch with UUID
+        this.gameObjectManager.registerObject(uuid, switchInstance, kind, switchObject.name);
+    }
+
+    private createSpringFromTilemap(springObject: Phaser.Types.Tilemaps.TiledObject, uuid: string) {
+        if (!this.springs) {
+            this.springs = this.physics.add.staticGroup();
+        }
+        
+        const spring = new Spring(this, springObject);
+        this.springs.add(spring);
+        
+        // Register spring with UUID
+        this.gameObjectManager.registerObject(uuid, spring, 'spring', springObject.name);
+    }
+
+    private createSurfaceBlockFromTilemap(blockObject: Phaser.Types.Tilemaps.TiledObject, uuid: string, kind: SurfaceBlockKind) {
+        if (!this.surfaceBlocks) {
+            this.surfaceBlocks = this.physics.add.staticGroup();
+        }
+        
+        const block = new SurfaceBlock(this, blockObject, kind);
+        this.surfaceBlocks.add(block);
+        
+        // Register conveyor / ice block with UUID
+        this.gameObjectManager.registerObject(uuid, block, kind, blockObject.name);
+    }
+
+    private createPlatformFromTilemap(platformObject: Phaser.Types.Tilemaps.TiledObject, uuid: string) {
+        if (!this.platforms) {
+            this.platforms = this.physics.add.staticGroup();
+        }
+        
+        const pathUUID = (platformObject.properties as any[])?.find(prop => prop.name === 'path_uuid')?.value;
+        const pathObject = pathUUID ? this.findTiledObjectByUUID(pathUUID) : undefined;
+        if (pathUUID && !pathObject) {
+            console.warn(`[Game] Path ${pathUUID} of platform "${platformObject.name}" not found`);
+        }
+        
+        const platform = new MovingPlatform(this, platformObject, pathObject);
+        this.platforms.add(platform);
+        
+        // Register platform with UUID
+        this.gameObjectManager.registerObject(uuid, platform, 'platform', platformObject.name);
+    }
+
+    private createClimbableFromTilemap(climbableObject: Phaser.Types.Tilemaps.TiledObject, uuid: string) {
+        const climbable = new Climbable(this, climbableObject);
+        this.climbables.push(climbable);
+        
+        // Register ladder / vine with UUID
+        this.gameObjectManager.registerObject(uuid, climbable, climbableObject.type, climbableObject.name);
+    }
+
+    private createTimedPlatformFromTilemap(platformObject: Phaser.Types.Tilemaps.TiledObject, uuid: string, kind: TimedPlatformKind) {
+        if (!this.timedPlatforms) {
+            this.timedPlatforms = this.physics.add.staticGroup();
+        }
+        
+        const platform = new TimedPlatform(this, platformObject, kind);
+        this.timedPlatforms.add(platform);
+        
+        // Register crumbling / falling / blink platform with UUID
+        this.gameObjectManager.registerObject(uuid, platform, platformObject.type, platformObject.name);
+    }
+    
+    private findTiledObjectByUUID(uuid: string): Phaser.Types.Tilemaps.TiledObject | undefined {
+        for (const objectLayer of this.map.objects) {
+            const found = objectLayer.objects.find(obj =>
+                (obj.properties as any[])?.some(prop => prop.name === 'uuid' && prop.value === uuid)
+            );
+            if (found) {
+                return found;
+            }
+        }
+        return undefined;
+    }
+
     private createOverleapEvents() {
         // Setup player vs hazards overlap detection
         if (this.player && this.hazards) {
@@ -344,6 +1032,17 @@ export class Game extends Scene
             );
         }
         
+        // Setup player vs checkpoints overlap detection
+        if (this.player && this.checkpoints) {
+            this.physics.add.overlap(
+                this.player,
+                this.checkpoints,
+                this.handlePlayerCheckpointCollision,
+                undefined,
+                this
+            );
+        }
+        
         // Setup player vs collectibles overlap detection
         if (this.player && this.collectibles) {
             this.physics.add.overlap(
@@ -384,6 +1083,81 @@ export class Game extends Scene
             this.physics.add.collider(this.player, this.obstacles);
         }
         
+        // Setup doors: solid until opened, the player opens locked ones by touching them
+        if (this.doors) {
+            if (this.player) {
+                this.physics.add.collider(this.player, this.doors,
+                    this.handlePlayerDoorCollision,
+                    undefined,
+                    this
+                );
+                this.physics.add.collider(this.player.getBullets(), this.doors);
+            }
+            if (this.movableObstacles) {
+                this.physics.add.collider(this.movableObstacles, this.doors);
+            }
+            if (this.enemies) {
+                this.physics.add.collider(this.enemies, this.doors);
+            }
+        }
+        
+        // Setup moving platforms collision (they carry whatever stands on them)
+        if (this.platforms) {
+            if (this.player) {
+                this.physics.add.collider(this.player, this.platforms);
+                this.physics.add.collider(this.player.getBullets(), this.platforms);
+            }
+            if (this.movableObstacles) {
+                this.physics.add.collider(this.movableObstacles, this.platforms);
+            }
+            if (this.enemies) {
+                this.physics.add.collider(this.enemies, this.platforms);
+            }
+        }
+        
+        // Setup crumbling, falling and blink platforms collision
+        if (this.timedPlatforms) {
+            if (this.player) {
+                this.physics.add.collider(this.player, this.timedPlatforms);
+                this.physics.add.collider(this.player.getBullets(), this.timedPlatforms);
+            }
+            if (this.movableObstacles) {
+                this.physics.add.collider(this.movableObstacles, this.timedPlatforms);
+            }
+            if (this.enemies) {
+                this.physics.add.collider(this.enemies, this.timedPlatforms);
+            }
+        }
+        
+        // Setup conveyor and ice blocks collision (solid like static obstacles)
+        if (this.surfaceBlocks) {
+            if (this.player) {
+                this.physics.add.collider(this.player, this.surfaceBlocks);
+                this.physics.add.collider(this.player.getBullets(), this.surfaceBlocks);
+            }
+            if (this.movableObstacles) {
+                this.physics.add.collider(this.movableObstacles, this.surfaceBlocks);
+            }
+            if (this.enemies) {
+                this.physics.add.collider(this.enemies, this.surfaceBlocks);
+            }
+        }
+        
+        // Setup springs: they launch the player, enemies and movable obstacles landing on them
+        if (this.springs) {
+            [this.player, this.enemies, this.movableObstacles].forEach(launchable => {
+                if (launchable) {
+                    this.physics.add.overlap(
+                        launchable,
+                        this.springs,
+                        this.handleSpringCollision,
+                        undefined,
+                        this
+                    );
+                }
+            });
+        }
+        
         // Setup player vs movable obstacles collision with custom handling
         if (this.player && this.movableObstacles) {
             this.physics.add.collider(this.player, this.movableObstacles, 
@@ -404,6 +1178,17 @@ export class Game extends Scene
             );
         }
         
+        // Setup bullets vs switches overlap detection (buttons are shot)
+        if (this.player && this.switches) {
+            this.physics.add.overlap(
+                this.player.getBullets(),
+                this.switches,
+                this.handleBulletSwitchCollision,
+                undefined,
+                this
+            );
+        }
+        
         // Setup bullets vs tilemap collision
         if (this.player) {
             this.layers.forEach(layer => {
@@ -436,6 +1221,55 @@ export class Game extends Scene
             }
         }
         
+        // Setup enemy projectiles: they hurt the player, break on terrain and can be shot down
+        if (this.enemyProjectiles) {
+            if (this.player) {
+                this.physics.add.overlap(
+                    this.player,
+                    this.enemyProjectiles,
+                    this.handlePlayerEnemyProjectileCollision,
+                    undefined,
+                    this
+                );
+                this.physics.add.overlap(
+                    this.player.getBullets(),
+                    this.enemyProjectiles,
+                    this.handleBulletEnemyProjectileCollision,
+                    undefined,
+                    this
+                );
+            }
+            
+            this.layers.forEach(layer => {
+                this.physics.add.collider(this.enemyProjectiles, layer,
+                    this.handleEnemyProjectileTerrainCollision,
+                    TileCollision.processTileCollision,
+                    this
+                );
+            });
+            
+            [this.obstacles, this.movableObstacles, this.platforms, this.timedPlatforms, this.doors, this.surfaceBlocks].forEach(group => {
+                if (group) {
+                    this.physics.add.collider(this.enemyProjectiles, group,
+                        this.handleEnemyProjectileTerrainCollision,
+                        undefined,
+                        this
+                    );
+                }
+            });
+        }
+        
+        // Setup enemies vs hazards overlap detection
+        if (this.enemies && this.hazards) {
+            this.physics.add.overlap(
+                this.enemies,
+                this.hazards,
+                this.handleEnemyHazardCollision,
+                undefined,
+                this
+            );
+        }
+        
         // Setup enemies vs static obstacles collision
         if (this.enemies && this.obstacles) {
             this.physics.add.collider(this.enemies, this.obstacles);
@@ -460,14 +1294,28 @@ export class Game extends Scene
         const hazardInstance = hazard as StaticHazard;
         const playerInstance = player as Player;
         
-        playerInstance.takeDamage(hazardInstance.getDamage());
+        this.damagePlayer(playerInstance, hazardInstance.getDamage(), hazardInstance.getDamageType());
+    }
+    
+    /**
+     * Hurt the player and show the hit on the health display, used for every kind of damage
+     */
+    damagePlayer(player: Player, damage: number, type: PlayerDamageType) {
+        player.takeDamage(damage, type);
         
         // Update health UI
         if (this.healthUI) {
-            this.healthUI.updateHealth(playerInstance.getHealth());
+            this.healthUI.updateHealth(player.getHealth(), type);
         }
     }
     
+    private handleEnemyHazardCollision(enemy: any, hazard: any) {
+        const enemyInstance = enemy as Enemy;
+        const hazardInstance = hazard as StaticHazard;
+        
+        enemyInstance.takeDamage(hazardInstance.getDamage(), 'hazard', hazardInstance.x);
+    }
+    
     private handlePlayerGoalCollision(_player: any, goal: any) {
         if (this.isVictory) return;
         
@@ -485,16 +1333,83 @@ export class Game extends Scene
         }
         
         goalInstance.collect();
+        this.winLevel(1000);
+    }
+    
+    /**
+     * End the level as won and move on to the Victory scene
+     * @param delay Time in ms before the Victory scene starts
+     */
+    private winLevel(delay: number) {
         this.isVictory = true;
+        this.completeLevel();
         
         // Pass collected items data to Victory scene
-        this.time.delayedCall(1000, () => {
-            const summaryData = this.collectedItemsManager.getSummaryData();
-            this.scene.start('Victory', summaryData);
+        this.time.delayedCall(delay, () => {
+            this.scene.start('Victory', this.getVictoryData());
             this.scene.remove('Game');
         });
     }
     
+    /**
+     * Objects the walls of a locked arena stop
+     */
+    getArenaBlockers(): Phaser.Types.Physics.Arcade.ArcadeColliderType[] {
+        return [this.player, this.enemies].filter(Boolean);
+    }
+    
+    /**
+     * Called by a boss when its fight starts
+     */
+    handleBossEngaged(boss: Boss, arena: BossArena | null) {
+        this.activeBoss = boss;
+        arena?.lock(this.getArenaBlockers());
+        this.bossHealthBar.show(boss.getBossName(), boss.getHealth(), boss.getMaxHealth(), boss.getPhaseThresholds());
+    }
+    
+    /**
+     * Called by a boss when it is defeated
+     */
+    handleBossDefeated(boss: Boss) {
+        boss.getArena()?.unlock();
+        
+        if (this.activeBoss === boss) {
+            this.activeBoss = null;
+            this.bossHealthBar.updateHealth(0);
+            this.time.delayedCall(1000, () => {
+                if (!this.activeBoss) {
+                    this.bossHealthBar.hide();
+                }
+            });
+        }
+        
+        if (this.victoryCondition !== 'boss' || this.isVictory) return;
+        
+        const bossesLeft = this.gameObjectManager.getObjectsByType('boss')
+            .filter(entry => entry.object.active && (entry.object as Boss).getHealth() > 0);
+        if (bossesLeft.length === 0) {
+            this.winLevel(1500);
+        }
+    }
+    
+    /**
+     * The player died during a boss fight: open the arena and bring the boss back as it started
+     */
+    private resetBossFight() {
+        const boss = this.activeBoss;
+        if (!boss) return;
+        
+        this.activeBoss = null;
+        boss.getArena()?.unlock();
+        this.bossHealthBar.hide();
+        
+        if (boss.active && boss.getHealth() > 0) {
+            const tiledObject = boss.getTiledObject();
+            boss.destroy();
+            this.createObject(tiledObject);
+        }
+    }
+    
     private showMissingItemsVisual(missingItems: string[]) {
         const centerX = this.cameras.main.centerX;
         const centerY = this.cameras.main.centerY;
@@ -664,6 +1579,166 @@ export class Game extends Scene
         
         // Update score display
         this.updateScoreDisplay();
+        
+        const powerUp = collectibleInstance.getPowerUp();
+        if (powerUp && this.powerUpManager) {
+            this.powerUpManager.activate(powerUp.effect, powerUp.duration, powerUp.value);
+            this.updateHealthDisplay();
+        }
+        
+        const weapon = collectibleInstance.getWeapon();
+        if (weapon && this.player) {
+            this.player.addWeapon(weapon);
+        }
+        
+        if (this.player && (collectibleInstance.getHeal() > 0 || collectibleInstance.getMaxHealthBonus() > 0)) {
+            this.player.increaseMaxHealth(collectibleInstance.getMaxHealthBonus());
+            this.player.heal(collectibleInstance.getHeal());
+            this.updateHealthDisplay();
+        }
+        
+        if (collectibleInstance.isPermanentUpgrade()) {
+            this.resettableObjects.delete(collectibleInstance.getData('uuid'));
+        }
+    }
+    
+    /**
+     * Refresh the hearts, including their number (extra heart power-ups raise the maximum)
+     */
+    private updateHealthDisplay() {
+        if (!this.healthUI || !this.player) return;
+        
+        if (this.player.getMaxHealth() !== this.healthUI.getMaxHealth()) {
+            this.healthUI.setMaxHealth(this.player.getMaxHealth());
+        }
+        this.healthUI.updateHealth(this.player.getHealth());
+    }
+    
+    private handlePlayerDoorCollision(_player: any, door: any) {
+        const doorInstance = door as Door;
+        if (doorInstance.isOpen() || !doorInstance.isLocked()) return;
+        
+        const requires = doorInstance.getRequires();
+        const count = doorInstance.getRequiredCount();
+        if (this.collectedItemsManager.getHeldCount(requires) < count) {
+            const message = doorInstance.getLockedMessage();
+            if (message) {
+                this.showDialog(message, 2000);
+            }
+            return;
+        }
+        
+        if (doorInstance.shouldConsumeKey()) {
+            this.collectedItemsManager.consumeItems(requires, count);
+        }
+        doorInstance.open();
+    }
+    
+    private handlePlayerCheckpointCollision(_player: any, checkpoint: any) {
+        const checkpointInstance = checkpoint as Checkpoint;
+        if (checkpointInstance.isActivated()) return;
+        
+        // Only the latest checkpoint stays active
+        if (this.activeCheckpoint) {
+            this.activeCheckpoint.deactivate();
+        }
+        
+        checkpointInstance.activate();
+        this.activeCheckpoint = checkpointInstance;
+        this.respawnPoint = checkpointInstance.getRespawnPosition();
+        
+        // Remember level state so it can be restored when respawning here
+        this.checkpointSnapshot = {
+            items: this.collectedItemsManager.snapshot(),
+            aliveUUIDs: new Set(
+                Array.from(this.resettableObjects.keys()).filter(uuid => this.isResettableObjectAlive(uuid))
+            )
+        };
+    }
+    
+    private isResettableObjectAlive(uuid: string): boolean {
+        const entry = this.gameObjectManager.getObjectByUUID(uuid);
+        if (!entry || !entry.object.active) {
+            return false;
+        }
+        if (entry.object instanceof Collectible) {
+            return !entry.object.isCollected();
+        }
+        return true;
+    }
+    
+    /**
+     * Recreate collectibles and obstacles that were present when the active checkpoint was reached
+     */
+    private restoreCheckpointSnapshot() {
+        if (!this.checkpointSnapshot) return;
+        
+        this.checkpointSnapshot.aliveUUIDs.forEach(uuid => {
+            if (this.isResettableObjectAlive(uuid)) return;
+            
+            const tiledObject = this.resettableObjects.get(uuid);
+            if (tiledObject) {
+                this.createObject(tiledObject);
+            }
+        });
+        
+        this.collectedItemsManager.restore(this.checkpointSnapshot.items);
+        this.updateScoreDisplay();
+    }
+    
+    /**
+     * Called by the player once the death animation is over
+     */
+    handlePlayerDeath() {
+        const livesLeft = this.player.loseLife();
+        this.updateLivesDisplay();
+        
+        if (livesLeft <= 0) {
+            // Emit game over event
+            eventBus.emit(GameEvent.GAME_OVER, {
+                reason: 'Player died'
+            });
+            this.restartGame();
+            return;
+        }
+        
+        this.respawnPlayer();
+    }
+    
+    private respawnPlayer() {
+        this.resetBossFight();
+        this.spawners.forEach(spawner => spawner.resetWave());
+        this.timedPlatforms?.getChildren().forEach(platform => (platform as TimedPlatform).resetPlatform());
+        
+        if (this.activeCheckpoint && this.activeCheckpoint.shouldResetItems()) {
+            this.restoreCheckpointSnapshot();
+        }
+        
+        // Timed power-ups end with the life they were collected in
+        this.powerUpManager?.expireTimed();
+        
+        this.player.respawn(this.respawnPoint.x, this.respawnPoint.y);
+        
+        if (this.healthUI) {
+            this.healthUI.updateHealth(this.player.getHealth());
+        }
+        
+        this.cameras.main.flash(300, 255, 255, 255);
+    }
+    
+    private updateWeaponDisplay() {
+        if (!this.weaponText || !this.player) return;
+        
+        const weapon = this.player.getCurrentWeapon();
+        const ammo = this.player.getAmmo();
+        this.weaponText.setVisible(this.player.hasAbility('canShoot'));
+        this.weaponText.setText(ammo < 0 ? `Weapon: ${weapon.label}` : `Weapon: ${weapon.label} (${ammo})`);
+    }
+    
+    private updateLivesDisplay() {
+        if (this.livesText && this.player) {
+            this.livesText.setText(`Lives: ${this.player.getLives()}`);
+        }
     }
     
     private handlePlayerEnemyCollision(player: any, enemy: any) {
@@ -673,19 +1748,15 @@ export class Game extends Scene
         // Check if player is jumping on enemy (player above enemy)
         if (playerInstance.body?.velocity.y && 
             playerInstance.body.velocity.y > 0 && 
-            playerInstance.y < enemyInstance.y - 20) {
-            // Player defeats enemy by jumping on it
-            enemyInstance.takeDamage(1);
+            playerInstance.y < enemyInstance.y - 20 &&
+            !enemyInstance.isStompImmune()) {
+            // Player hurts enemy by jumping on it
+            enemyInstance.takeDamage(1, 'stomp', playerInstance.x);
             // Bounce player up
             playerInstance.setVelocityY(-300);
         } else {
             // Enemy damages player
-            playerInstance.takeDamage(enemyInstance.getDamage());
-            
-            // Update health UI
-            if (this.healthUI) {
-                this.healthUI.updateHealth(playerInstance.getHealth());
-            }
+            this.damagePlayer(playerInstance, enemyInstance.getDamage(), 'contact');
         }
     }
     
@@ -693,8 +1764,11 @@ export class Game extends Scene
         const bulletInstance = bullet as Bullet;
         const enemyInstance = enemy as Enemy;
         
-        bulletInstance.hitEnemy();
-        enemyInstance.takeDamage(1);
+        // Piercing bullets only hurt each enemy once
+        if (bulletInstance.hasHit(enemyInstance)) return;
+        
+        enemyInstance.takeDamage(bulletInstance.getDamage(), 'bullet', bulletInstance.x);
+        bulletInstance.hitEnemy(enemyInstance);
         
         this.cameras.main.shake(50, 0.003);
     }
@@ -708,10 +1782,40 @@ export class Game extends Scene
         bulletInstance.hitEnemy();
         
         if (obstacleInstance.getIsDestructible()) {
-            obstacleInstance.takeDamage(1);
+            obstacleInstance.takeDamage(bulletInstance.getDamage());
         }
     }
     
+    private handlePlayerEnemyProjectileCollision(player: any, projectile: any) {
+        const playerInstance = player as Player;
+        const projectileInstance = projectile as EnemyProjectile;
+        
+        this.damagePlayer(playerInstance, projectileInstance.getDamage(), 'projectile');
+        projectileInstance.destroyProjectile();
+    }
+    
+    private handleBulletEnemyProjectileCollision(bullet: any, projectile: any) {
+        const bulletInstance = bullet as Bullet;
+        const projectileInstance = projectile as EnemyProjectile;
+        
+        bulletInstance.hitEnemy();
+        projectileInstance.destroyProjectile();
+    }
+    
+    private handleSpringCollision(object: any, spring: any) {
+        (spring as Spring).tryLaunch(object as Phaser.GameObjects.GameObject);
+    }
+    
+    private handleBulletSwitchCollision(bullet: any, switchObject: any) {
+        if ((switchObject as Switch).hit()) {
+            (bullet as Bullet).hitEnemy();
+        }
+    }
+    
+    private handleEnemyProjectileTerrainCollision(projectile: any, _terrain: any) {
+        (projectile as EnemyProjectile).destroyProjectile();
+    }
+    
     private handlePlayerTriggerCollision(player: any, trigger: any) {
         const playerInstance = player as Player;
         const triggerInstance = trigger as Trigger;
@@ -835,9 +1939,76 @@ export class Game extends Scene
         }
     }
 
-    update() {
+    update(_time: number, delta: number) {
+        // Level time only advances while the scene runs (not while paused)
+        if (!this.isVictory) {
+            this.levelTime += delta;
+            this.updateTimerDisplay();
+        }
+        
+        this.ghost?.updateGhost(this.levelTime);
+        
+        const liveInput = this.inputManager.update();
+        
+        // Player input comes from the replay, or is recorded for one
+        let input: InputState = liveInput;
+        let skipPlayerUpdate = liveInput.pause.justPressed;
+        if (this.replayPlayer) {
+            const frame = this.replayPlayer.nextInput(liveInput);
+            input = frame.input;
+            skipPlayerUpdate = frame.skipped;
+            
+            if (this.replayPlayer.isFinished() && !this.isVictory && !this.replayEnded) {
+                this.endReplay();
+            }
+        } else if (this.replayRecorder) {
+            input = this.replayRecorder.record(delta, liveInput, skipPlayerUpdate);
+            
+            // The physics step of this frame reached the goal, it is the last frame the replay needs
+            if (this.isVictory) {
+                ReplayManager.getInstance().setLastReplay(this.replayRecorder.finish(this.levelTime, true));
+                this.replayRecorder = null;
+            }
+        }
+        
+        if (liveInput.pause.justPressed) {
+            this.pauseGame();
+        }
+        
+        if (skipPlayerUpdate) {
+            return;
+        }
+        
+        this.updatePlatforms(delta);
+        this.updateTimedPlatforms(delta);
+        this.updateSurfaces(delta);
+        this.updateSwitches(delta);
+        
+        if (input.interact.justPressed) {
+            this.interactWithSwitches();
+        }
+        
+        if (this.activeBoss) {
+            this.bossHealthBar.updateHealth(this.activeBoss.getHealth());
+        }
+        
+        this.spawners.forEach(spawner => spawner.updateSpawner(delta, this.player ?? null));
+        
+        if (this.powerUpManager) {
+            this.powerUpManager.update(delta);
+            this.powerUpUI.update(this.powerUpManager.getActivePowerUps());
+        }
+        
         if (this.player) {
-            this.player.update();
+            this.player.setOnClimbable(this.isOnClimbable(this.player));
+            this.player.update(input, delta);
+            this.inputManager.setChargeFeedback(this.player.getChargePercent());
+            this.updateWeaponDisplay();
+            
+            if (this.ghostRecorder && !this.isVictory) {
+                this.ghostRecorder.capture(this.levelTime, this.player.x, this.player.y,
+                    this.player.getAnimationName(), this.player.flipX);
+            }
             
             // No longer forcing boxes to stop - let physics handle natural deceleration
             
@@ -874,11 +2045,136 @@ export class Game extends Scene
             }
         }
         
-        // Check restart key
-        if (this.restartKey && Phaser.Input.Keyboard.JustDown(this.restartKey)) {
+        // Check restart action
+        if (input.restart.justPressed) {
             this.restartGame();
         }
     }
+    
+    private resolveSlopes() {
+        if (this.player) {
+            TileCollision.resolveSlopes(this.player, this.layers);
+        }
+        this.enemies?.getChildren().forEach(enemy => TileCollision.resolveSlopes(enemy, this.layers));
+        this.movableObstacles?.getChildren().forEach(box => TileCollision.resolveSlopes(box, this.layers));
+    }
+    
+    private updatePlatforms(delta: number) {
+        if (!this.platforms) return;
+        
+        const riders: Phaser.GameObjects.GameObject[] = [];
+        if (this.player) {
+            riders.push(this.player);
+        }
+        if (this.movableObstacles) {
+            riders.push(...this.movableObstacles.getChildren());
+        }
+        
+        this.platforms.getChildren().forEach(platform => {
+            (platform as MovingPlatform).updatePlatform(delta, riders);
+        });
+    }
+    
+    private updateTimedPlatforms(delta: number) {
+        if (!this.timedPlatforms) return;
+        
+        const riders: Phaser.GameObjects.GameObject[] = [];
+        if (this.player) {
+            riders.push(this.player);
+        }
+        if (this.movableObstacles) {
+            riders.push(...this.movableObstacles.getChildren());
+        }
+        
+        this.timedPlatforms.getChildren().forEach(platform => {
+            (platform as TimedPlatform).updateTimedPlatform(delta, this.levelTime, riders);
+        });
+    }
+    
+    /**
+     * Carry bodies along conveyors and tell the player which floor it stands on
+     */
+    private updateSurfaces(delta: number) {
+        this.surfaceBlocks?.getChildren().forEach(block => (block as SurfaceBlock).updateSurfaceBlock(delta));
+        
+        const riders: Phaser.GameObjects.GameObject[] = [];
+        if (this.player) {
+            riders.push(this.player);
+        }
+        if (this.enemies) {
+            riders.push(...this.enemies.getChildren());
+        }
+        if (this.movableObstacles) {
+            riders.push(...this.movableObstacles.getChildren());
+        }
+        
+        riders.forEach(rider => {
+            const body = (rider as any).body as Phaser.Physics.Arcade.Body | undefined;
+            if (!rider.active || !body || !body.enable || !(body.blocked.down || body.touching.down)) return;
+            
+            const surface = this.getSurfaceUnder(rider, body);
+            if (surface && surface.conveyorSpeed !== 0) {
+                (rider as any).x += surface.conveyorSpeed * delta / 1000;
+            }
+            if (rider === this.player) {
+                this.player.setSurface(surface ?? DEFAULT_SURFACE);
+            }
+        });
+    }
+    
+    private getSurfaceUnder(rider: Phaser.GameObjects.GameObject, body: Phaser.Physics.Arcade.Body): SurfaceProperties | null {
+        const block = this.surfaceBlocks?.getChildren().find(child => (child as SurfaceBlock).isSupporting(rider));
+        if (block) {
+            return (block as SurfaceBlock).getSurface();
+        }
+        return TileCollision.getSurfaceUnder(this.layers, body);
+    }
+    
+    /**
+     * Whether the player's body center or feet are on a ladder or vine (object or tile)
+     */
+    private isOnClimbable(player: Player): boolean {
+        const body = player.body as Phaser.Physics.Arcade.Body | null;
+        if (!body || !body.enable) return false;
+        
+        return [body.center.y, body.bottom - 1].some(y =>
+            this.climbables.some(climbable => climbable.containsPoint(body.center.x, y)) ||
+            TileCollision.isClimbableAt(this.layers, body.center.x, y)
+        );
+    }
+    
+    private updateSwitches(delta: number) {
+        if (!this.switches) return;
+        
+        const pressers: Phaser.GameObjects.GameObject[] = [];
+        if (this.player) {
+            pressers.push(this.player);
+        }
+        if (this.enemies) {
+            pressers.push(...this.enemies.getChildren());
+        }
+        if (this.movableObstacles) {
+            pressers.push(...this.movableObstacles.getChildren());
+        }
+        
+        this.switches.getChildren().forEach(switchObject => {
+            (switchObject as Switch).updateSwitch(delta, pressers);
+        });
+    }
+    
+    /**
+     * Pull the levers the player stands at
+     */
+    private interactWithSwitches() {
+        if (!this.switches || !this.player) return;
+        
+        this.switches.getChildren().forEach(switchObject => {
+            if (this.physics.overlap(this.player, switchObject)) {
+                (switchObject as Switch).interact();
+            }
+        });
+    }
+    
     restartGame() {
         // Pause physics world
         this.physics.world.pause();
@@ -888,7 +2184,7 @@ export class Game extends Scene
         
         this.cameras.main.once(Phaser.Cameras.Scene2D.Events.FADE_OUT_COMPLETE, () => {
             // Start GameOver scene
-            this.scene.start('GameOver');
+            this.scene.start('GameOver', { levelId: this.levelId });
             // Completely remove and destroy Game scene
             this.scene.remove('Game');
         });
@@ -900,11 +2196,11 @@ export class Game extends Scene
         
         // Fade out effect
         this.cameras.main.fadeOut(500, 255, 255, 255);
+        this.completeLevel();
         
         this.cameras.main.once(Phaser.Cameras.Scene2D.Events.FADE_OUT_COMPLETE, () => {
             // Start Victory scene with collected items data
-            const summaryData = this.collectedItemsManager.getSummaryData();
-            this.scene.start('Victory', summaryData);
+            this.scene.start('Victory', this.getVictoryData());
             // Completely remove and destroy Game scene
             this.scene.remove('Game');
         });
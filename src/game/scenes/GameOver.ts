@@ -8,12 +8,19 @@ import { FullscreenManager } from '../managers/FullscreenManager';
 export class GameOver extends Scene
 {
     private uiManager: UIManager;
+    private levelId: string | undefined;
 
     constructor ()
     {
         super('GameOver');
     }
 
+    init (data: { levelId?: string })
+    {
+        // Remember which level to restart
+        this.levelId = data?.levelId;
+    }
+
     create ()
     {
         // Emit scene start event
@@ -240,7 +247,7 @@ export class GameOver extends Scene
         
         // Re-add and start a fresh Game scene
         this.scene.add('Game', Game, false);
-        this.scene.start('Game');
+        this.scene.start('Game', { levelId: this.levelId });
         this.scene.stop('GameOver');
         
         // Clean up UI
@@ -4,6 +4,8 @@ import { eventBus, GameEvent } from '../events/EventBus';
 import { UIManager, UILayoutConfig } from '../managers/UIManager';
 import { DeviceDetector } from '../utils/DeviceDetector';
 import { FullscreenManager } from '../managers/FullscreenManager';
+import { LevelManager } from '../managers/LevelManager';
+import { SaveManager } from '../managers/SaveManager';
 
 export class MainMenu extends Scene
 {
@@ -76,6 +78,38 @@ export class MainMenu extends Scene
                     clickScale: 0.95,
                     depth: 3
                 },
+                progressText: {
+                    type: 'text',
+                    text: this.getProgressText(),
+                    position: { x: '50%', y: '68%' },
+                    origin: { x: 0.5, y: 0.5 },
+                    style: {
+                        fontFamily: 'Arial',
+                        fontSize: '20px',
+                        color: '#ffffff',
+                        stroke: '#000000',
+                        strokeThickness: 3,
+                        align: 'center'
+                    },
+                    depth: 2
+                },
+                ghostToggle: {
+                    type: 'button',
+                    text: this.getGhostLabel(),
+                    position: { x: '50%', y: '84%' },
+                    scale: 1,
+                    textStyle: {
+                        fontFamily: 'Arial Black',
+                        fontSize: '20px',
+                        color: '#ffffff',
+                        stroke: '#000000',
+                        strokeThickness: 4
+                    },
+                    onClick: () => this.toggleGhost(),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 3
+                },
                 instructions: {
                     type: 'text',
                     text: 'Click PLAY or press any key to start',
@@ -132,6 +166,13 @@ export class MainMenu extends Scene
             ease: 'Back.easeOut'
         });
 
+        // Fade in saved progress
+        this.uiManager.animateElement('progressText', {
+            alpha: { from: 0, to: 1 },
+            duration: 800,
+            delay: 700
+        });
+
         // Fade in instructions
         this.uiManager.animateElement('instructions', {
             alpha: { from: 0, to: 1 },
@@ -139,6 +180,12 @@ export class MainMenu extends Scene
             delay: 800
         });
 
+        this.uiManager.animateElement('ghostToggle', {
+            alpha: { from: 0, to: 1 },
+            duration: 800,
+            delay: 900
+        });
+
         // Emit scene start event
         eventBus.emit(GameEvent.SCENE_START, {
             scene: 'MainMenu'
@@ -155,6 +202,36 @@ export class MainMenu extends Scene
         }
     }
 
+    private getProgressText(): string {
+        const levelManager = LevelManager.getInstance();
+        const saveManager = SaveManager.getInstance();
+        const levels = levelManager.getLevels();
+        if (levels.length === 0) {
+            return '';
+        }
+
+        const completedCount = levels.filter(level => saveManager.getLevelRecord(level.id).completed).length;
+        const totalBestScore = levels.reduce((sum, level) => sum + saveManager.getLevelRecord(level.id).bestScore, 0);
+
+        let text = `⭐ ${completedCount}/${levels.length} levels completed   •   Best score total: ${totalBestScore}`;
+
+        const nextLevel = levelManager.getLevel(levelManager.getDefaultLevelId() ?? '');
+        if (nextLevel && completedCount > 0) {
+            text += `\nContinue: ${nextLevel.name}`;
+        }
+        return text;
+    }
+
+    private getGhostLabel(): string {
+        return SaveManager.getInstance().getGameplaySettings().showGhost ? '👻 Ghost race: ON' : '👻 Ghost race: OFF';
+    }
+
+    private toggleGhost(): void {
+        const saveManager = SaveManager.getInstance();
+        saveManager.setGameplaySettings({ showGhost: !saveManager.getGameplaySettings().showGhost });
+        this.uiManager.setButtonText('ghostToggle', this.getGhostLabel());
+    }
+
     private startGame(): void {
         // Emit scene change event
         eventBus.emit(GameEvent.SCENE_CHANGE, {
@@ -162,9 +239,10 @@ export class MainMenu extends Scene
             to: 'Game'
         });
         
-        // Re-add and start a fresh Game scene
+        // Re-add and start a fresh Game scene at the level the player should continue with
+        const levelId = LevelManager.getInstance().getDefaultLevelId();
         this.scene.add('Game', Game, false);
-        this.scene.start('Game');
+        this.scene.start('Game', { levelId });
         
         // Clean up UI
         this.uiManager.destroy();
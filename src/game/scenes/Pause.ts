@@ -0,0 +1,238 @@
+import { Scene } from 'phaser';
+import { Game } from './Game';
+import { eventBus, GameEvent } from '../events/EventBus';
+import { UIManager, UILayoutConfig } from '../managers/UIManager';
+import { SaveManager } from '../managers/SaveManager';
+import { InputAction, getKeyName } from '../managers/InputManager';
+
+/**
+ * Pause overlay launched on top of the paused Game scene
+ */
+export class Pause extends Scene
+{
+    private uiManager: UIManager;
+    private overlay: Phaser.GameObjects.Rectangle;
+    private levelId: string | undefined;
+    private isClosing: boolean = false;
+    private resumeKeys: Phaser.Input.Keyboard.Key[] = [];
+
+    constructor ()
+    {
+        super('Pause');
+    }
+
+    init (data: { levelId?: string })
+    {
+        this.levelId = data?.levelId;
+        this.isClosing = false;
+    }
+
+    create ()
+    {
+        eventBus.emit(GameEvent.SCENE_START, {
+            scene: 'Pause'
+        });
+
+        // Dim the frozen game behind the menu
+        this.overlay = this.add.rectangle(0, 0, this.scale.width, this.scale.height, 0x000000, 0.6);
+        this.overlay.setOrigin(0, 0);
+        this.overlay.setInteractive(); // Swallow clicks meant for the game
+
+        const buttonStyle = {
+            fontFamily: 'Arial Black',
+            fontSize: '28px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 5
+        };
+
+        const uiConfig: UILayoutConfig = {
+            baseWidth: 1024,
+            baseHeight: 768,
+            scalingMode: 'fit',
+            responsive: true,
+            elements: {
+                title: {
+                    type: 'text',
+                    text: '⏸ PAUSED',
+                    position: { x: '50%', y: '22%' },
+                    origin: { x: 0.5, y: 0.5 },
+                    style: {
+                        fontFamily: 'Arial Black',
+                        fontSize: '64px',
+                        color: '#ffffff',
+                        stroke: '#000000',
+                        strokeThickness: 8,
+                        align: 'center'
+                    },
+                    depth: 2
+                },
+                resumeButton: {
+                    type: 'button',
+                    text: '▶ RESUME',
+                    position: { x: '50%', y: '40%' },
+                    scale: 1,
+                    textStyle: buttonStyle,
+                    onClick: () => this.resumeGame(),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 3
+                },
+                restartButton: {
+                    type: 'button',
+                    text: '🔄 RESTART LEVEL',
+                    position: { x: '50%', y: '52%' },
+                    scale: 1,
+                    textStyle: buttonStyle,
+                    onClick: () => this.restartLevel(),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 3
+                },
+                settingsButton: {
+                    type: 'button',
+                    text: '⚙ SETTINGS',
+                    position: { x: '50%', y: '64%' },
+                    scale: 1,
+                    textStyle: buttonStyle,
+                    onClick: () => this.openSettings(),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 3
+                },
+                quitButton: {
+                    type: 'button',
+                    text: '🏠 QUIT TO MENU',
+                    position: { x: '50%', y: '76%' },
+                    scale: 1,
+                    textStyle: buttonStyle,
+                    onClick: () => this.quitToMenu(),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 3
+                },
+                instructions: {
+                    type: 'text',
+                    text: '',
+                    position: { x: '50%', y: '90%' },
+                    origin: { x: 0.5, y: 0.5 },
+                    style: {
+                        fontFamily: 'Arial',
+                        fontSize: '18px',
+                        color: '#cccccc',
+                        align: 'center'
+                    },
+                    depth: 2
+                }
+            }
+        };
+
+        this.uiManager = new UIManager(this, uiConfig);
+        this.uiManager.createUI();
+
+        this.uiManager.animateElement('title', {
+            scale: { from: 0.5, to: this.uiManager.getScale() },
+            alpha: { from: 0, to: 1 },
+            duration: 200,
+            ease: 'Back.easeOut'
+        });
+
+        this.scale.on('resize', this.onResize, this);
+        this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+            this.scale.off('resize', this.onResize, this);
+            this.events.off(Phaser.Scenes.Events.WAKE, this.setupResumeKeys, this);
+            this.uiManager.destroy();
+        });
+
+        // Keyboard shortcuts follow the pause binding, which may change in the settings
+        this.setupResumeKeys();
+        this.events.on(Phaser.Scenes.Events.WAKE, this.setupResumeKeys, this);
+
+        // Gamepad Start button (standard mapping index 9)
+        this.input.gamepad?.on('down', (_pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button) => {
+            if (button.index === 9) {
+                this.resumeGame();
+            }
+        });
+    }
+
+    private setupResumeKeys(): void {
+        const keyboard = this.input.keyboard;
+        if (!keyboard) return;
+
+        this.resumeKeys.forEach(key => keyboard.removeKey(key, true));
+
+        const keyCodes = SaveManager.getInstance().getKeyBindings()[InputAction.PAUSE];
+        this.resumeKeys = keyCodes.map(keyCode => {
+            const key = keyboard.addKey(keyCode);
+            key.on('down', () => this.resumeGame());
+            return key;
+        });
+
+        const keyNames = keyCodes.map(keyCode => getKeyName(keyCode).toUpperCase());
+        this.uiManager.updateElement('instructions', {
+            type: 'text',
+            text: `Press ${[...keyNames, 'START'].join(' / ')} to resume`
+        });
+    }
+
+    private onResize(gameSize: Phaser.Structs.Size): void {
+        this.overlay.setSize(gameSize.width, gameSize.height);
+    }
+
+    private resumeGame(): void {
+        if (this.isClosing) return;
+        this.isClosing = true;
+
+        this.scene.resume('Game');
+        this.scene.stop();
+
+        eventBus.emit(GameEvent.BGM_RESUME);
+        eventBus.emit(GameEvent.SCENE_RESUME, {
+            scene: 'Game'
+        });
+        eventBus.emit(GameEvent.GAME_RESUME);
+    }
+
+    private restartLevel(): void {
+        if (this.isClosing) return;
+        this.isClosing = true;
+
+        eventBus.emit(GameEvent.SCENE_CHANGE, {
+            from: 'Pause',
+            to: 'Game'
+        });
+
+        // Removal is processed on the next frame, re-add the Game scene afterwards
+        this.scene.stop('Game');
+        this.scene.remove('Game');
+        this.time.delayedCall(1, () => {
+            eventBus.emit(GameEvent.BGM_RESUME);
+
+            this.scene.add('Game', Game, false);
+            this.scene.start('Game', { levelId: this.levelId });
+            this.scene.stop();
+        });
+    }
+
+    private openSettings(): void {
+        if (this.isClosing) return;
+
+        this.scene.launch('Settings', { returnTo: 'Pause' });
+        this.scene.sleep();
+    }
+
+    private quitToMenu(): void {
+        if (this.isClosing) return;
+        this.isClosing = true;
+
+        eventBus.emit(GameEvent.SCENE_CHANGE, {
+            from: 'Game',
+            to: 'MainMenu'
+        });
+
+        this.scene.stop('Game');
+        this.scene.remove('Game');
+        this.scene.start('MainMenu');
+    }
+}
@@ -1,11 +1,14 @@
 import { Scene } from 'phaser';
 import { AnimationManager } from '../managers/AnimationManager';
 import { SoundEffectPlayer } from '../managers/SoundEffectPlayer';
+import { LevelManager, LevelManifest } from '../managers/LevelManager';
+import { SaveManager } from '../managers/SaveManager';
 
 export class Preloader extends Scene
 {
     private animationManager: AnimationManager;
     private soundEffectPlayer: SoundEffectPlayer;
+    private queuedTilesets: Set<string> = new Set();
     
     constructor ()
     {
@@ -39,15 +42,10 @@ export class Preloader extends Scene
         //  Load the assets for the game - Replace with your own assets
         this.load.image('logo', 'assets/logo.png');
         
-        // Load tilemap JSON
-        this.load.tilemapTiledJSON('tilemap', 'assets/tilemap/scenes/tilemap.json');
-
-        // Download tilemap.
-        this.load.text('tilemap_json_raw', 'assets/tilemap/scenes/tilemap.json');
-        
-        // Listen for text file loading completion, then load other resources during preload phase
-        this.load.once('filecomplete-text-tilemap_json_raw', () => {
-            this.loadAllAssets();
+        // Load level manifest, then the tilemap of every level it lists
+        this.load.json('level_manifest', 'assets/tilemap/levels.json');
+        this.load.once('filecomplete-json-level_manifest', () => {
+            this.loadLevels();
         });
 
         // Initialize SoundEffectPlayer and load config
@@ -62,14 +60,38 @@ export class Preloader extends Scene
 
     }
 
-    private loadAllAssets() {
+    private loadLevels() {
+        const levelManager = LevelManager.getInstance();
+        levelManager.loadManifest(this.cache.json.get('level_manifest') as LevelManifest);
+
+        levelManager.getLevels().forEach(level => {
+            const tilemapKey = levelManager.getTilemapKey(level.id);
+            const rawKey = `${tilemapKey}_json_raw`;
+
+            // Load tilemap JSON
+            this.load.tilemapTiledJSON(tilemapKey, level.tilemap);
+
+            // Download tilemap.
+            this.load.text(rawKey, level.tilemap);
+
+            // Listen for text file loading completion, then load other resources during preload phase
+            this.load.once(`filecomplete-text-${rawKey}`, () => {
+                this.loadAllAssets(rawKey);
+            });
+        });
+
+        console.log(`[Preloader] Queued ${levelManager.getLevels().length} level(s) from manifest`);
+    }
+
+    private loadAllAssets(rawKey: string) {
         // parse raw tilemap json.
-        let tilemapJsonRaw = this.cache.text.get('tilemap_json_raw');
+        let tilemapJsonRaw = this.cache.text.get(rawKey);
         let tilemapJsonObj = null;
         try {
             tilemapJsonObj = JSON.parse(tilemapJsonRaw);
         } catch (e) {
-            console.error('Failed to parse tilemap_json_raw:', e);
+            console.error(`Failed to parse ${rawKey}:`, e);
+            return;
         }
 
         let tilesets = tilemapJsonObj["tilesets"];
@@ -102,6 +124,12 @@ export class Preloader extends Scene
                 return;
             }
 
+            // Levels often share tilesets, only queue each one once
+            if (this.queuedTilesets.has(name)) {
+                return;
+            }
+            this.queuedTilesets.add(name);
+
             if (isAtlas) {
                 // Replace the file extension of imageUri with .json
                 let atlasJsonUri = imageUri.replace(/(\.[^/.]+)$/, '.json');
@@ -133,10 +161,20 @@ export class Preloader extends Scene
         this.soundEffectPlayer.onSoundsLoaded();
         console.log('[Preloader] Sound effect system ready');
         
+        // Restore saved progress and settings
+        this.restoreSaveData();
+        
         //  Move to the MainMenu. You could also swap this for a Scene Transition, such as a camera fade.
         this.scene.start('MainMenu');
     }
     
+    private restoreSaveData(): void {
+        const saveManager = SaveManager.getInstance();
+        
+        LevelManager.getInstance().setCompletedLevels(saveManager.getCompletedLevelIds());
+        saveManager.applyAudioSettings();
+    }
+    
     private processAnimationConfigs(): void {
         // Get all loaded atlas names from cache
         const textureKeys = this.textures.getTextureKeys();
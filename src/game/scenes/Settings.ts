@@ -0,0 +1,263 @@
+import { Scene } from 'phaser';
+import { eventBus, GameEvent } from '../events/EventBus';
+import { UIManager, UILayoutConfig } from '../managers/UIManager';
+import { SaveManager } from '../managers/SaveManager';
+
+const VOLUME_STEP = 0.1;
+
+/**
+ * Settings overlay, launched from the pause menu or the main menu.
+ * Changes are saved immediately through SaveManager.
+ */
+export class Settings extends Scene
+{
+    private uiManager: UIManager;
+    private overlay: Phaser.GameObjects.Rectangle;
+    private saveManager: SaveManager;
+    private returnTo: string | undefined;
+
+    constructor ()
+    {
+        super('Settings');
+        this.saveManager = SaveManager.getInstance();
+    }
+
+    init (data: { returnTo?: string })
+    {
+        // Scene to wake up when closing settings
+        this.returnTo = data?.returnTo;
+    }
+
+    create ()
+    {
+        eventBus.emit(GameEvent.SCENE_START, {
+            scene: 'Settings'
+        });
+
+        this.overlay = this.add.rectangle(0, 0, this.scale.width, this.scale.height, 0x1a1a2e, 0.92);
+        this.overlay.setOrigin(0, 0);
+        this.overlay.setInteractive();
+
+        const labelStyle = {
+            fontFamily: 'Arial Black',
+            fontSize: '28px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 5
+        };
+
+        const valueStyle = {
+            fontFamily: 'Arial Black',
+            fontSize: '28px',
+            color: '#FFD700',
+            stroke: '#000000',
+            strokeThickness: 5,
+            align: 'center'
+        };
+
+        const smallButtonStyle = {
+            fontFamily: 'Arial Black',
+            fontSize: '28px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 4
+        };
+
+        const uiConfig: UILayoutConfig = {
+            baseWidth: 1024,
+            baseHeight: 768,
+            scalingMode: 'fit',
+            responsive: true,
+            elements: {
+                title: {
+                    type: 'text',
+                    text: '⚙ SETTINGS',
+                    position: { x: '50%', y: '15%' },
+                    origin: { x: 0.5, y: 0.5 },
+                    style: {
+                        fontFamily: 'Arial Black',
+                        fontSize: '56px',
+                        color: '#ffffff',
+                        stroke: '#000000',
+                        strokeThickness: 8,
+                        align: 'center'
+                    },
+                    depth: 2
+                },
+                musicLabel: {
+                    type: 'text',
+                    text: '🎵 Music',
+                    position: { x: '25%', y: '35%' },
+                    origin: { x: 0, y: 0.5 },
+                    style: labelStyle,
+                    depth: 2
+                },
+                musicDownButton: {
+                    type: 'button',
+                    text: '−',
+                    position: { x: '58%', y: '35%' },
+                    scale: 1,
+                    textStyle: smallButtonStyle,
+                    onClick: () => this.changeVolume('bgmVolume', -VOLUME_STEP),
+                    depth: 3
+                },
+                musicValue: {
+                    type: 'text',
+                    text: '',
+                    position: { x: '67%', y: '35%' },
+                    origin: { x: 0.5, y: 0.5 },
+                    style: valueStyle,
+                    depth: 2
+                },
+                musicUpButton: {
+                    type: 'button',
+                    text: '+',
+                    position: { x: '76%', y: '35%' },
+                    scale: 1,
+                    textStyle: smallButtonStyle,
+                    onClick: () => this.changeVolume('bgmVolume', VOLUME_STEP),
+                    depth: 3
+                },
+                sfxLabel: {
+                    type: 'text',
+                    text: '🔊 Sound FX',
+                    position: { x: '25%', y: '48%' },
+                    origin: { x: 0, y: 0.5 },
+                    style: labelStyle,
+                    depth: 2
+                },
+                sfxDownButton: {
+                    type: 'button',
+                    text: '−',
+                    position: { x: '58%', y: '48%' },
+                    scale: 1,
+                    textStyle: smallButtonStyle,
+                    onClick: () => this.changeVolume('sfxVolume', -VOLUME_STEP),
+                    depth: 3
+                },
+                sfxValue: {
+                    type: 'text',
+                    text: '',
+                    position: { x: '67%', y: '48%' },
+                    origin: { x: 0.5, y: 0.5 },
+                    style: valueStyle,
+                    depth: 2
+                },
+                sfxUpButton: {
+                    type: 'button',
+                    text: '+',
+                    position: { x: '76%', y: '48%' },
+                    scale: 1,
+                    textStyle: smallButtonStyle,
+                    onClick: () => this.changeVolume('sfxVolume', VOLUME_STEP),
+                    depth: 3
+                },
+                muteButton: {
+                    type: 'button',
+                    text: this.getMuteLabel(),
+                    position: { x: '50%', y: '62%' },
+                    scale: 1,
+                    textStyle: labelStyle,
+                    onClick: () => this.toggleMute(),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 3
+                },
+                controlsButton: {
+                    type: 'button',
+                    text: '🎮 Controls',
+                    position: { x: '50%', y: '71%' },
+                    scale: 1,
+                    textStyle: labelStyle,
+                    onClick: () => this.openControls(),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 3
+                },
+                backButton: {
+                    type: 'button',
+                    text: '⬅ BACK',
+                    position: { x: '50%', y: '82%' },
+                    scale: 1,
+                    textStyle: labelStyle,
+                    onClick: () => this.close(),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 3
+                }
+            }
+        };
+
+        this.uiManager = new UIManager(this, uiConfig);
+        this.uiManager.createUI();
+        this.refreshValues();
+
+        this.scale.on('resize', this.onResize, this);
+        this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+            this.scale.off('resize', this.onResize, this);
+            this.uiManager.destroy();
+        });
+
+        const escKey = this.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.ESC);
+        escKey?.once('down', () => this.close());
+    }
+
+    private onResize(gameSize: Phaser.Structs.Size): void {
+        this.overlay.setSize(gameSize.width, gameSize.height);
+    }
+
+    private changeVolume(setting: 'bgmVolume' | 'sfxVolume', delta: number): void {
+        const audio = this.saveManager.getAudioSettings();
+        // Round to avoid floating point drift (0.30000000000000004)
+        const volume = Math.round((audio[setting] + delta) * 10) / 10;
+
+        this.saveManager.setAudioSettings({ [setting]: volume });
+        this.saveManager.applyAudioSettings();
+        this.refreshValues();
+
+        if (setting === 'sfxVolume') {
+            // Preview the new sound effect volume
+            eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
+                key: 'player_shoot',
+                volume: 0.5
+            });
+        }
+    }
+
+    private toggleMute(): void {
+        const audio = this.saveManager.getAudioSettings();
+        this.saveManager.setAudioSettings({ muted: !audio.muted });
+        this.saveManager.applyAudioSettings();
+        this.refreshValues();
+    }
+
+    private refreshValues(): void {
+        const audio = this.saveManager.getAudioSettings();
+
+        this.uiManager.updateElement('musicValue', {
+            type: 'text',
+            text: `${Math.round(audio.bgmVolume * 100)}%`
+        });
+        this.uiManager.updateElement('sfxValue', {
+            type: 'text',
+            text: `${Math.round(audio.sfxVolume * 100)}%`
+        });
+        this.uiManager.setButtonText('muteButton', this.getMuteLabel());
+    }
+
+    private getMuteLabel(): string {
+        return this.saveManager.getAudioSettings().muted ? '🔇 Sound: OFF' : '🔈 Sound: ON ';
+    }
+
+    private openControls(): void {
+        this.scene.launch('Controls', { returnTo: 'Settings' });
+        this.scene.sleep();
+    }
+
+    private close(): void {
+        this.scene.stop();
+        if (this.returnTo) {
+            this.scene.wake(this.returnTo);
+        }
+    }
+}
@@ -5,12 +5,28 @@ import { eventBus, GameEvent } from '../events/EventBus';
 import { UIManager, UILayoutConfig } from '../managers/UIManager';
 import { DeviceDetector } from '../utils/DeviceDetector';
 import { FullscreenManager } from '../managers/FullscreenManager';
+import { SaveManager } from '../managers/SaveManager';
+import { LevelManager } from '../managers/LevelManager';
+import { TimeFormatter } from '../utils/TimeFormatter';
+import { StarRating } from '../utils/StarRating';
+import { ReplayManager, ReplayData } from '../managers/ReplayManager';
 
 export class Victory extends Scene {
     private uiManager: UIManager;
     private totalScore: number = 0;
     private itemsByType: Map<string, CollectedItemData[]> = new Map();
     private totalItemsCollected: number = 0;
+    private levelId: string | undefined;
+    private levelName: string | undefined;
+    private nextLevelId: string | null = null;
+    private runTime: number = 0;
+    private isNewBestScore: boolean = false;
+    private isNewBestTime: boolean = false;
+    private isNewBestStars: boolean = false;
+    private parTime: number | null = null;
+    private stars: number = 0;
+    private maxStars: number = 0;
+    private isReplay: boolean = false;
     
     constructor() {
         super('Victory');
@@ -20,10 +36,32 @@ export class Victory extends Scene {
         totalScore?: number; 
         itemsByType?: Map<string, CollectedItemData[]>;
         totalItemsCollected?: number;
+        levelId?: string;
+        levelName?: string;
+        nextLevelId?: string | null;
+        time?: number;
+        isNewBestScore?: boolean;
+        isNewBestTime?: boolean;
+        isNewBestStars?: boolean;
+        parTime?: number | null;
+        stars?: number;
+        maxStars?: number;
+        isReplay?: boolean;
     }) {
         this.totalScore = data.totalScore || 0;
         this.itemsByType = data.itemsByType || new Map();
         this.totalItemsCollected = data.totalItemsCollected || 0;
+        this.levelId = data.levelId;
+        this.levelName = data.levelName;
+        this.nextLevelId = data.nextLevelId ?? null;
+        this.runTime = data.time || 0;
+        this.isNewBestScore = data.isNewBestScore ?? false;
+        this.isNewBestTime = data.isNewBestTime ?? false;
+        this.isNewBestStars = data.isNewBestStars ?? false;
+        this.parTime = data.parTime ?? null;
+        this.stars = data.stars ?? 0;
+        this.maxStars = data.maxStars ?? 0;
+        this.isReplay = data.isReplay ?? false;
     }
 
     create() {
@@ -39,6 +77,49 @@ export class Victory extends Scene {
         
         this.cameras.main.setBackgroundColor(0x4a90e2);
 
+        // Three buttons when there is a next level to continue with
+        const hasNextLevel = this.nextLevelId !== null;
+        let congratsMessage = 'Congratulations!';
+        if (this.levelName) {
+            congratsMessage = hasNextLevel ? `${this.levelName} cleared!` : `${this.levelName} cleared! All levels complete!`;
+        }
+
+        // Star rating, only for levels that define par time or star thresholds
+        const starsMessage = this.maxStars > 0 ? StarRating.format(this.stars, this.maxStars) : '';
+        const parMessage = this.parTime !== null ? `   •   Par: ${TimeFormatter.format(this.parTime)}` : '';
+
+        // Saved records for this level
+        let recordMessage = '';
+        let newRecordMessage = '';
+        if (this.isReplay) {
+            congratsMessage = `${this.levelName ?? 'Level'} replay finished`;
+            recordMessage = `⏱ Replay time: ${TimeFormatter.format(this.runTime)}${parMessage}`;
+        } else if (this.levelId) {
+            const record = SaveManager.getInstance().getLevelRecord(this.levelId);
+            const bestTime = record.bestTime !== null ? TimeFormatter.format(record.bestTime) : '--';
+            recordMessage = `⏱ ${TimeFormatter.format(this.runTime)}${parMessage}   •   Best score: ${record.bestScore}   •   Best time: ${bestTime}`;
+
+            if (this.isNewBestScore && this.isNewBestTime) {
+                newRecordMessage = '🎉 NEW RECORD! Best score & time 🎉';
+            } else if (this.isNewBestScore) {
+                newRecordMessage = '🎉 NEW BEST SCORE! 🎉';
+            } else if (this.isNewBestTime) {
+                newRecordMessage = '🎉 NEW BEST TIME! 🎉';
+            } else if (this.isNewBestStars) {
+                newRecordMessage = '🎉 NEW STAR RECORD! 🎉';
+            }
+        }
+
+        // Replay of the run that just finished (or of the replay that was watched)
+        const hasReplay = ReplayManager.getInstance().getLastReplay() !== null;
+        const replayButtonStyle = {
+            fontFamily: 'Arial Black',
+            fontSize: '20px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 4
+        };
+
         const uiConfig: UILayoutConfig = {
             baseWidth: 1024,
             baseHeight: 768,
@@ -69,7 +150,7 @@ export class Victory extends Scene {
                 },
                 congratsText: {
                     type: 'text',
-                    text: 'Congratulations!',
+                    text: congratsMessage,
                     position: { x: '50%', y: '25%' },
                     origin: { x: 0.5, y: 0.5 },
                     style: {
@@ -82,6 +163,22 @@ export class Victory extends Scene {
                     },
                     depth: 9
                 },
+                starsText: {
+                    type: 'text',
+                    text: starsMessage,
+                    position: { x: '50%', y: '30.5%' },
+                    origin: { x: 0.5, y: 0.5 },
+                    style: {
+                        fontFamily: 'Arial Black',
+                        fontSize: '36px',
+                        color: '#FFD700',
+                        stroke: '#000000',
+                        strokeThickness: 5,
+                        align: 'center'
+                    },
+                    depth: 9,
+                    visible: starsMessage !== ''
+                },
                 scoreLabel: {
                     type: 'text',
                     text: 'Final Score',
@@ -110,16 +207,66 @@ export class Victory extends Scene {
                     },
                     depth: 9
                 },
+                newRecordText: {
+                    type: 'text',
+                    text: newRecordMessage,
+                    position: { x: '50%', y: '48%' },
+                    origin: { x: 0.5, y: 0.5 },
+                    style: {
+                        fontFamily: 'Arial Black',
+                        fontSize: '24px',
+                        color: '#ff66cc',
+                        stroke: '#000000',
+                        strokeThickness: 4,
+                        align: 'center'
+                    },
+                    depth: 9,
+                    visible: newRecordMessage !== ''
+                },
+                recordText: {
+                    type: 'text',
+                    text: recordMessage,
+                    position: { x: '50%', y: '65%' },
+                    origin: { x: 0.5, y: 0.5 },
+                    style: {
+                        fontFamily: 'Arial',
+                        fontSize: '20px',
+                        color: '#ffffff',
+                        stroke: '#000000',
+                        strokeThickness: 3,
+                        align: 'center'
+                    },
+                    depth: 8,
+                    visible: recordMessage !== ''
+                },
                 itemsContainer: {
                     type: 'container',
                     position: { x: '50%', y: '55%' },
                     children: [],
                     depth: 5
                 },
+                nextLevelButton: {
+                    type: 'button',
+                    text: '▶ NEXT LEVEL',
+                    position: { x: '75%', y: '75%' },
+                    scale: 1,
+                    textStyle: {
+                        fontFamily: 'Arial Black',
+                        fontSize: '28px',
+                        color: '#ffffff',
+                        stroke: '#000000',
+                        strokeThickness: 5
+                    },
+                    onClick: () => this.nextLevel(),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 10,
+                    visible: hasNextLevel
+                },
                 playAgainButton: {
                     type: 'button',
                     text: '🎮 PLAY AGAIN',
-                    position: { x: '35%', y: '75%' },
+                    position: { x: hasNextLevel ? '25%' : '35%', y: '75%' },
                     scale: 1,
                     textStyle: {
                         fontFamily: 'Arial Black',
@@ -136,7 +283,7 @@ export class Victory extends Scene {
                 menuButton: {
                     type: 'button',
                     text: '🏠 MAIN MENU',
-                    position: { x: '65%', y: '75%' },
+                    position: { x: hasNextLevel ? '50%' : '65%', y: '75%' },
                     scale: 1,
                     textStyle: {
                         fontFamily: 'Arial Black',
@@ -150,9 +297,46 @@ export class Victory extends Scene {
                     clickScale: 0.95,
                     depth: 10
                 },
+                watchReplayButton: {
+                    type: 'button',
+                    text: '▶ WATCH REPLAY',
+                    position: { x: '25%', y: '82%' },
+                    scale: 1,
+                    textStyle: replayButtonStyle,
+                    onClick: () => this.watchReplay(),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 10,
+                    visible: hasReplay
+                },
+                exportReplayButton: {
+                    type: 'button',
+                    text: '💾 EXPORT REPLAY',
+                    position: { x: '50%', y: '82%' },
+                    scale: 1,
+                    textStyle: replayButtonStyle,
+                    onClick: () => this.exportReplay(),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 10,
+                    visible: hasReplay
+                },
+                importReplayButton: {
+                    type: 'button',
+                    text: '📂 IMPORT REPLAY',
+                    position: { x: '75%', y: '82%' },
+                    scale: 1,
+                    textStyle: replayButtonStyle,
+                    onClick: () => this.importReplay(),
+                    hoverScale: 1.1,
+                    clickScale: 0.95,
+                    depth: 10
+                },
                 instructions: {
                     type: 'text',
-                    text: 'Press SPACE to play again • ESC for main menu',
+                    text: hasNextLevel
+                        ? 'Press SPACE for next level • R to play again • ESC for main menu'
+                        : 'Press SPACE to play again • ESC for main menu',
                     position: { x: '50%', y: '88%' },
                     origin: { x: 0.5, y: 0.5 },
                     style: {
@@ -253,6 +437,33 @@ export class Victory extends Scene {
         // Display collected items
         this.displayCollectedItems();
 
+        if (starsMessage) {
+            this.uiManager.animateElement('starsText', {
+                scale: { from: 0, to: this.uiManager.getScale() },
+                alpha: { from: 0, to: 1 },
+                duration: 600,
+                delay: 500,
+                ease: 'Back.easeOut'
+            });
+        }
+
+        // Fade in saved records
+        this.uiManager.animateElement('recordText', {
+            alpha: { from: 0, to: 1 },
+            duration: 500,
+            delay: 900
+        });
+
+        if (newRecordMessage) {
+            this.uiManager.animateElement('newRecordText', {
+                scale: { from: 0, to: this.uiManager.getScale() },
+                alpha: { from: 0, to: 1 },
+                duration: 600,
+                delay: 1400,
+                ease: 'Elastic.easeOut'
+            });
+        }
+
         // Animate buttons fade in (no sliding)
         this.uiManager.animateElement('playAgainButton', {
             scale: { from: 0, to: this.uiManager.getScale() },
@@ -270,6 +481,24 @@ export class Victory extends Scene {
             ease: 'Back.easeOut'
         });
 
+        if (hasNextLevel) {
+            this.uiManager.animateElement('nextLevelButton', {
+                scale: { from: 0, to: this.uiManager.getScale() },
+                alpha: { from: 0, to: 1 },
+                duration: 400,
+                delay: 1200,
+                ease: 'Back.easeOut'
+            });
+        }
+
+        ['watchReplayButton', 'exportReplayButton', 'importReplayButton'].forEach((key, index) => {
+            this.uiManager.animateElement(key, {
+                alpha: { from: 0, to: 1 },
+                duration: 400,
+                delay: 1250 + index * 50
+            });
+        });
+
         // Fade in instructions
         this.uiManager.animateElement('instructions', {
             alpha: { from: 0, to: 1 },
@@ -296,7 +525,14 @@ export class Victory extends Scene {
 
         // Setup keyboard shortcuts
         const spaceKey = this.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE);
-        spaceKey?.once('down', () => this.playAgain());
+        if (hasNextLevel) {
+            spaceKey?.once('down', () => this.nextLevel());
+            
+            const rKey = this.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.R);
+            rKey?.once('down', () => this.playAgain());
+        } else {
+            spaceKey?.once('down', () => this.playAgain());
+        }
         
         const escKey = this.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.ESC);
         escKey?.once('down', () => this.returnToMenu());
@@ -458,6 +694,53 @@ export class Victory extends Scene {
     }
     
     private playAgain(): void {
+        this.startLevel(this.levelId);
+    }
+    
+    private nextLevel(): void {
+        if (!this.nextLevelId) return;
+        this.startLevel(this.nextLevelId);
+    }
+    
+    private watchReplay(): void {
+        const replay = ReplayManager.getInstance().getLastReplay();
+        if (replay) {
+            this.startLevel(replay.levelId, replay);
+        }
+    }
+
+    private exportReplay(): void {
+        const replay = ReplayManager.getInstance().getLastReplay();
+        if (replay) {
+            ReplayManager.getInstance().exportReplay(replay);
+        }
+    }
+
+    private importReplay(): void {
+        ReplayManager.getInstance().importReplay()
+            .then(replay => {
+                if (!replay) return;
+
+                if (!LevelManager.getInstance().hasLevel(replay.levelId)) {
+                    this.showReplayError(`Unknown level "${replay.levelId}"`);
+                    return;
+                }
+                this.startLevel(replay.levelId, replay);
+            })
+            .catch((error: Error) => {
+                console.error('[Victory] Failed to import replay:', error);
+                this.showReplayError(error.message);
+            });
+    }
+
+    private showReplayError(message: string): void {
+        this.uiManager.updateElement('instructions', {
+            type: 'text',
+            text: `⚠ ${message}`
+        });
+    }
+
+    private startLevel(levelId: string | undefined, replay?: ReplayData): void {
         // Emit scene change event
         eventBus.emit(GameEvent.SCENE_CHANGE, {
             from: 'Victory',
@@ -466,7 +749,7 @@ export class Victory extends Scene {
         
         // Re-add and start a fresh Game scene
         this.scene.add('Game', Game, false);
-        this.scene.start('Game');
+        this.scene.start('Game', { levelId, replay });
         this.scene.stop('Victory');
         
         // Clean up UI
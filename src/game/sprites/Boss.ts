@@ -0,0 +1,204 @@
+import { Scene } from 'phaser';
+import { Enemy, EnemyDamageCause } from './Enemy';
+import { BossArena } from './BossArena';
+import { GameObjectManager } from '../managers/GameObjectManager';
+import { Player } from './Player';
+
+interface BossPhase {
+    number: number;
+    healthThreshold: number;            // The phase starts once health drops to this value
+    properties: Map<string, any>;       // Enemy properties applied when the phase starts
+}
+
+/**
+ * Game scene state and callbacks a boss relies on
+ */
+export interface BossHooks {
+    readonly player?: Player;
+    handleBossEngaged(boss: Boss, arena: BossArena | null): void;
+    handleBossDefeated(boss: Boss): void;
+}
+
+/**
+ * Boss enemy (Tiled object of type "boss")
+ *
+ * A boss is an Enemy configured with the same properties, fought in phases.
+ * It stays dormant until the fight starts: when the player enters its arena,
+ * or, without an arena, when it first sees the player.
+ *
+ * Properties that can be configured in Tiled tilemap editor (on the boss object):
+ * - boss_name: (string) Name shown above the boss health bar (default: object name)
+ * - arena_uuid: (string) UUID of the arena object the fight takes place in
+ * - phase_N_health: (int) Health at or below which phase N starts (N >= 2)
+ * - phase_N_<property>: Any enemy property, applied when phase N starts
+ *   (e.g. phase_2_move_method, phase_2_fire_rate, phase_3_aim_mode)
+ */
+export class Boss extends Enemy {
+    private bossObject: Phaser.Types.Tilemaps.TiledObject;
+    private bossName: string;
+    private arenaUUID: string | null = null;
+    private phases: BossPhase[] = [];
+    private phaseIndex: number = -1;       // -1 before the first phase change
+    private engaged: boolean = false;
+    private hooks: BossHooks;
+
+    constructor(scene: Scene, bossObject: Phaser.Types.Tilemaps.TiledObject, hooks: BossHooks) {
+        super(scene, bossObject);
+
+        this.bossObject = bossObject;
+        this.hooks = hooks;
+        this.bossName = bossObject.name || 'Boss';
+        this.parsePhases((bossObject.properties as any[]) || []);
+
+        console.log(`[Boss] ${this.bossName} created with ${this.phases.length + 1} phases`);
+    }
+
+    private parsePhases(properties: any[]): void {
+        const phases = new Map<number, BossPhase>();
+        const getPhase = (number: number) => {
+            if (!phases.has(number)) {
+                phases.set(number, { number, healthThreshold: 0, properties: new Map() });
+            }
+            return phases.get(number)!;
+        };
+
+        properties.forEach(prop => {
+            if (prop.name === 'boss_name') {
+                this.bossName = prop.value;
+                return;
+            }
+            if (prop.name === 'arena_uuid') {
+                this.arenaUUID = prop.value || null;
+                return;
+            }
+
+            const match = /^phase_(\d+)_(.+)$/.exec(prop.name);
+            if (!match) return;
+
+            const phase = getPhase(parseInt(match[1]));
+            if (match[2] === 'health') {
+                phase.healthThreshold = prop.value;
+            } else {
+                phase.properties.set(match[2], prop.value);
+            }
+        });
+
+        // Phase 1 is the base configuration, its overrides apply right away
+        const firstPhase = phases.get(1);
+        if (firstPhase) {
+            firstPhase.properties.forEach((value, name) => this.setProperty(name, value));
+            this.rebuildBehavior();
+            phases.delete(1);
+        }
+
+        this.phases = Array.from(phases.values())
+            .filter(phase => phase.healthThreshold > 0)
+            .sort((a, b) => a.number - b.number);
+    }
+
+    update(time: number, delta: number): void {
+        if (!this.engaged && this.getHealth() > 0) {
+            this.checkEngagement();
+
+            // Wait for the fight to start
+            if (!this.engaged) {
+                if (this.body?.blocked.down) {
+                    this.setVelocityX(0);
+                }
+                return;
+            }
+        }
+
+        super.update(time, delta);
+    }
+
+    private checkEngagement(): void {
+        // The player may be created after the boss
+        if (!this.player) {
+            this.player = this.hooks.player ?? null;
+        }
+        if (!this.player || !this.player.active) return;
+
+        const arena = this.getArena();
+        const starts = arena ? arena.containsBody(this.player) : this.canSeePlayer(this.getDetectionRange());
+        if (starts) {
+            this.engaged = true;
+            this.hooks.handleBossEngaged(this, arena);
+        }
+    }
+
+    getArena(): BossArena | null {
+        if (!this.arenaUUID) return null;
+
+        const entry = GameObjectManager.getInstance().getObjectByUUID(this.arenaUUID);
+        return entry && entry.object instanceof BossArena ? entry.object : null;
+    }
+
+    takeDamage(damage: number, cause: EnemyDamageCause = 'bullet', sourceX?: number): boolean {
+        const hurt = super.takeDamage(damage, cause, sourceX);
+        if (hurt && this.getHealth() > 0) {
+            this.updatePhase();
+        }
+        return hurt;
+    }
+
+    private updatePhase(): void {
+        let nextIndex = this.phaseIndex;
+        while (nextIndex + 1 < this.phases.length && this.getHealth() <= this.phases[nextIndex + 1].healthThreshold) {
+            nextIndex++;
+        }
+        if (nextIndex === this.phaseIndex) return;
+
+        // Skipped phases still apply their changes, in order
+        for (let i = this.phaseIndex + 1; i <= nextIndex; i++) {
+            this.phases[i].properties.forEach((value, name) => this.setProperty(name, value));
+        }
+        this.phaseIndex = nextIndex;
+        this.rebuildBehavior();
+
+        // Phase change flourish
+        this.scene.cameras.main.shake(300, 0.01);
+        this.scene.tweens.add({
+            targets: this,
+            scaleX: this.scaleX * 1.2,
+            scaleY: this.scaleY * 1.2,
+            duration: 150,
+            yoyo: true,
+            repeat: 1
+        });
+    }
+
+    protected die(cause: EnemyDamageCause): void {
+        super.die(cause);
+        this.hooks.handleBossDefeated(this);
+    }
+
+    getBossName(): string {
+        return this.bossName;
+    }
+
+    /**
+     * Current phase number, starting at 1
+     */
+    getPhase(): number {
+        return this.phaseIndex < 0 ? 1 : this.phases[this.phaseIndex].number;
+    }
+
+    /**
+     * Health values at which the next phases start
+     */
+    getPhaseThresholds(): number[] {
+        return this.phases.map(phase => phase.healthThreshold);
+    }
+
+    isEngaged(): boolean {
+        return this.engaged;
+    }
+
+    /**
+     * The Tiled object the boss was created from, to recreate it when the fight is reset
+     */
+    getTiledObject(): Phaser.Types.Tilemaps.TiledObject {
+        return this.bossObject;
+    }
+}
@@ -0,0 +1,119 @@
+import { Scene } from 'phaser';
+
+// Thickness of the walls closing the sides of a locked arena
+const WALL_THICKNESS = 32;
+
+/**
+ * Area a boss fight takes place in (Tiled rectangle object of type "arena")
+ *
+ * A boss refers to its arena with its arena_uuid property. Once the player is
+ * fully inside, the arena locks: the camera is kept inside the rectangle and
+ * walls close its left and right sides until the boss is defeated.
+ *
+ * Properties that can be configured in Tiled tilemap editor:
+ * - close_exits: (bool) Close the sides with walls while locked (default: true)
+ * - camera_lock: (bool) Keep the camera inside the arena while locked (default: true)
+ */
+export class BossArena extends Phaser.GameObjects.Zone {
+    private closeExits: boolean = true;
+    private cameraLock: boolean = true;
+    private locked: boolean = false;
+    private walls: Phaser.GameObjects.Rectangle[] = [];
+    private wallColliders: Phaser.Physics.Arcade.Collider[] = [];
+    private previousCameraBounds: Phaser.Geom.Rectangle | null = null;
+
+    constructor(scene: Scene, arenaObject: Phaser.Types.Tilemaps.TiledObject) {
+        const x = arenaObject.x || 0;
+        const y = arenaObject.y || 0;
+        const width = arenaObject.width || 0;
+        const height = arenaObject.height || 0;
+
+        super(scene, x + width / 2, y + height / 2, width, height);
+        scene.add.existing(this);
+
+        const properties = (arenaObject.properties as any[]) || [];
+        properties.forEach(prop => {
+            if (prop.name === 'close_exits') {
+                this.closeExits = prop.value;
+            } else if (prop.name === 'camera_lock') {
+                this.cameraLock = prop.value;
+            }
+        });
+
+        console.log(`[BossArena] Created at (${x}, ${y}) size ${width}x${height}`);
+    }
+
+    /**
+     * Whether a body is completely inside the arena
+     */
+    containsBody(object: Phaser.GameObjects.GameObject): boolean {
+        const body = (object as any).body as Phaser.Physics.Arcade.Body | undefined;
+        if (!body) return false;
+
+        const bounds = this.getBounds();
+        return body.left >= bounds.left && body.right <= bounds.right &&
+            body.top >= bounds.top && body.bottom <= bounds.bottom;
+    }
+
+    /**
+     * Lock the camera to the arena and close its exits
+     * @param blocked Objects the walls stop (player, enemies)
+     */
+    lock(blocked: Phaser.Types.Physics.Arcade.ArcadeColliderType[]): void {
+        if (this.locked) return;
+        this.locked = true;
+
+        const bounds = this.getBounds();
+        const camera = this.scene.cameras.main;
+
+        if (this.cameraLock) {
+            this.previousCameraBounds = Phaser.Geom.Rectangle.Clone(camera.getBounds());
+            camera.setBounds(bounds.x, bounds.y, bounds.width, bounds.height);
+        }
+
+        if (this.closeExits) {
+            [bounds.left - WALL_THICKNESS / 2, bounds.right + WALL_THICKNESS / 2].forEach(wallX => {
+                const wall = this.scene.add.rectangle(wallX, bounds.centerY, WALL_THICKNESS, bounds.height, 0x552222, 0.8);
+                wall.setStrokeStyle(2, 0xff4444, 1);
+                this.scene.physics.add.existing(wall, true);
+                this.walls.push(wall);
+
+                wall.setAlpha(0);
+                this.scene.tweens.add({
+                    targets: wall,
+                    alpha: 0.8,
+                    duration: 300
+                });
+
+                blocked.forEach(target => {
+                    this.wallColliders.push(this.scene.physics.add.collider(target, wall));
+                });
+            });
+        }
+
+        this.scene.cameras.main.shake(200, 0.005);
+    }
+
+    /**
+     * Open the exits and give the camera back its previous bounds
+     */
+    unlock(): void {
+        if (!this.locked) return;
+        this.locked = false;
+
+        this.wallColliders.forEach(collider => collider.destroy());
+        this.wallColliders = [];
+        this.walls.forEach(wall => wall.destroy());
+        this.walls = [];
+
+        if (this.previousCameraBounds) {
+            const previous = this.previousCameraBounds;
+            this.scene.cameras.main.setBounds(previous.x, previous.y, previous.width, previous.height);
+            this.previousCameraBounds = null;
+        }
+    }
+
+    isLocked(): boolean {
+        return this.locked;
+    }
+}
@@ -1,52 +1,54 @@
 import Phaser from 'phaser';
 import { eventBus, GameEvent } from '../events/EventBus';
+import { WeaponDefinition, DEFAULT_WEAPON } from './Weapon';
 
+const DEFAULT_TEXTURE = 'bullet';
+
+/**
+ * Bullet fired by the player, configured by the weapon that fired it.
+ * Add it to the player's bullet group before calling launch(), the group resets its body.
+ */
 export class Bullet extends Phaser.Physics.Arcade.Sprite {
-    private horizontalSpeed: number = 500;
-    private gravity: number = 800;
+    private weapon: WeaponDefinition;
+    private horizontalSpeed: number;
     private bounceCount: number = 0;
-    private lifetime: number = 5000;
+    private pierceLeft: number;
+    private hitTargets: Set<Phaser.GameObjects.GameObject> = new Set();
     private createdTime: number;
     private direction: number;
+    private angleOffset: number;
+    private playerVelocity: { x: number, y: number };
     private minBounceVelocity: number = 250;
     private maxBounceVelocity: number = 350;
     private needsImmediateCheck: boolean = false;
     
-    constructor(scene: Phaser.Scene, x: number, y: number, direction: number, playerVelocity?: { x: number, y: number }) {
-        super(scene, x, y, 'bullet');
-
+    /**
+     * @param angle Angle in degrees from the firing direction (positive aims down)
+     */
+    constructor(scene: Phaser.Scene, x: number, y: number, direction: number, playerVelocity?: { x: number, y: number },
+        weapon: WeaponDefinition = DEFAULT_WEAPON, angle: number = 0) {
+        const textureKey = scene.textures.exists(weapon.texture) ? weapon.texture : Bullet.createDefaultTexture(scene);
+        
+        super(scene, x, y, textureKey);
         
         scene.add.existing(this);
         scene.physics.add.existing(this);
         
+        this.weapon = weapon;
         this.direction = direction;
+        this.angleOffset = angle;
+        this.playerVelocity = playerVelocity ?? { x: 0, y: 0 };
+        this.horizontalSpeed = weapon.speed * Math.cos(Phaser.Math.DegToRad(angle));
+        this.pierceLeft = weapon.pierce;
         
-        this.setCircle(8);
+        if (textureKey === DEFAULT_TEXTURE) {
+            this.setCircle(8);
+        }
         this.setScale(1.5);
         
-        this.setBounce(0, 0.6);
-        this.setGravityY(this.gravity);
-        
-        // Set horizontal velocity (combine bullet speed with player velocity)
-        const playerVx = playerVelocity?.x || 0;
-        const playerVy = playerVelocity?.y || 0;
-        this.setVelocityX(this.horizontalSpeed * direction + playerVx * 0.5);
-        // Add a portion of player's vertical velocity too
-        this.setVelocityY(playerVy * 0.3);
-        
         this.createdTime = scene.time.now;
         
-        // Create bullet texture if it doesn't exist
-        if (!scene.textures.exists('bullet')) {
-            const graphics = scene.add.graphics();
-            graphics.fillStyle(0xffff00, 1);
-            graphics.fillCircle(0, 0, 8);
-            graphics.generateTexture('bullet', 16, 16);
-            graphics.destroy();
-        }
-        this.setTexture('bullet');
-        
-        this.setTint(0xffff00);
+        this.setTint(weapon.tint);
         
         this.scene.tweens.add({
             targets: this,
@@ -58,6 +60,44 @@ export class Bullet extends Phaser.Physics.Arcade.Sprite {
         this.createTrailEffect();
     }
     
+    private static createDefaultTexture(scene: Phaser.Scene): string {
+        if (!scene.textures.exists(DEFAULT_TEXTURE)) {
+            // White so the weapon tint gives the color
+            const graphics = scene.add.graphics();
+            graphics.fillStyle(0xffffff, 1);
+            graphics.fillCircle(8, 8, 8);
+            graphics.generateTexture(DEFAULT_TEXTURE, 16, 16);
+            graphics.destroy();
+        }
+        return DEFAULT_TEXTURE;
+    }
+    
+    /**
+     * Set the bullet flying, once it has been added to the bullet group
+     */
+    launch(): void {
+        const body = this.body as Phaser.Physics.Arcade.Body;
+        
+        // The weapon's gravity replaces the world gravity
+        if (this.weapon.gravity > 0) {
+            body.setAllowGravity(true);
+            body.setGravityY(this.weapon.gravity - this.scene.physics.world.gravity.y);
+        } else {
+            body.setAllowGravity(false);
+            // Straight bullets that may bounce ricochet off walls
+            if (this.weapon.bounces !== 0) {
+                body.setBounce(1, 1);
+            }
+        }
+        
+        // Combine bullet speed with a portion of the player's velocity
+        const angle = Phaser.Math.DegToRad(this.angleOffset);
+        body.setVelocity(
+            this.horizontalSpeed * this.direction + this.playerVelocity.x * 0.5,
+            this.weapon.speed * Math.sin(angle) + this.playerVelocity.y * 0.3
+        );
+    }
+    
     private createTrailEffect(): void {
         const trailInterval = this.scene.time.addEvent({
             delay: 30,
@@ -71,7 +111,7 @@ export class Bullet extends Phaser.Physics.Arcade.Sprite {
                     this.x,
                     this.y,
                     5,
-                    0xffff00,
+                    this.weapon.tint,
                     0.6
                 );
                 
@@ -90,11 +130,28 @@ export class Bullet extends Phaser.Physics.Arcade.Sprite {
     }
     
     update(): void {
-        if (this.scene.time.now - this.createdTime > this.lifetime) {
+        if (this.scene.time.now - this.createdTime > this.weapon.lifetime) {
             this.destroyBullet();
             return;
         }
         
+        if (this.weapon.gravity > 0) {
+            this.updateArcing();
+        } else {
+            this.updateStraight();
+        }
+        
+        const velocity = this.body?.velocity;
+        if (velocity) {
+            const angle = Math.atan2(velocity.y, velocity.x);
+            this.setRotation(angle);
+        }
+    }
+    
+    /**
+     * Bullets with gravity bounce along the floor and break on walls
+     */
+    private updateArcing(): void {
         // Maintain horizontal speed
         const currentVx = this.body?.velocity.x || 0;
         if (Math.abs(currentVx) < this.horizontalSpeed * 0.9) {
@@ -103,6 +160,10 @@ export class Bullet extends Phaser.Physics.Arcade.Sprite {
         
         if (this.body?.blocked.down || this.body?.blocked.up) {
             this.bounceCount++;
+            if (this.hasBouncedTooOften()) {
+                this.destroyBullet();
+                return;
+            }
             
             if (this.body.blocked.down) {
                 // Calculate bounce velocity based on current falling speed
@@ -138,29 +199,39 @@ export class Bullet extends Phaser.Physics.Arcade.Sprite {
         if (this.body?.blocked.left || this.body?.blocked.right) {
             this.destroyBullet();
         }
+    }
+    
+    /**
+     * Bullets without gravity fly straight and ricochet while they have bounces left
+     */
+    private updateStraight(): void {
+        if (!this.body || this.body.blocked.none) return;
         
-        const velocity = this.body?.velocity;
-        if (velocity) {
-            const angle = Math.atan2(velocity.y, velocity.x);
-            this.setRotation(angle);
+        this.bounceCount++;
+        if (this.hasBouncedTooOften()) {
+            this.destroyBullet();
         }
     }
     
+    private hasBouncedTooOften(): boolean {
+        return this.weapon.bounces >= 0 && this.bounceCount > this.weapon.bounces;
+    }
+    
     destroyBullet(): void {
         for (let i = 0; i < 8; i++) {
             const particle = this.scene.add.circle(
-                this.x + Phaser.Math.Between(-5, 5),
-                this.y + Phaser.Math.Between(-5, 5),
-                Phaser.Math.Between(1, 3),
-                0xffff00,
+                this.x + Phaser.Math.RND.between(-5, 5),
+                this.y + Phaser.Math.RND.between(-5, 5),
+                Phaser.Math.RND.between(1, 3),
+                this.weapon.tint,
                 1
             );
             
             this.scene.physics.add.existing(particle);
             const body = particle.body as Phaser.Physics.Arcade.Body;
             body.setVelocity(
-                Phaser.Math.Between(-100, 100),
-                Phaser.Math.Between(-100, 100)
+                Phaser.Math.RND.between(-100, 100),
+                Phaser.Math.RND.between(-100, 100)
             );
             
             this.scene.tweens.add({
@@ -188,7 +259,11 @@ export class Bullet extends Phaser.Physics.Arcade.Sprite {
         this.destroy();
     }
     
-    hitEnemy(): void {
+    /**
+     * Break on whatever the bullet hit. Piercing bullets go through enemies
+     * (pass the enemy as target) until their pierce count is used up.
+     */
+    hitEnemy(target?: Phaser.GameObjects.GameObject): void {
         eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
             key: 'bullet_hit',
             volume: 0.4
@@ -196,20 +271,20 @@ export class Bullet extends Phaser.Physics.Arcade.Sprite {
         
         for (let i = 0; i < 12; i++) {
             const star = this.scene.add.star(
-                this.x + Phaser.Math.Between(-10, 10),
-                this.y + Phaser.Math.Between(-10, 10),
+                this.x + Phaser.Math.RND.between(-10, 10),
+                this.y + Phaser.Math.RND.between(-10, 10),
                 5,
                 2,
                 4,
-                0xffff00
+                this.weapon.tint
             );
-            star.setScale(Phaser.Math.FloatBetween(0.3, 0.8));
+            star.setScale(Phaser.Math.RND.realInRange(0.3, 0.8));
             
             this.scene.physics.add.existing(star);
             const body = star.body as Phaser.Physics.Arcade.Body;
             body.setVelocity(
-                Phaser.Math.Between(-200, 200),
-                Phaser.Math.Between(-200, 200)
+                Phaser.Math.RND.between(-200, 200),
+                Phaser.Math.RND.between(-200, 200)
             );
             
             this.scene.tweens.add({
@@ -224,9 +299,26 @@ export class Bullet extends Phaser.Physics.Arcade.Sprite {
             });
         }
         
+        if (target && this.pierceLeft > 0) {
+            this.pierceLeft--;
+            this.hitTargets.add(target);
+            return;
+        }
+        
         this.destroy();
     }
     
+    /**
+     * Whether a piercing bullet already went through this target
+     */
+    hasHit(target: Phaser.GameObjects.GameObject): boolean {
+        return this.hitTargets.has(target);
+    }
+    
+    getDamage(): number {
+        return this.weapon.damage;
+    }
+    
     setImmediateCollisionCheck(value: boolean): void {
         this.needsImmediateCheck = value;
     }
@@ -0,0 +1,127 @@
+import { Scene } from 'phaser';
+import { eventBus, GameEvent } from '../events/EventBus';
+import { AnimationManager } from '../managers/AnimationManager';
+
+/**
+ * Checkpoint sprite class
+ *
+ * Properties that can be configured in Tiled tilemap editor:
+ * - reset_items: (bool) When respawning here, restore collectibles and destructible
+ *   obstacles to the state they had when the checkpoint was activated (default: false,
+ *   collected items and destroyed obstacles stay gone)
+ */
+export class Checkpoint extends Phaser.Physics.Arcade.Sprite {
+    private checkpointName: string;
+    private activated: boolean = false;
+    private resetItems: boolean = false;
+    private animationManager: AnimationManager;
+
+    constructor(scene: Scene, checkpointObject: Phaser.Types.Tilemaps.TiledObject) {
+        const x = checkpointObject.x || 0;
+        const y = checkpointObject.y || 0;
+        const texture = checkpointObject.name || 'checkpoint';
+
+        super(scene, x, y - 32, texture);
+
+        scene.add.existing(this);
+        scene.physics.add.existing(this, true);
+
+        this.setOrigin(0.5, 0.5);
+        this.checkpointName = checkpointObject.name || 'checkpoint';
+        this.animationManager = AnimationManager.getInstance();
+
+        const properties = checkpointObject.properties as any[];
+        if (properties) {
+            const resetItemsProp = properties.find(prop => prop.name === 'reset_items');
+            this.resetItems = resetItemsProp?.value === true;
+        }
+
+        this.setSize(40, 56);
+        this.setOffset(12, 8);
+
+        if (this.body && typeof this.body.updateFromGameObject === 'function') {
+            (this.body as Phaser.Physics.Arcade.StaticBody).updateFromGameObject();
+        }
+
+        // Inactive checkpoints are dimmed until the player touches them
+        this.setAlpha(0.6);
+        this.playCheckpointAnimation('idle');
+    }
+
+    private playCheckpointAnimation(animName: string): void {
+        const atlasKey = this.checkpointName;
+
+        if (!this.animationManager.hasAnimation(atlasKey, animName)) {
+            this.animationManager.createAnimationsForAtlas(atlasKey);
+        }
+
+        if (this.animationManager.hasAnimation(atlasKey, animName)) {
+            this.animationManager.playAnimation(this, atlasKey, animName);
+        }
+    }
+
+    activate(): void {
+        if (this.activated) return;
+
+        this.activated = true;
+        this.setAlpha(1);
+        this.playCheckpointAnimation('active');
+
+        eventBus.emit(GameEvent.CHECKPOINT_ACTIVATE, {
+            checkpoint: this,
+            position: this.getRespawnPosition()
+        });
+
+        eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
+            key: 'checkpoint',
+            volume: 0.5
+        });
+
+        // Pop animation
+        this.scene.tweens.add({
+            targets: this,
+            scaleX: 1.2,
+            scaleY: 1.2,
+            duration: 150,
+            yoyo: true,
+            ease: 'Back.easeOut'
+        });
+
+        for (let i = 0; i < 8; i++) {
+            const angle = (Math.PI * 2 / 8) * i;
+            const particle = this.scene.add.circle(this.x, this.y, 4, 0x00ff88);
+
+            this.scene.tweens.add({
+                targets: particle,
+                x: this.x + Math.cos(angle) * 40,
+                y: this.y + Math.sin(angle) * 40,
+                alpha: 0,
+                duration: 600,
+                ease: 'Power2',
+                onComplete: () => {
+                    particle.destroy();
+                }
+            });
+        }
+    }
+
+    deactivate(): void {
+        if (!this.activated) return;
+
+        this.activated = false;
+        this.setAlpha(0.6);
+        this.playCheckpointAnimation('idle');
+    }
+
+    isActivated(): boolean {
+        return this.activated;
+    }
+
+    shouldResetItems(): boolean {
+        return this.resetItems;
+    }
+
+    getRespawnPosition(): { x: number; y: number } {
+        return { x: this.x, y: this.y };
+    }
+}
@@ -0,0 +1,44 @@
+import { Scene } from 'phaser';
+
+/**
+ * Area the player can climb (Tiled object of type "ladder", "vine" or "climbable")
+ *
+ * Drawn as a rectangle. Climbable tiles (tile property `climbable`) work the same way.
+ *
+ * Properties that can be configured in Tiled tilemap editor:
+ * - texture: (string) Texture repeated over the area (default: none, the area is invisible
+ *   and the art comes from the tile layers)
+ */
+export class Climbable extends Phaser.GameObjects.Zone {
+    private visual: Phaser.GameObjects.TileSprite | null = null;
+
+    constructor(scene: Scene, climbableObject: Phaser.Types.Tilemaps.TiledObject) {
+        const x = climbableObject.x || 0;
+        const y = climbableObject.y || 0;
+        const width = climbableObject.width || 64;
+        const height = climbableObject.height || 64;
+
+        super(scene, x + width / 2, y + height / 2, width, height);
+
+        scene.add.existing(this);
+
+        const texture = (climbableObject.properties as any[])?.find(prop => prop.name === 'texture')?.value;
+        if (texture && scene.textures.exists(texture)) {
+            this.visual = scene.add.tileSprite(this.x, this.y, width, height, texture);
+        }
+
+        console.log(`[Climbable] Created ${climbableObject.type} at (${x}, ${y}), size: ${width}x${height}`);
+    }
+
+    /**
+     * Whether a world point is inside the climbable area
+     */
+    containsPoint(worldX: number, worldY: number): boolean {
+        return this.active && this.getBounds().contains(worldX, worldY);
+    }
+
+    destroy(fromScene?: boolean): void {
+        this.visual?.destroy();
+        super.destroy(fromScene);
+    }
+}
@@ -1,6 +1,9 @@
 import { Scene } from 'phaser';
 import { eventBus, GameEvent } from '../events/EventBus';
 import { AnimationManager } from '../managers/AnimationManager';
+import { LevelManager } from '../managers/LevelManager';
+import { PowerUpManager, PowerUpEffect } from '../managers/PowerUpManager';
+import { Weapon, WeaponDefinition } from './Weapon';
 
 /**
  * Collectible sprite class
@@ -11,6 +14,14 @@ import { AnimationManager } from '../managers/AnimationManager';
  * - type: (string) Category for grouping items (e.g., "coin", "key", "gem", "powerup", etc.)
  * - rotate: (bool) Whether the item should rotate continuously
  * - particle_color: (string) Hex color for particle effects (e.g., "#FFD700")
+ * - power_up: (string) Effect applied to the player when collected: "double_jump", "shoot",
+ *   "speed", "invincibility", "extra_heart", "shield" or "bullet_cap"
+ * - duration: (int) Power-up duration in ms, 0 = permanent (default depends on the effect)
+ * - power_up_value: (float) Power-up strength: speed multiplier, hearts, shield hits or bullet cap
+ * - heal: (int) Hearts restored when collected
+ * - max_health: (int) Heart containers added when collected; the upgrade lasts for the rest of the level
+ * - weapon: (string) Weapon given to the player when collected (see WEAPON_PRESETS); the weapon
+ *   settings (ammo, damage, pierce, spread, ...) can be overridden on the pickup
  * 
  * If no type is specified, defaults to "misc"
  */
@@ -22,6 +33,11 @@ export class Collectible extends Phaser.Physics.Arcade.Sprite {
     private mustCollect: boolean = false;
     private shouldRotate: boolean = false;
     private particleColor: number = 0xFFFFFF;
+    private powerUp: PowerUpEffect | null = null;
+    private powerUpDuration?: number;
+    private powerUpValue?: number;
+    private heal: number = 0;
+    private maxHealthBonus: number = 0;
     private properties: any = {};
     private animationManager: AnimationManager;
 
@@ -56,7 +72,7 @@ export class Collectible extends Phaser.Physics.Arcade.Sprite {
         if (!gid) return;
         
         // Find the tileset that contains this gid
-        const tilemap = this.scene.cache.tilemap.get('tilemap');
+        const tilemap = this.scene.cache.tilemap.get(LevelManager.getInstance().getCurrentTilemapKey());
         if (!tilemap || !tilemap.data) return;
         
         const tilesetData = tilemap.data.tilesets;
@@ -68,20 +84,7 @@ export class Collectible extends Phaser.Physics.Arcade.Sprite {
                     const tileProperties = tileset.tiles[tileId].properties;
                     if (tileProperties) {
                         for (const prop of tileProperties) {
-                            this.properties[prop.name] = prop.value;
-                            
-                            // Set specific properties
-                            if (prop.name === 'score') {
-                                this.score = prop.value;
-                            } else if (prop.name === 'must_collect') {
-                                this.mustCollect = prop.value;
-                            } else if (prop.name === 'type') {
-                                this.collectibleType = prop.value;
-                            } else if (prop.name === 'rotate') {
-                                this.shouldRotate = prop.value;
-                            } else if (prop.name === 'particle_color') {
-                                this.particleColor = parseInt(prop.value.replace('#', '0x'));
-                            }
+                            this.setProperty(prop.name, prop.value);
                         }
                     }
                 }
@@ -92,22 +95,41 @@ export class Collectible extends Phaser.Physics.Arcade.Sprite {
         // Also check for properties directly on the object (these override tileset properties)
         if (collectibleObject.properties) {
             for (const prop of collectibleObject.properties) {
-                this.properties[prop.name] = prop.value;
-                
-                if (prop.name === 'score') {
-                    this.score = prop.value;
-                } else if (prop.name === 'must_collect') {
-                    this.mustCollect = prop.value;
-                } else if (prop.name === 'type') {
-                    this.collectibleType = prop.value;
-                } else if (prop.name === 'rotate') {
-                    this.shouldRotate = prop.value;
-                } else if (prop.name === 'particle_color') {
-                    this.particleColor = parseInt(prop.value.replace('#', '0x'));
-                }
+                this.setProperty(prop.name, prop.value);
             }
         }
     }
+    
+    private setProperty(name: string, value: any): void {
+        this.properties[name] = value;
+        
+        // Set specific properties
+        if (name === 'score') {
+            this.score = value;
+        } else if (name === 'must_collect') {
+            this.mustCollect = value;
+        } else if (name === 'type') {
+            this.collectibleType = value;
+        } else if (name === 'rotate') {
+            this.shouldRotate = value;
+        } else if (name === 'particle_color') {
+            this.particleColor = parseInt(value.replace('#', '0x'));
+        } else if (name === 'power_up') {
+            if (PowerUpManager.isPowerUpEffect(value)) {
+                this.powerUp = value;
+            } else {
+                console.warn(`[Collectible] Unknown power_up "${value}"`);
+            }
+        } else if (name === 'duration') {
+            this.powerUpDuration = value;
+        } else if (name === 'power_up_value') {
+            this.powerUpValue = value;
+        } else if (name === 'heal') {
+            this.heal = value;
+        } else if (name === 'max_health') {
+            this.maxHealthBonus = value;
+        }
+    }
 
 
     private tryPlayIdleAnimation(): void {
@@ -193,16 +215,16 @@ export class Collectible extends Phaser.Physics.Arcade.Sprite {
         for (let i = 0; i < 8; i++) {
             this.scene.time.delayedCall(i * 30, () => {
                 const particle = this.scene.add.circle(
-                    this.x + Phaser.Math.Between(-20, 20),
-                    this.y + Phaser.Math.Between(-20, 20),
+                    this.x + Phaser.Math.RND.between(-20, 20),
+                    this.y + Phaser.Math.RND.between(-20, 20),
                     3,
                     this.particleColor
                 );
                 
                 this.scene.tweens.add({
                     targets: particle,
-                    x: particle.x + Phaser.Math.Between(-30, 30),
-                    y: particle.y - Phaser.Math.Between(20, 40),
+                    x: particle.x + Phaser.Math.RND.between(-30, 30),
+                    y: particle.y - Phaser.Math.RND.between(20, 40),
                     alpha: 0,
                     duration: 600,
                     ease: 'Power2',
@@ -237,4 +259,42 @@ export class Collectible extends Phaser.Physics.Arcade.Sprite {
     getProperties(): any {
         return this.properties;
     }
+    
+    /**
+     * Power-up applied when collected, null for plain items
+     */
+    getPowerUp(): { effect: PowerUpEffect; duration?: number; value?: number } | null {
+        if (!this.powerUp) return null;
+        return { effect: this.powerUp, duration: this.powerUpDuration, value: this.powerUpValue };
+    }
+    
+    /**
+     * Hearts restored when collected
+     */
+    getHeal(): number {
+        return this.heal;
+    }
+    
+    /**
+     * Heart containers added when collected
+     */
+    getMaxHealthBonus(): number {
+        return this.maxHealthBonus;
+    }
+    
+    /**
+     * Upgrades stay for the rest of the level, so they must not come back when respawning at a checkpoint
+     */
+    isPermanentUpgrade(): boolean {
+        return this.maxHealthBonus > 0 || this.powerUp === 'extra_heart';
+    }
+    
+    /**
+     * Weapon given when collected, null for plain items
+     */
+    getWeapon(): WeaponDefinition | null {
+        const name = this.properties.weapon;
+        if (!name) return null;
+        return Weapon.create(name, Weapon.parseOverrides(this.properties));
+    }
 }
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { Scene } from 'phaser';
+import { eventBus, GameEvent } from '../events/EventBus';
+import { AnimationManager } from '../managers/AnimationManager';
+import { Switchable } from './Switchable';
+
+/**
+ * Solid door that opens when the player touches it holding the required items
+ *
+ * Properties that can be configured in Tiled tilemap editor:
+ * - requires: (string) Collectible name or type needed to open the door
+ *   (default: none, the door only opens through a trigger "switch" action)
+ * - count: (int) How many of the required items are needed (default: 1)
+ * - consume_key: (bool) Use up the required items when the door opens (default: false)
+ * - locked_text: (string) Dialog shown when the player touches the door without the items
+ */
+export class Door extends Phaser.Physics.Arcade.Sprite implements Switchable {
+    private doorName: string;
+    private requires: string = '';
+    private requiredCount: number = 1;
+    private consumeKey: boolean = false;
+    private lockedText: string = '';
+    private opened: boolean = false;
+    private closedY: number;
+    private lockIcon: Phaser.GameObjects.Image | null = null;
+    private lockedMessageTime: number = 0;
+    private animationManager: AnimationManager;
+
+    constructor(scene: Scene, doorObject: Phaser.Types.Tilemaps.TiledObject) {
+        const x = doorObject.x || 0;
+        const y = doorObject.y || 0;
+        const texture = doorObject.name || 'block_empty';
+
+        super(scene, x, y - 32, texture);
+
+        scene.add.existing(this);
+        scene.physics.add.existing(this, true);
+
+        this.setOrigin(0.5, 0.5);
+        this.doorName = doorObject.name || 'block_empty';
+        this.closedY = this.y;
+        this.animationManager = AnimationManager.getInstance();
+
+        const properties = (doorObject.properties as any[]) || [];
+        properties.forEach(prop => {
+            switch (prop.name) {
+                case 'requires':
+                    this.requires = prop.value;
+                    break;
+                case 'count':
+                    this.requiredCount = Math.max(1, prop.value);
+                    break;
+                case 'consume_key':
+                    this.consumeKey = prop.value === true;
+                    break;
+                case 'locked_text':
+                    this.lockedText = prop.value;
+                    break;
+            }
+        });
+
+        if (this.body && typeof this.body.updateFromGameObject === 'function') {
+            (this.body as Phaser.Physics.Arcade.StaticBody).updateFromGameObject();
+        }
+
+        // Show the required item above the door when it has a texture of that name
+        if (this.requires && scene.textures.exists(this.requires)) {
+            this.lockIcon = scene.add.image(this.x, this.y - this.displayHeight / 2 - 16, this.requires);
+            this.lockIcon.setScale(0.5);
+            this.lockIcon.setAlpha(0.8);
+        }
+
+        this.playDoorAnimation('closed');
+
+        console.log(`[Door] Created at (${x}, ${y}), requires: ${this.requires ? `${this.requiredCount}x ${this.requires}` : 'switch'}`);
+    }
+
+    private playDoorAnimation(animName: string): boolean {
+        const atlasKey = this.doorName;
+
+        if (!this.animationManager.hasAnimation(atlasKey, animName)) {
+            this.animationManager.createAnimationsForAtlas(atlasKey);
+        }
+
+        if (this.animationManager.hasAnimation(atlasKey, animName)) {
+            this.animationManager.playAnimation(this, atlasKey, animName);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Whether the door needs items to open (otherwise only switches open it)
+     */
+    isLocked(): boolean {
+        return this.requires !== '';
+    }
+
+    getRequires(): string {
+        return this.requires;
+    }
+
+    getRequiredCount(): number {
+        return this.requiredCount;
+    }
+
+    shouldConsumeKey(): boolean {
+        return this.consumeKey;
+    }
+
+    /**
+     * Text to show when the player bumps into the locked door, or null while
+     * the last one is still recent (the player keeps touching the door)
+     */
+    getLockedMessage(): string | null {
+        const now = this.scene.time.now;
+        if (now - this.lockedMessageTime < 3000) {
+            return null;
+        }
+        this.lockedMessageTime = now;
+
+        eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
+            key: 'door_locked',
+            volume: 0.5
+        });
+
+        return this.lockedText || `Requires ${this.requiredCount > 1 ? `${this.requiredCount}x ` : ''}${this.requires}`;
+    }
+
+    open(): void {
+        if (this.opened) return;
+
+        this.opened = true;
+        (this.body as Phaser.Physics.Arcade.StaticBody).enable = false;
+
+        this.lockIcon?.destroy();
+        this.lockIcon = null;
+
+        // An atlas "open" animation replaces the default slide
+        if (!this.playDoorAnimation('open')) {
+            this.scene.tweens.add({
+                targets: this,
+                y: this.closedY - this.displayHeight,
+                alpha: 0,
+                duration: 500,
+                ease: 'Power2'
+            });
+        }
+
+        eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
+            key: 'door_open',
+            volume: 0.6
+        });
+
+        eventBus.emit(GameEvent.DOOR_OPEN, {
+            door: this,
+            requires: this.requires
+        });
+    }
+
+    close(): void {
+        if (!this.opened) return;
+
+        this.opened = false;
+        this.scene.tweens.killTweensOf(this);
+        this.setPosition(this.x, this.closedY);
+        this.setAlpha(1);
+        this.playDoorAnimation('closed');
+
+        const body = this.body as Phaser.Physics.Arcade.StaticBody;
+        body.enable = true;
+        body.updateFromGameObject();
+    }
+
+    isOpen(): boolean {
+        return this.opened;
+    }
+
+    /**
+     * Used by the trigger "switch" action
+     */
+    isSwitchedOn(): boolean {
+        return this.opened;
+    }
+
+    setSwitchedOn(on: boolean): void {
+        if (on) {
+            this.open();
+        } else {
+            this.close();
+        }
+    }
+
+    destroy(fromScene?: boolean): void {
+        this.lockIcon?.destroy();
+        super.destroy(fromScene);
+    }
+}
@@ -1,13 +1,45 @@
 import { Scene } from 'phaser';
 import { eventBus, GameEvent } from '../events/EventBus';
 import { AnimationManager } from '../managers/AnimationManager';
+import { LevelManager } from '../managers/LevelManager';
+import { TileCollision } from '../utils/TileCollision';
+import { EnemyBehavior, EnemyBehaviorConfig, EnemyState, ENEMY_BEHAVIOR_PROPERTIES } from './EnemyBehavior';
+import { EnemyProjectile } from './EnemyProjectile';
+
+// Time in ms after a lunge before the enemy goes back to chasing
+const ATTACK_RECOVERY = 400;
+// How far above the enemy the player has to be for a chasing enemy to jump
+const CHASE_JUMP_HEIGHT = 50;
+// How quickly a stunned enemy slides to a stop after being knocked back
+const KNOCKBACK_FRICTION = 0.85;
+
+// Shortest flight time in seconds of an arcing shot, so close targets get a visible lob
+const MIN_ARC_TIME = 0.4;
+
+export type EnemyDamageCause = 'stomp' | 'bullet' | 'hazard';
+
+/**
+ * How a ranged enemy aims:
+ * - straight: horizontally towards the player's side
+ * - aimed: in a straight line at the player
+ * - arc: lobbed under gravity so it comes down on the player
+ */
+export type EnemyAimMode = 'straight' | 'aimed' | 'arc';
 
 /**
  * Generic Enemy sprite class
  * 
+ * Behavior is a state machine (idle, patrol, chase, attack, stunned, flee).
+ * move_method picks a preset for it, the behavior properties below override the preset.
+ * 
  * Properties that can be configured in Tiled tilemap editor:
  * - damage: (int) Damage dealt to player on contact
- * - move_method: (string) Movement pattern:
+ * - health: (int) Damage needed to defeat the enemy (default: 1)
+ * - armor: (int) Subtracted from the damage of every hit (default: 0)
+ * - stomp_immune: (bool) Can't be defeated by jumping on it; stomping it hurts the player
+ * - knockback: (int) Speed the enemy is knocked back with when hit (default: 200)
+ * - invulnerable_time: (int) Time in ms after a hit during which it can't be hurt (default: 500)
+ * - move_method: (string) Behavior preset:
  *   - "static": No movement
  *   - "patrol": Walk back and forth on ground
  *   - "jump": Jump in place without moving
@@ -18,27 +50,72 @@ import { AnimationManager } from '../managers/AnimationManager';
  * - move_speed: (int) Movement speed (default: 100)
  * - jump_power: (int) Jump strength (default: 400)
  * - patrol_distance: (int) Distance to patrol in pixels (default: 200)
- * - detection_range: (int) Range to detect player for follow mode (default: 300)
  * - jump_interval: (int) Time between jumps in milliseconds (default: 2000)
  * - death_particle_color: (string/hex) Color of death particles (default: "#ff0000")
+ * 
+ * Ranged attack properties (the enemy fires while idle, patrolling or chasing,
+ * whenever the player is within detection_range and in sight):
+ * - fire_rate: (int) Time between shots in milliseconds (default: 0 = doesn't shoot)
+ * - projectile_speed: (int) Projectile speed (default: 300)
+ * - aim_mode: (string) "straight", "aimed" or "arc" (default: "straight")
+ * - projectile_texture: (string) Texture key of the projectile (default: red ball)
+ * - projectile_damage: (int) Damage dealt to the player (default: 1)
+ * 
+ * Behavior properties (see EnemyBehaviorConfig):
+ * - initial_state: (string) "idle" or "patrol"
+ * - movement_style: (string) "walk" or "hop"
+ * - idle_jump, patrol_jump, chase_jump: (bool) Jump while idle / patrolling / chasing a player above
+ * - chase: (bool) Notice and chase the player
+ * - detection_range, lose_range: (int) Distance to notice / lose the player
+ * - line_of_sight: (bool) Tile layers block the view of the player (default: true)
+ * - give_up_time: (int) Time in ms out of sight before giving up the chase (default: 2000)
+ * - chase_speed, attack_speed, flee_speed: (int) Speeds while chasing / lunging / fleeing
+ * - attack_range, attack_cooldown, attack_windup: (int) Lunge attack while chasing
+ * - flee_health, flee_time: (int) Flee for flee_time ms when health drops to flee_health
+ * - stun_time: (int) Time in ms stunned after a hit that didn't defeat the enemy
  */
 export class Enemy extends Phaser.Physics.Arcade.Sprite {
     private enemyName: string;
     private damage: number = 1;
+    private health: number = 1;
+    private maxHealth: number = 1;
+    private armor: number = 0;
+    private stompImmune: boolean = false;
+    private knockback: number = 200;
+    private invulnerableTime: number = 500;
     private moveMethod: string = 'static';
     private moveSpeed: number = 100;
     private jumpPower: number = 400;
     private patrolDistance: number = 200;
-    private detectionRange: number = 300;
     private jumpInterval: number = 2000;
     private deathParticleColor: number = 0xff0000;  // Default red
+    private behavior: EnemyBehaviorConfig;
+    private behaviorOverrides: Partial<EnemyBehaviorConfig> = {};
+    
+    // Ranged attack
+    private fireRate: number = 0;
+    private projectileSpeed: number = 300;
+    private aimMode: EnemyAimMode = 'straight';
+    private projectileTexture?: string;
+    private projectileDamage: number = 1;
+    private lastFireTime: number = -Infinity;
     
     // Movement state
     private startX: number;
     private direction: number = 1; // 1 for right, -1 for left
     private lastJumpTime: number = 0;
     private isGrounded: boolean = false;
-    private player: any = null;
+    protected player: any = null;
+    
+    // Behavior state
+    private behaviorState: EnemyState = 'idle';
+    private stateTime: number = 0;          // Time in ms spent in the current state
+    private lostTime: number = 0;           // Time in ms the player has been out of sight during a chase
+    private lastKnownPlayerX: number = 0;
+    private lastAttackTime: number = -Infinity;
+    private hasLunged: boolean = false;
+    private isDying: boolean = false;
+    private invulnerableRemaining: number = 0;  // Time in ms left of the invulnerability after a hit
     
     // Animation state
     private currentAnimation: string = '';
@@ -75,19 +152,20 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
         
         // Extract properties from tilemap
         this.extractProperties(enemyObject);
+        this.behavior = EnemyBehavior.create(this.moveMethod, this.behaviorOverrides);
         
         // Try to play idle animation
         this.tryPlayIdleAnimation();
         
-        // Start initial movement
-        this.initializeMovement();
+        // Start in the initial state
+        this.changeState(this.behavior.initialState);
     }
     
     private extractProperties(enemyObject: Phaser.Types.Tilemaps.TiledObject): void {
         // Get properties from tileset
         const gid = enemyObject.gid;
         if (gid) {
-            const tilemap = this.scene.cache.tilemap.get('tilemap');
+            const tilemap = this.scene.cache.tilemap.get(LevelManager.getInstance().getCurrentTilemapKey());
             if (tilemap && tilemap.data) {
                 const tilesetData = tilemap.data.tilesets;
                 for (const tileset of tilesetData) {
@@ -115,11 +193,42 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
         }
     }
     
-    private setProperty(name: string, value: any): void {
+    protected setProperty(name: string, value: any): void {
         switch (name) {
             case 'damage':
                 this.damage = value;
                 break;
+            case 'health':
+                this.maxHealth = value;
+                this.health = value;
+                break;
+            case 'armor':
+                this.armor = value;
+                break;
+            case 'stomp_immune':
+                this.stompImmune = value;
+                break;
+            case 'knockback':
+                this.knockback = value;
+                break;
+            case 'invulnerable_time':
+                this.invulnerableTime = value;
+                break;
+            case 'fire_rate':
+                this.fireRate = value;
+                break;
+            case 'projectile_speed':
+                this.projectileSpeed = value;
+                break;
+            case 'aim_mode':
+                this.aimMode = value;
+                break;
+            case 'projectile_texture':
+                this.projectileTexture = value;
+                break;
+            case 'projectile_damage':
+                this.projectileDamage = value;
+                break;
             case 'move_method':
                 this.moveMethod = value;
                 break;
@@ -132,9 +241,6 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
             case 'patrol_distance':
                 this.patrolDistance = value;
                 break;
-            case 'detection_range':
-                this.detectionRange = value;
-                break;
             case 'jump_interval':
                 this.jumpInterval = value;
                 break;
@@ -149,32 +255,13 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
                     this.deathParticleColor = value;
                 }
                 break;
-        }
-    }
-    
-    
-    private initializeMovement(): void {
-        // Set initial movement based on move method
-        switch (this.moveMethod) {
-            case 'patrol':
-                this.setVelocityX(this.moveSpeed * this.direction);
-                this.playEnemyAnimation('walk');
-                break;
-            case 'jump':
-                this.playEnemyAnimation('idle');
-                break;
-            case 'move_and_jump':
-                this.playEnemyAnimation('idle');
-                break;
-            case 'patrol_jump':
-                this.setVelocityX(this.moveSpeed * this.direction);
-                this.playEnemyAnimation('walk');
-                break;
-            case 'static':
-            default:
-                this.setVelocityX(0);
-                this.playEnemyAnimation('idle');
+            default: {
+                const behaviorKey = ENEMY_BEHAVIOR_PROPERTIES[name];
+                if (behaviorKey) {
+                    (this.behaviorOverrides as any)[behaviorKey] = value;
+                }
                 break;
+            }
         }
     }
     
@@ -220,42 +307,52 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
         }
     }
     
-    update(time: number, _delta: number): void {
+    update(time: number, delta: number): void {
+        if (this.isDying) return;
+        
         // Check if grounded
         this.isGrounded = this.body?.blocked.down || false;
         
-        // Find player reference if needed
-        if (!this.player && (this.moveMethod === 'follow' || this.moveMethod === 'follow_jump')) {
+        // Find player reference
+        if (!this.player) {
             const gameScene = this.scene as any;
             this.player = gameScene.player;
         }
         
-        // Update movement based on method
-        switch (this.moveMethod) {
-            case 'patrol':
-                this.updatePatrol();
-                break;
-            case 'jump':
-                this.updateJump(time);
+        this.stateTime += delta;
+        
+        if (this.invulnerableRemaining > 0) {
+            this.invulnerableRemaining = Math.max(0, this.invulnerableRemaining - delta);
+            if (this.invulnerableRemaining === 0) {
+                this.setAlpha(1);
+            }
+        }
+        
+        switch (this.behaviorState) {
+            case 'idle':
+                this.updateIdle(time);
                 break;
-            case 'move_and_jump':
-                this.updateMoveAndJump(time);
+            case 'patrol':
+                this.updatePatrol(time);
                 break;
-            case 'patrol_jump':
-                this.updatePatrolJump(time);
+            case 'chase':
+                this.updateChase(time, delta);
                 break;
-            case 'follow':
-                this.updateFollow();
+            case 'attack':
+                this.updateAttack(time);
                 break;
-            case 'follow_jump':
-                this.updateFollowJump(time);
+            case 'stunned':
+                this.updateStunned();
                 break;
-            case 'static':
-            default:
-                // No movement
+            case 'flee':
+                this.updateFlee(time);
                 break;
         }
         
+        if (this.behaviorState === 'idle' || this.behaviorState === 'patrol' || this.behaviorState === 'chase') {
+            this.updateRangedAttack(time);
+        }
+        
         // Update sprite flip based on direction
         if (this.direction < 0) {
             this.setFlipX(true);
@@ -264,162 +361,467 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
         }
     }
     
-    private updatePatrol(): void {
-        // Check patrol boundaries
-        if (Math.abs(this.x - this.startX) >= this.patrolDistance / 2) {
-            this.direction *= -1;
-            this.setVelocityX(this.moveSpeed * this.direction);
+    private changeState(state: EnemyState): void {
+        this.behaviorState = state;
+        this.stateTime = 0;
+        
+        switch (state) {
+            case 'idle':
+                this.setVelocityX(0);
+                this.playEnemyAnimation('idle');
+                break;
+            case 'patrol':
+                if (this.behavior.movementStyle === 'walk') {
+                    this.setVelocityX(this.moveSpeed * this.direction);
+                    this.playEnemyAnimation('walk');
+                } else {
+                    this.playEnemyAnimation('idle');
+                }
+                break;
+            case 'chase':
+                this.lostTime = 0;
+                if (this.player) {
+                    this.lastKnownPlayerX = this.player.x;
+                }
+                break;
+            case 'attack':
+                this.hasLunged = false;
+                this.setVelocityX(0);
+                this.playEnemyAnimation('idle');
+                break;
+            case 'stunned':
+                this.playEnemyAnimation('hit');
+                break;
+        }
+    }
+    
+    /**
+     * Rebuild the behavior after properties were changed with setProperty.
+     * Chasing enemies keep chasing if the new behavior still chases, stunned ones finish their stun.
+     */
+    protected rebuildBehavior(): void {
+        this.behavior = EnemyBehavior.create(this.moveMethod, this.behaviorOverrides);
+        
+        if (this.behaviorState === 'stunned') return;
+        
+        const wasChasing = this.behaviorState === 'chase' || this.behaviorState === 'attack';
+        this.changeState(wasChasing && this.behavior.chase ? 'chase' : this.behavior.initialState);
+    }
+    
+    private returnToInitialState(): void {
+        this.changeState(this.behavior.initialState);
+    }
+    
+    /**
+     * Idle and patrolling enemies look out for the player
+     * @returns true when the player was noticed and the state changed
+     */
+    private checkForPlayer(): boolean {
+        if (!this.behavior.chase || !this.canSeePlayer(this.behavior.detectionRange)) {
+            return false;
+        }
+        
+        if (this.isHealthLow()) {
+            this.changeState('flee');
+        } else {
+            this.showAlert('!', '#ff3333');
+            this.changeState('chase');
+        }
+        return true;
+    }
+    
+    protected canSeePlayer(range: number): boolean {
+        if (!this.player || !this.player.active) {
+            return false;
+        }
+        
+        if (Phaser.Math.Distance.Between(this.x, this.y, this.player.x, this.player.y) > range) {
+            return false;
+        }
+        
+        if (!this.behavior.lineOfSight) {
+            return true;
+        }
+        
+        const layers = (this.scene as any).layers as Phaser.Tilemaps.TilemapLayer[] | undefined;
+        return !layers || TileCollision.hasLineOfSight(layers, this.x, this.y, this.player.x, this.player.y);
+    }
+    
+    private getLoseRange(): number {
+        return this.behavior.loseRange > 0 ? this.behavior.loseRange : this.behavior.detectionRange * 1.5;
+    }
+    
+    private isHealthLow(): boolean {
+        return this.behavior.fleeHealth > 0 && this.health <= this.behavior.fleeHealth;
+    }
+    
+    private updateIdle(time: number): void {
+        if (this.checkForPlayer()) return;
+        
+        if (this.behavior.idleJump) {
+            this.updateJump(time);
+        } else if (this.isGrounded) {
+            this.setVelocityX(0);
+            this.playEnemyAnimation('idle');
+        }
+    }
+    
+    private updatePatrol(time: number): void {
+        if (this.checkForPlayer()) return;
+        
+        // Turn around at the patrol boundaries (also heads back after a chase)
+        const halfDistance = this.patrolDistance / 2;
+        if (this.x >= this.startX + halfDistance && this.direction > 0) {
+            this.direction = -1;
+        } else if (this.x <= this.startX - halfDistance && this.direction < 0) {
+            this.direction = 1;
         }
         
         // Check for obstacles
         if (this.body?.blocked.left && this.direction < 0) {
             this.direction = 1;
-            this.setVelocityX(this.moveSpeed * this.direction);
         } else if (this.body?.blocked.right && this.direction > 0) {
             this.direction = -1;
-            this.setVelocityX(this.moveSpeed * this.direction);
         }
         
-        // Update animation
-        if (this.isGrounded && Math.abs(this.body?.velocity.x || 0) > 10) {
-            this.playEnemyAnimation('walk');
+        this.move(this.moveSpeed, time);
+        
+        if (this.behavior.patrolJump) {
+            this.jumpIfReady(time);
         }
     }
     
-    private updateJump(time: number): void {
-        // Jump in place - no horizontal movement
-        if (this.isGrounded && time - this.lastJumpTime > this.jumpInterval) {
-            this.setVelocityY(-this.jumpPower);
-            this.lastJumpTime = time;
-            this.playEnemyAnimation('jump');
+    private updateChase(time: number, delta: number): void {
+        if (this.canSeePlayer(this.getLoseRange())) {
+            this.lostTime = 0;
+            this.lastKnownPlayerX = this.player.x;
             
-            // Play jump sound through event
-            eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
-                key: `${this.enemyName}_jump`,
-                atlasKey: this.enemyName,
-                animationName: 'jump',
-                volume: 0.3
-            });
+            const distance = Phaser.Math.Distance.Between(this.x, this.y, this.player.x, this.player.y);
+            if (this.behavior.attackRange > 0 &&
+                distance <= this.behavior.attackRange &&
+                time - this.lastAttackTime >= this.behavior.attackCooldown) {
+                this.changeState('attack');
+                return;
+            }
+        } else {
+            this.lostTime += delta;
+            if (this.lostTime >= this.behavior.giveUpTime) {
+                this.showAlert('?', '#ffffff');
+                this.returnToInitialState();
+                return;
+            }
+        }
+        
+        // Head to where the player was last seen
+        const dx = this.lastKnownPlayerX - this.x;
+        if (Math.abs(dx) > 10) {
+            this.direction = Math.sign(dx);
+            this.move(this.behavior.chaseSpeed || this.moveSpeed, time);
         } else if (this.isGrounded) {
             this.setVelocityX(0);
             this.playEnemyAnimation('idle');
         }
-    }
-    
-    private updatePatrolJump(time: number): void {
-        // Walk and occasionally jump
-        this.updatePatrol();
         
-        // Add periodic jumps while walking
-        if (this.isGrounded && time - this.lastJumpTime > this.jumpInterval) {
-            this.setVelocityY(-this.jumpPower);
-            this.lastJumpTime = time;
-            this.playEnemyAnimation('jump');
-            
-            // Play jump sound through event
-            eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
-                key: `${this.enemyName}_jump`,
-                atlasKey: this.enemyName,
-                animationName: 'jump',
-                volume: 0.3
-            });
+        // Jump when player is above
+        if (this.behavior.chaseJump && this.player && this.player.y - this.y < -CHASE_JUMP_HEIGHT) {
+            this.jumpIfReady(time);
         }
     }
     
-    private updateMoveAndJump(time: number): void {
-        // Move forward by jumping (like a frog)
-        if (this.isGrounded && time - this.lastJumpTime > this.jumpInterval) {
-            // Check patrol boundaries
-            if (Math.abs(this.x - this.startX) >= this.patrolDistance / 2) {
-                this.direction *= -1;
+    private updateAttack(time: number): void {
+        if (!this.hasLunged) {
+            // Wind up standing still, then lunge at the player
+            if (this.isGrounded) {
+                this.setVelocityX(0);
             }
             
-            // Jump forward in current direction
-            this.setVelocity(this.moveSpeed * this.direction, -this.jumpPower);
-            this.lastJumpTime = time;
-            this.playEnemyAnimation('jump');
-            
-            // Play jump sound through event
-            eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
-                key: `${this.enemyName}_jump`,
-                atlasKey: this.enemyName,
-                animationName: 'jump',
-                volume: 0.3
-            });
-        } else if (this.isGrounded) {
-            // Stop horizontal movement when on ground (waiting to jump)
-            this.setVelocityX(0);
-            this.playEnemyAnimation('idle');
+            if (this.stateTime >= this.behavior.attackWindup) {
+                if (this.player) {
+                    this.direction = Math.sign(this.player.x - this.x) || this.direction;
+                }
+                this.setVelocityX(this.behavior.attackSpeed * this.direction);
+                this.hasLunged = true;
+                this.lastAttackTime = time;
+                this.playEnemyAnimation('attack');
+                
+                eventBus.emit(GameEvent.ENEMY_ATTACK, {
+                    enemy: this,
+                    target: this.player
+                });
+            }
+        } else if (this.stateTime >= this.behavior.attackWindup + ATTACK_RECOVERY) {
+            this.changeState('chase');
         }
     }
     
-    private updateFollow(): void {
-        if (!this.player) return;
+    private updateStunned(): void {
+        // Slide to a stop after the knockback
+        if (this.isGrounded && this.body) {
+            this.setVelocityX(this.body.velocity.x * KNOCKBACK_FRICTION);
+        }
         
-        const distance = Phaser.Math.Distance.Between(this.x, this.y, this.player.x, this.player.y);
+        if (this.stateTime < this.behavior.stunTime) return;
         
-        if (distance < this.detectionRange) {
-            // Move towards player
-            const dx = this.player.x - this.x;
-            this.direction = Math.sign(dx);
-            
-            if (Math.abs(dx) > 10) {
-                this.setVelocityX(this.moveSpeed * this.direction);
-                this.playEnemyAnimation('walk');
-            } else {
+        if (this.isHealthLow()) {
+            this.changeState('flee');
+        } else if (this.behavior.chase) {
+            // Being hit gives away where the player is
+            this.changeState('chase');
+        } else {
+            this.returnToInitialState();
+        }
+    }
+    
+    private updateFlee(time: number): void {
+        if (this.stateTime >= this.behavior.fleeTime) {
+            this.returnToInitialState();
+            return;
+        }
+        
+        if (this.player) {
+            this.direction = this.x < this.player.x ? -1 : 1;
+        }
+        this.move(this.behavior.fleeSpeed || this.moveSpeed * 1.5, time);
+    }
+    
+    private updateRangedAttack(time: number): void {
+        if (this.fireRate <= 0 || time - this.lastFireTime < this.fireRate) return;
+        if (!this.canSeePlayer(this.behavior.detectionRange)) return;
+        
+        this.lastFireTime = time;
+        this.fireProjectile();
+    }
+    
+    private fireProjectile(): void {
+        const gameScene = this.scene as any;
+        const projectiles = gameScene.enemyProjectiles as Phaser.Physics.Arcade.Group | undefined;
+        if (!projectiles) return;
+        
+        // Face the player and fire from the front of the body
+        this.direction = Math.sign(this.player.x - this.x) || this.direction;
+        const startX = this.x + this.direction * this.displayWidth * 0.4;
+        const startY = this.y;
+        
+        let velocityX = this.projectileSpeed * this.direction;
+        let velocityY = 0;
+        
+        if (this.aimMode === 'aimed') {
+            const angle = Phaser.Math.Angle.Between(startX, startY, this.player.x, this.player.y);
+            velocityX = Math.cos(angle) * this.projectileSpeed;
+            velocityY = Math.sin(angle) * this.projectileSpeed;
+        } else if (this.aimMode === 'arc') {
+            // Ballistic launch that reaches the player's position after the flight time
+            const gravity = this.scene.physics.world.gravity.y;
+            const dx = this.player.x - startX;
+            const dy = this.player.y - startY;
+            const flightTime = Math.max(Math.abs(dx) / this.projectileSpeed, MIN_ARC_TIME);
+            velocityX = dx / flightTime;
+            velocityY = dy / flightTime - 0.5 * gravity * flightTime;
+        }
+        
+        const projectile = new EnemyProjectile(this.scene, startX, startY, this.projectileTexture, this.projectileDamage);
+        projectiles.add(projectile);
+        projectile.launch(velocityX, velocityY, this.aimMode === 'arc');
+        
+        this.playEnemyAnimation('attack');
+        
+        eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
+            key: `${this.enemyName}_shoot`,
+            atlasKey: this.enemyName,
+            animationName: 'shoot',
+            volume: 0.4
+        });
+        
+        eventBus.emit(GameEvent.ENEMY_ATTACK, {
+            enemy: this,
+            target: this.player
+        });
+    }
+    
+    /**
+     * Move in the current direction, walking or hopping depending on the movement style
+     */
+    private move(speed: number, time: number): void {
+        if (this.behavior.movementStyle === 'hop') {
+            // Move forward by jumping (like a frog), waiting on the ground between jumps
+            if (this.isGrounded && time - this.lastJumpTime > this.jumpInterval) {
+                this.setVelocityX(speed * this.direction);
+                this.jump(time);
+            } else if (this.isGrounded) {
                 this.setVelocityX(0);
                 this.playEnemyAnimation('idle');
             }
-        } else {
-            // Stop when player is out of range
+            return;
+        }
+        
+        this.setVelocityX(speed * this.direction);
+        
+        if (this.isGrounded && Math.abs(this.body?.velocity.x || 0) > 10) {
+            this.playEnemyAnimation('walk');
+        }
+    }
+    
+    private updateJump(time: number): void {
+        // Jump in place - no horizontal movement
+        if (!this.jumpIfReady(time) && this.isGrounded) {
             this.setVelocityX(0);
             this.playEnemyAnimation('idle');
         }
     }
     
-    private updateFollowJump(time: number): void {
-        this.updateFollow();
+    private jumpIfReady(time: number): boolean {
+        if (this.isGrounded && time - this.lastJumpTime > this.jumpInterval) {
+            this.jump(time);
+            return true;
+        }
+        return false;
+    }
+    
+    private jump(time: number): void {
+        this.setVelocityY(-this.jumpPower);
+        this.lastJumpTime = time;
+        this.playEnemyAnimation('jump');
         
-        // Jump when player is above
-        if (this.player && this.isGrounded && time - this.lastJumpTime > this.jumpInterval) {
-            const dy = this.player.y - this.y;
-            if (dy < -50) {
-                this.setVelocityY(-this.jumpPower);
-                this.lastJumpTime = time;
-                this.playEnemyAnimation('jump');
-                
-                // Play jump sound through event
-                eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
-                    key: `${this.enemyName}_jump`,
-                    atlasKey: this.enemyName,
-                    animationName: 'jump',
-                    volume: 0.3
-                });
+        // Play jump sound through event
+        eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
+            key: `${this.enemyName}_jump`,
+            atlasKey: this.enemyName,
+            animationName: 'jump',
+            volume: 0.3
+        });
+    }
+    
+    /**
+     * Symbol popping up above the enemy ("!" when noticing the player, "?" when giving up)
+     */
+    private showAlert(symbol: string, color: string): void {
+        const alert = this.scene.add.text(this.x, this.y - this.displayHeight / 2 - 8, symbol, {
+            fontFamily: 'Arial Black',
+            fontSize: '28px',
+            color: color,
+            stroke: '#000000',
+            strokeThickness: 4
+        });
+        alert.setOrigin(0.5, 1);
+        alert.setDepth(this.depth + 1);
+        
+        this.scene.tweens.add({
+            targets: alert,
+            y: alert.y - 20,
+            alpha: { from: 1, to: 0 },
+            duration: 600,
+            delay: 400,
+            ease: 'Power2',
+            onComplete: () => {
+                alert.destroy();
             }
-        }
+        });
     }
     
     getDamage(): number {
         return this.damage;
     }
     
-    takeDamage(_damage: number): void {
-        // Play death sound effect through events
+    getDetectionRange(): number {
+        return this.behavior.detectionRange;
+    }
+    
+    getHealth(): number {
+        return this.health;
+    }
+    
+    getMaxHealth(): number {
+        return this.maxHealth;
+    }
+    
+    getBehaviorState(): EnemyState {
+        return this.behaviorState;
+    }
+    
+    isStompImmune(): boolean {
+        return this.stompImmune;
+    }
+    
+    isInvulnerable(): boolean {
+        return this.isDying || this.invulnerableRemaining > 0;
+    }
+    
+    /**
+     * Apply a hit to the enemy
+     * @param damage Damage before armor
+     * @param cause What hit the enemy, reported with ENEMY_DEATH
+     * @param sourceX World x the hit came from, the enemy is knocked back away from it
+     * @returns true if the hit hurt the enemy
+     */
+    takeDamage(damage: number, cause: EnemyDamageCause = 'bullet', sourceX?: number): boolean {
+        if (this.isInvulnerable()) return false;
+        
+        const actualDamage = Math.max(0, damage - this.armor);
+        if (actualDamage === 0) {
+            // Armor absorbed the whole hit
+            this.playHitSound();
+            this.showHitFlash(0xaaaaaa);
+            return false;
+        }
+        
+        this.health -= actualDamage;
+        if (this.health <= 0) {
+            this.die(cause);
+            return true;
+        }
+        
+        this.playHitSound();
+        this.changeState('stunned');
+        this.showHitFlash(0xff0000);
+        
+        // Knock back away from the hit
+        const knockbackDirection = sourceX !== undefined ? (Math.sign(this.x - sourceX) || -this.direction) : -this.direction;
+        this.setVelocity(knockbackDirection * this.knockback, -this.knockback * 0.5);
+        
+        this.invulnerableRemaining = this.invulnerableTime;
+        this.setAlpha(0.6);
+        return true;
+    }
+    
+    private playHitSound(): void {
         eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
-            key: `${this.enemyName}_die`,
+            key: `${this.enemyName}_hit`,
             atlasKey: this.enemyName,
-            animationName: 'die',
+            animationName: 'hit',
             volume: 0.6
         });
+    }
+    
+    private showHitFlash(color: number): void {
+        this.setTint(color);
         
-        // Also try hit sound as fallback
+        this.scene.time.delayedCall(100, () => {
+            if (this.active) {
+                this.clearTint();
+            }
+        });
+    }
+    
+    protected die(cause: EnemyDamageCause): void {
+        this.isDying = true;
+        this.setAlpha(1);
+        
+        eventBus.emit(GameEvent.ENEMY_DEATH, {
+            enemy: this,
+            cause: cause
+        });
+        
+        // Play death sound effect through events
         eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
-            key: `${this.enemyName}_hit`,
+            key: `${this.enemyName}_die`,
             atlasKey: this.enemyName,
-            animationName: 'hit',
+            animationName: 'die',
             volume: 0.6
         });
         
+        // Also try hit sound as fallback
+        this.playHitSound();
+        
         // Create death effects before destroying the enemy
         this.createDeathEffects();
         
@@ -466,8 +868,8 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
         
         for (let i = 0; i < particleCount; i++) {
             const angle = (Math.PI * 2 * i) / particleCount;
-            const speed = Phaser.Math.Between(100, 300);
-            const size = Phaser.Math.Between(2, 6);
+            const speed = Phaser.Math.RND.between(100, 300);
+            const size = Phaser.Math.RND.between(2, 6);
             const color = Phaser.Utils.Array.GetRandom(particleColors);
             
             // Create particle
@@ -505,8 +907,8 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
         for (let i = 0; i < 5; i++) {
             this.scene.time.delayedCall(i * 50, () => {
                 const star = this.scene.add.star(
-                    this.x + Phaser.Math.Between(-20, 20),
-                    this.y + Phaser.Math.Between(-20, 20),
+                    this.x + Phaser.Math.RND.between(-20, 20),
+                    this.y + Phaser.Math.RND.between(-20, 20),
                     5,
                     3,
                     6,
@@ -550,17 +952,17 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
         // Create "poof" smoke effect
         for (let i = 0; i < 8; i++) {
             const smoke = this.scene.add.circle(
-                this.x + Phaser.Math.Between(-10, 10),
-                this.y + Phaser.Math.Between(-10, 10),
-                Phaser.Math.Between(8, 15),
+                this.x + Phaser.Math.RND.between(-10, 10),
+                this.y + Phaser.Math.RND.between(-10, 10),
+                Phaser.Math.RND.between(8, 15),
                 0x888888,
                 0.6
             );
             
             this.scene.tweens.add({
                 targets: smoke,
-                x: smoke.x + Phaser.Math.Between(-30, 30),
-                y: smoke.y - Phaser.Math.Between(10, 40),
+                x: smoke.x + Phaser.Math.RND.between(-30, 30),
+                y: smoke.y - Phaser.Math.RND.between(10, 40),
                 scale: { from: 1, to: 2 },
                 alpha: { from: 0.6, to: 0 },
                 duration: 600,
@@ -0,0 +1,106 @@
+export type EnemyState = 'idle' | 'patrol' | 'chase' | 'attack' | 'stunned' | 'flee';
+
+/**
+ * How an enemy gets around while patrolling, chasing or fleeing:
+ * walking along the ground or hopping (like a frog)
+ */
+export type EnemyMovementStyle = 'walk' | 'hop';
+
+/**
+ * Behavior state machine settings of an enemy
+ */
+export interface EnemyBehaviorConfig {
+    initialState: 'idle' | 'patrol';   // State the enemy starts in and returns to
+    movementStyle: EnemyMovementStyle;
+    idleJump: boolean;                 // Jump in place every jump_interval while idle
+    patrolJump: boolean;               // Jump every jump_interval while walking a patrol
+    chase: boolean;                    // Notice the player and chase them
+    chaseJump: boolean;                // Jump while chasing when the player is above
+    detectionRange: number;            // Distance at which the player is noticed
+    loseRange: number;                 // Distance at which the player is lost (0 = 1.5x detection range)
+    lineOfSight: boolean;              // Tile layers block the view of the player
+    giveUpTime: number;                // Time in ms the player can stay out of sight before the chase ends
+    chaseSpeed: number;                // Speed while chasing (0 = move_speed)
+    attackRange: number;               // Distance at which a chasing enemy attacks (0 = never)
+    attackCooldown: number;            // Time in ms between attacks
+    attackWindup: number;              // Time in ms the enemy stands still before lunging
+    attackSpeed: number;               // Lunge speed
+    fleeHealth: number;                // Health at or below which the enemy flees (0 = never)
+    fleeTime: number;                  // Time in ms spent fleeing
+    fleeSpeed: number;                 // Speed while fleeing (0 = 1.5x move_speed)
+    stunTime: number;                  // Time in ms the enemy is stunned after taking a hit
+}
+
+export const DEFAULT_ENEMY_BEHAVIOR: EnemyBehaviorConfig = {
+    initialState: 'idle',
+    movementStyle: 'walk',
+    idleJump: false,
+    patrolJump: false,
+    chase: false,
+    chaseJump: false,
+    detectionRange: 300,
+    loseRange: 0,
+    lineOfSight: true,
+    giveUpTime: 2000,
+    chaseSpeed: 0,
+    attackRange: 0,
+    attackCooldown: 1500,
+    attackWindup: 300,
+    attackSpeed: 300,
+    fleeHealth: 0,
+    fleeTime: 2000,
+    fleeSpeed: 0,
+    stunTime: 400
+};
+
+/**
+ * The original move methods, expressed as behavior settings.
+ * Individual settings set in Tiled override the preset.
+ */
+export const ENEMY_BEHAVIOR_PRESETS: { [moveMethod: string]: Partial<EnemyBehaviorConfig> } = {
+    static: {},
+    patrol: { initialState: 'patrol' },
+    jump: { idleJump: true },
+    move_and_jump: { initialState: 'patrol', movementStyle: 'hop' },
+    patrol_jump: { initialState: 'patrol', patrolJump: true },
+    follow: { chase: true, lineOfSight: false, giveUpTime: 0 },
+    follow_jump: { chase: true, chaseJump: true, lineOfSight: false, giveUpTime: 0 }
+};
+
+/**
+ * Tiled property name -> behavior setting
+ */
+export const ENEMY_BEHAVIOR_PROPERTIES: { [property: string]: keyof EnemyBehaviorConfig } = {
+    initial_state: 'initialState',
+    movement_style: 'movementStyle',
+    idle_jump: 'idleJump',
+    patrol_jump: 'patrolJump',
+    chase: 'chase',
+    chase_jump: 'chaseJump',
+    detection_range: 'detectionRange',
+    lose_range: 'loseRange',
+    line_of_sight: 'lineOfSight',
+    give_up_time: 'giveUpTime',
+    chase_speed: 'chaseSpeed',
+    attack_range: 'attackRange',
+    attack_cooldown: 'attackCooldown',
+    attack_windup: 'attackWindup',
+    attack_speed: 'attackSpeed',
+    flee_health: 'fleeHealth',
+    flee_time: 'fleeTime',
+    flee_speed: 'fleeSpeed',
+    stun_time: 'stunTime'
+};
+
+export class EnemyBehavior {
+    /**
+     * Build the behavior of an enemy from its move_method preset and individual overrides
+     */
+    static create(moveMethod: string, overrides: Partial<EnemyBehaviorConfig>): EnemyBehaviorConfig {
+        const preset = ENEMY_BEHAVIOR_PRESETS[moveMethod];
+        if (!preset) {
+            console.warn(`[EnemyBehavior] Unknown move_method "${moveMethod}", using "static"`);
+        }
+        return { ...DEFAULT_ENEMY_BEHAVIOR, ...(preset ?? {}), ...overrides };
+    }
+}
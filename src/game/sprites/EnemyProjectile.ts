@@ -0,0 +1,100 @@
+import Phaser from 'phaser';
+
+const DEFAULT_TEXTURE = 'enemy_projectile';
+
+/**
+ * Projectile fired by ranged enemies.
+ *
+ * Hurts the player on contact, breaks on tiles, obstacles and platforms, and
+ * can be shot down by the player's bullets. Add it to the scene's
+ * enemyProjectiles group before calling launch(), the group resets its body.
+ */
+export class EnemyProjectile extends Phaser.Physics.Arcade.Sprite {
+    private damage: number;
+    private lifetime: number = 4000;
+    private age: number = 0;
+
+    constructor(scene: Phaser.Scene, x: number, y: number, texture: string | undefined, damage: number) {
+        const textureKey = texture && scene.textures.exists(texture) ? texture : EnemyProjectile.createDefaultTexture(scene);
+
+        super(scene, x, y, textureKey);
+
+        scene.add.existing(this);
+        scene.physics.add.existing(this);
+
+        this.damage = damage;
+
+        if (textureKey === DEFAULT_TEXTURE) {
+            this.setCircle(6);
+        }
+    }
+
+    private static createDefaultTexture(scene: Phaser.Scene): string {
+        if (!scene.textures.exists(DEFAULT_TEXTURE)) {
+            const graphics = scene.add.graphics();
+            graphics.fillStyle(0xff3333, 1);
+            graphics.fillCircle(6, 6, 6);
+            graphics.fillStyle(0xffffff, 0.8);
+            graphics.fillCircle(4, 4, 2);
+            graphics.generateTexture(DEFAULT_TEXTURE, 12, 12);
+            graphics.destroy();
+        }
+        return DEFAULT_TEXTURE;
+    }
+
+    /**
+     * Set the projectile flying
+     * @param useGravity Fall with the world gravity (arcing shots)
+     */
+    launch(velocityX: number, velocityY: number, useGravity: boolean): void {
+        const body = this.body as Phaser.Physics.Arcade.Body;
+        body.setAllowGravity(useGravity);
+        body.setVelocity(velocityX, velocityY);
+        this.setRotation(Math.atan2(velocityY, velocityX));
+    }
+
+    update(_time: number, delta: number): void {
+        this.age += delta;
+        if (this.age > this.lifetime) {
+            this.destroyProjectile();
+            return;
+        }
+
+        const velocity = this.body?.velocity;
+        if (velocity && (velocity.x !== 0 || velocity.y !== 0)) {
+            this.setRotation(Math.atan2(velocity.y, velocity.x));
+        }
+    }
+
+    getDamage(): number {
+        return this.damage;
+    }
+
+    destroyProjectile(): void {
+        if (!this.active) return;
+
+        for (let i = 0; i < 6; i++) {
+            const particle = this.scene.add.circle(
+                this.x + Phaser.Math.RND.between(-4, 4),
+                this.y + Phaser.Math.RND.between(-4, 4),
+                Phaser.Math.RND.between(1, 3),
+                0xff6666,
+                1
+            );
+
+            this.scene.tweens.add({
+                targets: particle,
+                x: particle.x + Phaser.Math.RND.between(-20, 20),
+                y: particle.y + Phaser.Math.RND.between(-20, 20),
+                alpha: { from: 1, to: 0 },
+                scale: { from: 1, to: 0 },
+                duration: 300,
+                onComplete: () => {
+                    particle.destroy();
+                }
+            });
+        }
+
+        this.destroy();
+    }
+}
@@ -0,0 +1,82 @@
+import { Scene } from 'phaser';
+import { AnimationManager } from '../managers/AnimationManager';
+import { GhostRun, GHOST_TELEPORT_DISTANCE } from '../managers/GhostManager';
+
+/**
+ * Translucent replay of the best previous run on the current level.
+ * Purely visual: it has no physics body and does not interact with anything.
+ */
+export class Ghost extends Phaser.GameObjects.Sprite {
+    private run: GhostRun;
+    private sampleIndex: number = 0;
+    private currentAnimation: string = '';
+    private finished: boolean = false;
+
+    constructor(scene: Scene, run: GhostRun) {
+        const first = run.samples[0];
+        super(scene, first[1], first[2], run.atlasKey);
+
+        this.run = run;
+
+        scene.add.existing(this);
+        this.setScale(run.scaleX, run.scaleY);
+        this.setAlpha(0.4);
+        this.setTint(0x99ccff);
+
+        this.applySample(0);
+    }
+
+    /**
+     * Move the ghost to where the recorded run was at the given level time
+     */
+    updateGhost(levelTime: number): void {
+        if (this.finished) return;
+
+        const samples = this.run.samples;
+
+        // Advance to the last sample at or before the current time
+        while (this.sampleIndex < samples.length - 1 && samples[this.sampleIndex + 1][0] <= levelTime) {
+            this.sampleIndex++;
+        }
+
+        const current = samples[this.sampleIndex];
+        const next = samples[this.sampleIndex + 1];
+
+        // The recorded run is over: fade out at its final position
+        if (!next) {
+            this.finished = true;
+            this.applySample(this.sampleIndex);
+            this.scene.tweens.add({
+                targets: this,
+                alpha: 0,
+                duration: 500
+            });
+            return;
+        }
+
+        this.applySample(this.sampleIndex);
+
+        // Interpolate between samples unless the player teleported (respawn)
+        const distance = Phaser.Math.Distance.Between(current[1], current[2], next[1], next[2]);
+        if (distance < GHOST_TELEPORT_DISTANCE && next[0] > current[0]) {
+            const t = Phaser.Math.Clamp((levelTime - current[0]) / (next[0] - current[0]), 0, 1);
+            this.setPosition(
+                Phaser.Math.Linear(current[1], next[1], t),
+                Phaser.Math.Linear(current[2], next[2], t)
+            );
+        }
+    }
+
+    private applySample(index: number): void {
+        const [, x, y, animationIndex, flipX] = this.run.samples[index];
+        this.setPosition(x, y);
+        this.setFlipX(flipX === 1);
+
+        const animation = this.run.animations[animationIndex];
+        if (animation && animation !== this.currentAnimation) {
+            this.currentAnimation = animation;
+            // Played directly: the ANIMATION_PLAY event would also play the player's sounds
+            AnimationManager.getInstance().playAnimation(this, this.run.atlasKey, animation);
+        }
+    }
+}
@@ -93,16 +93,16 @@ export class Goal extends Phaser.Physics.Arcade.Sprite {
         for (let i = 0; i < 10; i++) {
             this.scene.time.delayedCall(i * 50, () => {
                 const particle = this.scene.add.circle(
-                    this.x + Phaser.Math.Between(-20, 20),
-                    this.y + Phaser.Math.Between(-20, 20),
+                    this.x + Phaser.Math.RND.between(-20, 20),
+                    this.y + Phaser.Math.RND.between(-20, 20),
                     3,
                     0x00ff00
                 );
                 
                 this.scene.tweens.add({
                     targets: particle,
-                    x: particle.x + Phaser.Math.Between(-50, 50),
-                    y: particle.y - Phaser.Math.Between(30, 60),
+                    x: particle.x + Phaser.Math.RND.between(-50, 50),
+                    y: particle.y - Phaser.Math.RND.between(30, 60),
                     alpha: 0,
                     duration: 800,
                     ease: 'Power2',
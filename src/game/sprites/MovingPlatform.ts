@@ -0,0 +1,205 @@
+import { Scene } from 'phaser';
+import { TileCollision } from '../utils/TileCollision';
+import { Switchable } from './Switchable';
+
+export type PlatformPathMode = 'loop' | 'ping_pong' | 'once';
+
+/**
+ * Platform following a Tiled polyline or polygon path.
+ *
+ * The path is relative to the platform: its first point is where the platform
+ * starts. Movement is driven by the Game scene each frame (updatePlatform) so it
+ * follows the deterministic frame delta, and bodies standing on the platform are
+ * moved along with it.
+ */
+export class MovingPlatform extends Phaser.GameObjects.TileSprite implements Switchable {
+    private points: Phaser.Math.Vector2[] = [];
+    private mode: PlatformPathMode;
+    private speed: number = 100;            // Default speed in px/s
+    private segmentSpeeds: number[] = [];   // Speed per segment (segment i goes from point i to i + 1)
+    private wait: number = 0;               // Default wait in ms when reaching a point
+    private pointWaits: number[] = [];      // Wait per point
+    private easing: string = 'Linear';
+    private easeFunction: (value: number) => number;
+    private startOnTouch: boolean = false;  // Stay still until something stands on it
+
+    private moving: boolean = true;
+    private fromIndex: number = 0;
+    private toIndex: number = 1;
+    private direction: 1 | -1 = 1;
+    private segmentElapsed: number = 0;
+    private waitRemaining: number = 0;
+
+    constructor(scene: Scene, platformObject: Phaser.Types.Tilemaps.TiledObject, pathObject?: Phaser.Types.Tilemaps.TiledObject) {
+        const properties = (platformObject.properties as any[]) || [];
+        const getValue = (name: string) => properties.find(prop => prop.name === name)?.value;
+
+        // A platform drawn as a polyline has no size of its own
+        const ownPath = platformObject.polyline || platformObject.polygon;
+        const width = ownPath ? (getValue('platform_width') ?? 192) : (platformObject.width || 192);
+        const height = ownPath ? (getValue('platform_height') ?? 32) : (platformObject.height || 32);
+
+        let { x, y } = TileCollision.getObjectCenter(platformObject, width, height);
+        if (ownPath) {
+            x = (platformObject.x || 0) + ownPath[0].x;
+            y = (platformObject.y || 0) + ownPath[0].y;
+        }
+
+        const texture = getValue('texture') ?? (scene.textures.exists(platformObject.name) ? platformObject.name : 'terrain_grass_block_top');
+        super(scene, x, y, width, height, texture);
+
+        scene.add.existing(this);
+        scene.physics.add.existing(this, true);
+
+        const path = pathObject ?? platformObject;
+        const pathPoints = path.polyline || path.polygon;
+        this.mode = getValue('mode') ?? (path.polygon ? 'loop' : 'ping_pong');
+        this.speed = getValue('speed') ?? this.speed;
+        this.segmentSpeeds = MovingPlatform.parseNumberList(getValue('speeds'));
+        this.wait = getValue('wait') ?? this.wait;
+        this.pointWaits = MovingPlatform.parseNumberList(getValue('waits'));
+        this.easing = getValue('easing') ?? this.easing;
+        this.easeFunction = Phaser.Tweens.Builders.GetEaseFunction(this.easing) as (value: number) => number;
+        this.startOnTouch = getValue('start_on_touch') ?? false;
+
+        // Offsets from the first point, applied to the starting position
+        if (pathPoints && pathPoints.length >= 2) {
+            const origin = pathPoints[0];
+            this.points = pathPoints.map(point => new Phaser.Math.Vector2(x + point.x - origin.x, y + point.y - origin.y));
+        } else {
+            console.warn(`[MovingPlatform] ${platformObject.name || 'platform'} has no path with at least two points`);
+            this.points = [new Phaser.Math.Vector2(x, y)];
+            this.moving = false;
+        }
+
+        this.moving = this.moving && !this.startOnTouch;
+        this.waitRemaining = this.getWaitAt(0);
+
+        console.log(`[MovingPlatform] Created at (${x}, ${y}) with ${this.points.length} points, mode: ${this.mode}`);
+    }
+
+    private static parseNumberList(value: unknown): number[] {
+        if (typeof value === 'number') {
+            return [value];
+        }
+        if (typeof value !== 'string' || value.trim() === '') {
+            return [];
+        }
+        return value.split(',').map(item => parseFloat(item.trim()));
+    }
+
+    private getSpeed(segment: number): number {
+        const speed = this.segmentSpeeds[segment];
+        return speed !== undefined && !isNaN(speed) && speed > 0 ? speed : this.speed;
+    }
+
+    private getWaitAt(pointIndex: number): number {
+        const wait = this.pointWaits[pointIndex];
+        return wait !== undefined && !isNaN(wait) ? wait : this.wait;
+    }
+
+    /**
+     * Advance along the path and carry the bodies standing on the platform
+     * @param delta Frame time in ms
+     * @param riders Objects that can ride the platform (player, boxes)
+     */
+    updatePlatform(delta: number, riders: Phaser.GameObjects.GameObject[]): void {
+        const standing = riders.filter(rider => this.isRiding(rider));
+
+        if (!this.moving) {
+            if (this.startOnTouch && standing.length > 0 && this.points.length >= 2) {
+                this.startOnTouch = false;
+                this.moving = true;
+            }
+            return;
+        }
+
+        if (this.waitRemaining > 0) {
+            this.waitRemaining -= delta;
+            return;
+        }
+
+        const from = this.points[this.fromIndex];
+        const to = this.points[this.toIndex];
+        const segment = this.direction === 1 ? this.fromIndex : this.toIndex;
+        const duration = Math.max(1, Phaser.Math.Distance.BetweenPoints(from, to) / this.getSpeed(segment) * 1000);
+
+        this.segmentElapsed += delta;
+        const progress = Math.min(this.segmentElapsed / duration, 1);
+        const eased = this.easeFunction(progress);
+
+        const newX = Phaser.Math.Linear(from.x, to.x, eased);
+        const newY = Phaser.Math.Linear(from.y, to.y, eased);
+        const dx = newX - this.x;
+        const dy = newY - this.y;
+
+        this.setPosition(newX, newY);
+        (this.body as Phaser.Physics.Arcade.StaticBody).updateFromGameObject();
+
+        standing.forEach(rider => {
+            const riderObject = rider as any;
+            riderObject.x += dx;
+            riderObject.y += dy;
+        });
+
+        if (progress >= 1) {
+            this.arriveAt(this.toIndex);
+        }
+    }
+
+    private arriveAt(pointIndex: number): void {
+        const lastIndex = this.points.length - 1;
+        this.segmentElapsed = 0;
+        this.waitRemaining = this.getWaitAt(pointIndex);
+        this.fromIndex = pointIndex;
+
+        switch (this.mode) {
+            case 'loop':
+                this.toIndex = (pointIndex + 1) % this.points.length;
+                break;
+            case 'ping_pong':
+                if ((this.direction === 1 && pointIndex === lastIndex) || (this.direction === -1 && pointIndex === 0)) {
+                    this.direction = this.direction === 1 ? -1 : 1;
+                }
+                this.toIndex = pointIndex + this.direction;
+                break;
+            case 'once':
+                if (pointIndex === lastIndex) {
+                    this.moving = false;
+                } else {
+                    this.toIndex = pointIndex + 1;
+                }
+                break;
+        }
+    }
+
+    /**
+     * Whether a body is standing on top of the platform
+     */
+    private isRiding(rider: Phaser.GameObjects.GameObject): boolean {
+        return TileCollision.isStandingOn(rider, this.body as Phaser.Physics.Arcade.StaticBody);
+    }
+
+    isMoving(): boolean {
+        return this.moving;
+    }
+
+    /**
+     * Start or stop moving along the path
+     */
+    setMoving(moving: boolean): void {
+        this.moving = moving && this.points.length >= 2;
+    }
+
+    /**
+     * Used by the trigger "switch" action and switches
+     */
+    isSwitchedOn(): boolean {
+        return this.moving;
+    }
+
+    setSwitchedOn(on: boolean): void {
+        this.startOnTouch = false;
+        this.setMoving(on);
+    }
+}
@@ -142,13 +142,13 @@ export class Obstacle extends Phaser.Physics.Arcade.Sprite {
         const cracks = Math.floor((1 - this.health / this.maxHealth) * 3) + 1;
         for (let i = 0; i < cracks; i++) {
             const crack = this.scene.add.rectangle(
-                this.x + Phaser.Math.Between(-20, 20),
-                this.y + Phaser.Math.Between(-20, 20),
-                Phaser.Math.Between(2, 5),
-                Phaser.Math.Between(10, 20),
+                this.x + Phaser.Math.RND.between(-20, 20),
+                this.y + Phaser.Math.RND.between(-20, 20),
+                Phaser.Math.RND.between(2, 5),
+                Phaser.Math.RND.between(10, 20),
                 0x333333
             );
-            crack.setAngle(Phaser.Math.Between(0, 360));
+            crack.setAngle(Phaser.Math.RND.between(0, 360));
             crack.setDepth(this.depth + 1);
             
             this.scene.time.delayedCall(500, () => {
@@ -164,7 +164,7 @@ export class Obstacle extends Phaser.Physics.Arcade.Sprite {
         
         this.isDestroyed = true;
         
-        this.createDestructionEffect();
+        Obstacle.createDestructionEffect(this.scene, this.x, this.y);
         
         eventBus.emit(GameEvent.OBSTACLE_DESTROYED, {
             x: this.x,
@@ -175,32 +175,35 @@ export class Obstacle extends Phaser.Physics.Arcade.Sprite {
         super.destroy();
     }
 
-    private createDestructionEffect(): void {
+    /**
+     * Debris, dust cloud and flash of a breaking block, also used by crumbling platforms
+     */
+    static createDestructionEffect(scene: Scene, x: number, y: number): void {
         const particleCount = 12;
         const colors = [0x8B4513, 0x654321, 0x7F6000, 0x4B3621];
         
         for (let i = 0; i < particleCount; i++) {
-            const size = Phaser.Math.Between(4, 8);
-            const particle = this.scene.add.rectangle(
-                this.x,
-                this.y,
+            const size = Phaser.Math.RND.between(4, 8);
+            const particle = scene.add.rectangle(
+                x,
+                y,
                 size,
                 size,
                 Phaser.Math.RND.pick(colors)
             );
             
             const angle = (Math.PI * 2 / particleCount) * i;
-            const speed = Phaser.Math.Between(100, 300);
+            const speed = Phaser.Math.RND.between(100, 300);
             const vx = Math.cos(angle) * speed;
-            const vy = Math.sin(angle) * speed - Phaser.Math.Between(50, 150);
+            const vy = Math.sin(angle) * speed - Phaser.Math.RND.between(50, 150);
             
-            this.scene.physics.add.existing(particle);
+            scene.physics.add.existing(particle);
             const body = particle.body as Phaser.Physics.Arcade.Body;
             body.setVelocity(vx, vy);
             body.setGravityY(500);
             body.setBounce(0.5, 0.5);
             
-            this.scene.tweens.add({
+            scene.tweens.add({
                 targets: particle,
                 alpha: 0,
                 scale: 0,
@@ -212,10 +215,10 @@ export class Obstacle extends Phaser.Physics.Arcade.Sprite {
             });
         }
         
-        const dustCloud = this.scene.add.circle(this.x, this.y, 40, 0x8B4513, 0.5);
+        const dustCloud = scene.add.circle(x, y, 40, 0x8B4513, 0.5);
         dustCloud.setDepth(100);
         
-        this.scene.tweens.add({
+        scene.tweens.add({
             targets: dustCloud,
             scale: { from: 0, to: 2 },
             alpha: { from: 0.5, to: 0 },
@@ -226,11 +229,11 @@ export class Obstacle extends Phaser.Physics.Arcade.Sprite {
             }
         });
         
-        // this.scene.cameras.main.shake(100, 0.005);
+        // scene.cameras.main.shake(100, 0.005);
         
-        const flash = this.scene.add.rectangle(
-            this.x,
-            this.y,
+        const flash = scene.add.rectangle(
+            x,
+            y,
             80,
             80,
             0xffffff,
@@ -238,7 +241,7 @@ export class Obstacle extends Phaser.Physics.Arcade.Sprite {
         );
         flash.setDepth(99);
         
-        this.scene.tweens.add({
+        scene.tweens.add({
             targets: flash,
             scale: { from: 0, to: 1.5 },
             alpha: { from: 0.8, to: 0 },
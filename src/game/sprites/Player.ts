@@ -1,23 +1,72 @@
 import Phaser from 'phaser';
 import { eventBus, GameEvent } from '../events/EventBus';
 import { Bullet } from './Bullet';
-import { MobileControls } from '../ui/MobileControls';
+import { Weapon, WeaponDefinition, DEFAULT_WEAPON } from './Weapon';
+import { InputState } from '../managers/InputManager';
+import { TileCollision, SurfaceProperties, DEFAULT_SURFACE } from '../utils/TileCollision';
 
-interface PlayerAbilities {
+export interface PlayerAbilities {
     canJump: boolean;
     canDoubleJump: boolean;
     canWallJump: boolean;
     canWallSlide: boolean;
     canChargeJump: boolean;
+    canClimb: boolean;
     canShoot: boolean;
     canMove: boolean;
 }
 
+export type PlayerAbility = keyof PlayerAbilities;
+
+/**
+ * A weapon the player carries, with the shots it has left (-1 = unlimited)
+ */
+export interface CarriedWeapon {
+    definition: WeaponDefinition;
+    ammo: number;
+}
+
+/**
+ * Game scene callbacks the player calls into
+ */
+export interface PlayerHooks {
+    damagePlayer(player: Player, damage: number, type: PlayerDamageType): void;  // Hurt the player and update the HUD
+    handlePlayerDeath(): void;  // Death animation is over: respawn or game over
+}
+
+export type PlayerDamageType = 'contact' | 'spike' | 'projectile' | 'fall' | 'crush';
+
+interface DamageRule {
+    invulnerableTime: number;   // Time in ms the player can't be hurt again after the hit
+    knockback: boolean;         // Push the player away from the hit
+    lethal: boolean;            // Takes all health, ignoring invulnerability, invincibility and shields
+}
+
+const DAMAGE_RULES: { [type in PlayerDamageType]: DamageRule } = {
+    contact: { invulnerableTime: 1600, knockback: true, lethal: false },
+    spike: { invulnerableTime: 1600, knockback: true, lethal: false },
+    projectile: { invulnerableTime: 1000, knockback: false, lethal: false },
+    fall: { invulnerableTime: 0, knockback: false, lethal: true },
+    crush: { invulnerableTime: 0, knockback: false, lethal: true }
+};
+
+// Time in ms the player has to be squeezed from both sides to be crushed
+const CRUSH_TIME = 150;
+
+// Time in ms horizontal input is ignored after a spring launches the player sideways
+const LAUNCH_CONTROL_LOCK = 300;
+
+// Analog Y needed to grab and climb a ladder or vine (same as ducking)
+const CLIMB_THRESHOLD = 0.5;
+
+// Tint colors the player cycles through while invincible
+const INVINCIBLE_TINTS = [0xff6666, 0xffff66, 0x66ff66, 0x66ffff, 0x6666ff, 0xff66ff];
+
 export class Player extends Phaser.Physics.Arcade.Sprite {
-    private cursors: Phaser.Types.Input.Keyboard.CursorKeys;
     private moveSpeed: number = 200;
     private jumpSpeed: number = 500;
     private currentAnimation: string = '';
+    private currentAnimationName: string = '';
     private key: string = '';
     
     // Ability configuration
@@ -27,6 +76,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         canWallJump: true,
         canWallSlide: true,
         canChargeJump: true,
+        canClimb: true,
         canShoot: true,
         canMove: true
     };
@@ -47,12 +97,30 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     private minChargeTime: number = 200;
     private chargeJumpMultiplier: number = 2;
     
+    // Climbing ladders and vines (the Game scene tells the player when it is on one)
+    private climbing: boolean = false;
+    private onClimbable: boolean = false;
+    private climbSpeed: number = 150;
+    
     // Health and damage
     private health: number = 3;
     private maxHealth: number = 3;
     private isInvulnerable: boolean = false;
     private knockbackTime: number = 0;
+    private crushTime: number = 0;
     private isDead: boolean = false;
+    private lives: number = 3;
+    
+    // Power-up state, changed through the ability API
+    private speedMultiplier: number = 1;
+    private invincible: boolean = false;
+    private invincibleTime: number = 0;
+    private shield: number = 0;
+    private shieldBubble: Phaser.GameObjects.Arc | null = null;
+    
+    // Floor the player last stood on (ice changes acceleration) and spring launches
+    private surface: SurfaceProperties = DEFAULT_SURFACE;
+    private launchLockTime: number = 0;
     
     // Terrain stuck detection
     private stuckCheckTimer: number = 0;
@@ -60,21 +128,21 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     private isFloatingUp: boolean = false;
     private floatUpSpeed: number = -200; // Speed to float up when stuck
     
+    // Dropping through one-way platforms
+    private dropThroughTime: number = 0;
+    private dropThroughDuration: number = 250;
+    private wasDucking: boolean = false;
+    
     // Shooting
-    private shootKey: Phaser.Input.Keyboard.Key;
     private canShoot: boolean = true;
-    private shootCooldown: number = 500;
-    private lastShootTime: number = 0;
+    private lastShootTime: number = -Infinity;
     private bullets: Phaser.Physics.Arcade.Group;
+    private weapons: CarriedWeapon[] = [{ definition: DEFAULT_WEAPON, ammo: -1 }];
+    private weaponIndex: number = 0;
     
-    // Mobile controls
-    private mobileControls: MobileControls | null = null;
-    private mobileJumpPressed: boolean = false;
-    private mobileShootPressed: boolean = false;
-    private mobileJumpJustPressed: boolean = false;
-    private mobileJumpJustReleased: boolean = false;
+    private hooks: PlayerHooks;
 
-    constructor(scene: Phaser.Scene, tiledObject: Phaser.Types.Tilemaps.TiledObject) {
+    constructor(scene: Phaser.Scene, tiledObject: Phaser.Types.Tilemaps.TiledObject, hooks: PlayerHooks) {
         let x = tiledObject.x ?? 0;
         let y = tiledObject.y ?? 0;
 
@@ -83,6 +151,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         super(scene, x, y, key);
 
         this.key = key;
+        this.hooks = hooks;
         
         // Read properties from tilemap
         const properties = tiledObject.properties as any[];
@@ -94,6 +163,12 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
                 this.health = this.maxHealth;
             }
             
+            // Lives configuration
+            const livesProp = properties.find(prop => prop.name === 'lives');
+            if (livesProp && livesProp.value > 0) {
+                this.lives = livesProp.value;
+            }
+            
             // Ability configuration
             this.parseAbilityProperties(properties);
         }
@@ -124,10 +199,6 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         // Player should not be pushable by other objects (e.g., movable boxes)
         this.setPushable(false);
         
-        this.cursors = scene.input.keyboard!.createCursorKeys();
-        
-        this.shootKey = scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.X);
-        
         this.bullets = scene.physics.add.group({
             classType: Bullet,
             runChildUpdate: true,
@@ -160,6 +231,9 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
                 case 'can_charge_jump':
                     this.abilities.canChargeJump = prop.value;
                     break;
+                case 'can_climb':
+                    this.abilities.canClimb = prop.value;
+                    break;
                 case 'can_shoot':
                     this.abilities.canShoot = prop.value;
                     break;
@@ -176,6 +250,13 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
                 case 'max_jumps':
                     this.maxJumps = prop.value;
                     break;
+                case 'climb_speed':
+                    this.climbSpeed = prop.value;
+                    break;
+                case 'weapon':
+                    // Starting weapon, never runs out
+                    this.weapons = [{ definition: Weapon.create(prop.value), ammo: -1 }];
+                    break;
             }
         });
     }
@@ -184,6 +265,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         const animKey = `${this.key}_${animName}`;
         if (this.currentAnimation !== animKey) {
             this.currentAnimation = animKey;
+            this.currentAnimationName = animName;
             
             // Emit animation play event - the AnimationManager will handle the actual animation
             eventBus.emit(GameEvent.ANIMATION_PLAY, {
@@ -194,43 +276,25 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         }
     }
     
-    setMobileControls(controls: MobileControls): void {
-        this.mobileControls = controls;
-        
-        // Setup jump callbacks
-        controls.setJumpCallbacks(
-            // On press
-            () => {
-                if (!this.mobileJumpPressed) {
-                    this.mobileJumpJustPressed = true;
-                    this.mobileJumpPressed = true;
-                }
-            },
-            // On release
-            (duration: number) => {
-                this.mobileJumpPressed = false;
-                this.mobileJumpJustReleased = true;
-            },
-            // On hold (for charge indicator)
-            (duration: number) => {
-                // Charging feedback handled in update
-            }
-        );
-        
-        // Setup shoot callbacks
-        controls.setShootCallbacks(
-            // On press
-            () => {
-                this.mobileShootPressed = true;
-            },
-            // On release
-            () => {
-                this.mobileShootPressed = false;
-            }
-        );
+    getAtlasKey(): string {
+        return this.key;
+    }
+
+    /**
+     * Name of the animation last requested through playAnimation (e.g. 'walk')
+     */
+    getAnimationName(): string {
+        return this.currentAnimationName;
+    }
+
+    /**
+     * Current charge jump progress (0..1), used for input device feedback
+     */
+    getChargePercent(): number {
+        return this.isCharging ? this.chargeTime / this.maxChargeTime : 0;
     }
 
-    update(): void {
+    update(input: InputState, delta: number): void {
         const velocity = this.body?.velocity;
         if (!velocity) return;
         
@@ -255,13 +319,26 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         // Check if player falls below the bottom boundary - trigger death
         if (this.y > worldBounds.bottom + this.height) {
             if (!this.isDead) { // Prevent multiple death triggers
-                this.handleDeath();
+                this.hooks.damagePlayer(this, this.health, 'fall');
+                return;
+            }
+        }
+        
+        // Squeezed between solid things (e.g. by a moving platform) - crushed
+        if (this.isSqueezed()) {
+            this.crushTime += delta;
+            if (this.crushTime >= CRUSH_TIME && !this.isDead) {
+                this.hooks.damagePlayer(this, this.health, 'crush');
                 return;
             }
+        } else {
+            this.crushTime = 0;
         }
 
         // Check if player is stuck in terrain
-        this.checkAndFixStuckInTerrain();
+        this.checkAndFixStuckInTerrain(delta);
+        
+        this.updatePowerUpVisuals(delta);
 
         const onGround = this.body?.blocked.down || false;
         const touchingLeft = this.body?.blocked.left || false;
@@ -272,12 +349,12 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         
         // Update wall jump cooldown
         if (this.wallJumpCooldown > 0) {
-            this.wallJumpCooldown -= this.scene.game.loop.delta;
+            this.wallJumpCooldown -= delta;
         }
         
         // Update knockback timer
         if (this.knockbackTime > 0) {
-            this.knockbackTime -= this.scene.game.loop.delta;
+            this.knockbackTime -= delta;
             // During knockback, prevent normal movement
             if (this.knockbackTime > 0) {
                 return; // Skip normal movement controls during knockback
@@ -289,22 +366,24 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
             this.jumpCount = 0;
         }
         
-        // Get mobile input if available
-        let mobileX = 0;
-        let mobileY = 0;
-        if (this.mobileControls) {
-            const joystickForce = this.mobileControls.getJoystickForce();
-            mobileX = joystickForce.x;
-            mobileY = joystickForce.y;
+        // A sideways spring launch carries the player for a moment
+        if (this.launchLockTime > 0) {
+            this.launchLockTime -= delta;
+        }
+        
+        // Ladders and vines take over movement and jumping while climbing
+        if (this.updateClimbing(input, onGround)) {
+            this.handleWeaponInput(input);
+            return;
         }
         
-        // Horizontal movement (keyboard or mobile)
-        if (this.abilities.canMove) {
-            const leftPressed = this.cursors.left.isDown || mobileX < -0.3;
-            const rightPressed = this.cursors.right.isDown || mobileX > 0.3;
+        // Horizontal movement (analog input scales the speed)
+        if (this.abilities.canMove && this.launchLockTime <= 0) {
+            const leftPressed = input.moveX < -0.3;
+            const rightPressed = input.moveX > 0.3;
             
             if (leftPressed) {
-                this.setVelocityX(-this.moveSpeed * (mobileX !== 0 ? Math.abs(mobileX) : 1));
+                this.setVelocityX(this.approachVelocityX(-this.getMoveSpeed() * Math.abs(input.moveX), delta));
                 this.setFlipX(true);
                 
                 if (onGround) {
@@ -315,10 +394,10 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
                 eventBus.emit(GameEvent.PLAYER_MOVE, {
                     player: this,
                     direction: 'left',
-                    velocity: -this.moveSpeed
+                    velocity: -this.getMoveSpeed()
                 });
             } else if (rightPressed) {
-                this.setVelocityX(this.moveSpeed * (mobileX !== 0 ? Math.abs(mobileX) : 1));
+                this.setVelocityX(this.approachVelocityX(this.getMoveSpeed() * Math.abs(input.moveX), delta));
                 this.setFlipX(false);
                 
                 if (onGround) {
@@ -329,18 +408,18 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
                 eventBus.emit(GameEvent.PLAYER_MOVE, {
                     player: this,
                     direction: 'right',
-                    velocity: this.moveSpeed
+                    velocity: this.getMoveSpeed()
                 });
             } else {
-                this.setVelocityX(0);
+                this.setVelocityX(this.approachVelocityX(0, delta));
                 if (onGround) {
                     this.playAnimation('idle');
                 }
             }
-        } else {
+        } else if (this.launchLockTime <= 0) {
             this.setVelocityX(0);
             
-            if (onGround && !this.cursors.down.isDown && !this.isCharging) {
+            if (onGround && !input.duck && !this.isCharging) {
                 this.playAnimation('idle');
                 
                 // Emit player idle event
@@ -350,19 +429,23 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
             }
         }
         
-        // Duck state (keyboard or mobile joystick down)
-        const isDucking = (this.cursors.down.isDown || mobileY > 0.5) && onGround;
+        // Pressing down on a one-way platform drops through it
+        if (this.dropThroughTime > 0) {
+            this.dropThroughTime -= delta;
+        }
+        const duckJustPressed = input.duck && !this.wasDucking;
+        this.wasDucking = input.duck;
+        if (duckJustPressed && onGround && this.isOnOneWayPlatform()) {
+            this.dropThroughTime = this.dropThroughDuration;
+        }
         
-        // Jump keys setup
-        const spaceKey = this.scene.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE);
-        const upKey = this.cursors.up;
+        // Duck state
+        const isDucking = input.duck && onGround && !this.isDroppingThrough();
         
-        // Check if either jump key is pressed (keyboard or mobile)
-        const jumpKeyPressed = spaceKey?.isDown || upKey.isDown || this.mobileJumpPressed;
-        const jumpKeyJustPressed = Phaser.Input.Keyboard.JustDown(spaceKey!) || Phaser.Input.Keyboard.JustDown(upKey) || 
-                                  this.mobileJumpJustPressed;
-        const jumpKeyJustReleased = Phaser.Input.Keyboard.JustUp(spaceKey!) || Phaser.Input.Keyboard.JustUp(upKey) || 
-                                   this.mobileJumpJustReleased;
+        // Jump action state
+        const jumpKeyPressed = input.jump.isDown;
+        const jumpKeyJustPressed = input.jump.justPressed;
+        const jumpKeyJustReleased = input.jump.justReleased;
         
         // Handle jump logic
         if (jumpKeyJustPressed && !this.isCharging) {
@@ -394,7 +477,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
                 this.jumpCount++;
                 this.playAnimation('jump');
             }
-            // Check if we should start charging (ducking + jump for both mobile and keyboard)
+            // Check if we should start charging (ducking + jump)
             else if (onGround && isDucking && this.abilities.canChargeJump) {
                 // Start charging when ducking
                 this.isCharging = true;
@@ -418,7 +501,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         
         // Continue charging if jump key is held while ducking
         if (this.isCharging && jumpKeyPressed && isDucking) {
-            this.chargeTime += this.scene.game.loop.delta;
+            this.chargeTime += delta;
             if (this.chargeTime > this.maxChargeTime) {
                 this.chargeTime = this.maxChargeTime;
             }
@@ -428,11 +511,6 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
             const tintValue = 0xffffff - Math.floor(chargePercent * 0x008888);
             this.setTint(tintValue);
             
-            // Update jump button visual for mobile
-            if (this.mobileControls) {
-                this.mobileControls.updateJumpButtonProgress(chargePercent);
-            }
-            
             // Keep showing duck animation if ducking
             if (isDucking && this.anims.currentAnim?.key !== 'duck') {
                 this.playAnimation('duck');
@@ -462,11 +540,6 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
             this.isCharging = false;
             this.chargeTime = 0;
             this.clearTint();
-            
-            // Reset button visual for mobile
-            if (this.mobileControls) {
-                this.mobileControls.updateJumpButtonProgress(0);
-            }
         }
         
         // Release charged jump when releasing jump key while charging
@@ -490,11 +563,6 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
             this.isCharging = false;
             this.chargeTime = 0;
             this.clearTint();
-            
-            // Reset button visual for mobile
-            if (this.mobileControls) {
-                this.mobileControls.updateJumpButtonProgress(0);
-            }
         }
         
         // Show duck animation when ducking and not charging
@@ -513,21 +581,111 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
             this.playAnimation('jump');
         }
         
-        // Shooting (keyboard or mobile)
-        const shootPressed = Phaser.Input.Keyboard.JustDown(this.shootKey) || 
-                            (this.mobileShootPressed && this.mobileControls && this.canShoot);
-        if (shootPressed && this.abilities.canShoot && this.canShoot) {
+        this.handleWeaponInput(input);
+    }
+    
+    private handleWeaponInput(input: InputState): void {
+        if (input.switchWeapon.justPressed && this.abilities.canShoot) {
+            this.cycleWeapon();
+        }
+        
+        // Shooting (one shot per press, the touch button repeats while held)
+        if (input.shoot.justPressed && this.abilities.canShoot && this.canShoot) {
             this.shoot();
         }
+    }
+    
+    /**
+     * Grab, climb and leave ladders and vines. Up grabs anywhere, Down only in the air,
+     * so on the ground Down still ducks, charges jumps and drops through one-way platforms.
+     * @returns Whether the player is climbing (the rest of the movement is skipped)
+     */
+    private updateClimbing(input: InputState, onGround: boolean): boolean {
+        const climbUp = input.moveY < -CLIMB_THRESHOLD;
+        const climbDown = input.moveY > CLIMB_THRESHOLD;
+        
+        if (!this.climbing) {
+            const grab = climbUp || (climbDown && !onGround);
+            if (!grab || !this.onClimbable || !this.abilities.canClimb || this.isCharging) {
+                return false;
+            }
+            this.startClimbing();
+        }
         
-        // Reset mobile input flags at end of frame
-        this.mobileJumpJustPressed = false;
-        this.mobileJumpJustReleased = false;
+        // Climbed or moved off the end of the ladder, or reached the ground going down
+        if (!this.onClimbable || (onGround && climbDown)) {
+            this.stopClimbing();
+            return false;
+        }
+        
+        // Holding Up keeps climbing, as some layouts put jump on the Up key too
+        if (input.jump.justPressed && !climbUp && this.abilities.canJump) {
+            this.stopClimbing();
+            
+            const jumpPower = this.jumpSpeed * 0.8;
+            this.setVelocityY(-jumpPower);
+            this.jumpCount = 1;
+            this.playAnimation('jump');
+            
+            eventBus.emit(GameEvent.PLAYER_JUMP, {
+                player: this,
+                velocity: -jumpPower
+            });
+            return true;
+        }
+        
+        // Ducking state is tracked here too, so letting go doesn't count as a new press
+        this.wasDucking = input.duck;
+        
+        const moveX = Math.abs(input.moveX) > 0.3 && this.abilities.canMove ? input.moveX : 0;
+        const moveY = climbUp || climbDown ? input.moveY : 0;
+        this.setVelocity(moveX * this.climbSpeed, moveY * this.climbSpeed);
+        
+        if (moveX !== 0) {
+            this.setFlipX(moveX < 0);
+        }
+        this.playAnimation(moveX !== 0 || moveY !== 0 ? 'climb' : 'climb_idle');
+        
+        return true;
+    }
+    
+    private startClimbing(): void {
+        this.climbing = true;
+        this.launchLockTime = 0;
+        this.jumpCount = 0;
+        (this.body as Phaser.Physics.Arcade.Body).setAllowGravity(false);
+        this.setVelocity(0, 0);
+    }
+    
+    private stopClimbing(): void {
+        if (!this.climbing) return;
+        
+        this.climbing = false;
+        (this.body as Phaser.Physics.Arcade.Body).setAllowGravity(true);
+    }
+    
+    /**
+     * Whether the player is on a ladder or vine, set by the Game scene every frame
+     */
+    setOnClimbable(onClimbable: boolean): void {
+        this.onClimbable = onClimbable;
+    }
+    
+    isClimbing(): boolean {
+        return this.climbing;
     }
     
     private shoot(): void {
+        const carried = this.weapons[this.weaponIndex];
+        const weapon = carried.definition;
+        
         const currentTime = this.scene.time.now;
-        if (currentTime - this.lastShootTime < this.shootCooldown) {
+        if (currentTime - this.lastShootTime < weapon.cooldown) {
+            return;
+        }
+        
+        // Every bullet allowed by the bullet cap is already flying
+        if (this.bullets.isFull()) {
             return;
         }
         
@@ -535,7 +693,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         this.canShoot = false;
         
         // Reset canShoot after cooldown
-        this.scene.time.delayedCall(this.shootCooldown, () => {
+        this.scene.time.delayedCall(weapon.cooldown, () => {
             this.canShoot = true;
         });
         
@@ -554,11 +712,25 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
             y: this.body?.velocity.y || 0
         };
         
-        const bullet = new Bullet(this.scene, bulletX, bulletY, direction, playerVelocity);
-        this.bullets.add(bullet);
+        // Multishot weapons fan their bullets out over the spread angle
+        for (let i = 0; i < weapon.projectiles; i++) {
+            if (this.bullets.isFull()) break;
+            
+            const angle = weapon.projectiles > 1 ? -weapon.spread / 2 + weapon.spread * i / (weapon.projectiles - 1) : 0;
+            const bullet = new Bullet(this.scene, bulletX, bulletY, direction, playerVelocity, weapon, angle);
+            this.bullets.add(bullet);
+            bullet.launch();
+            
+            // Check immediate collision with obstacles after bullet creation
+            bullet.setImmediateCollisionCheck(true);
+        }
         
-        // Check immediate collision with obstacles after bullet creation
-        bullet.setImmediateCollisionCheck(true);
+        if (carried.ammo > 0) {
+            carried.ammo--;
+            if (carried.ammo === 0) {
+                this.removeWeapon(this.weaponIndex);
+            }
+        }
         
         eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
             key: 'player_shoot',
@@ -571,20 +743,97 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     getBullets(): Phaser.Physics.Arcade.Group {
         return this.bullets;
     }
+    
+    getCurrentWeapon(): WeaponDefinition {
+        return this.weapons[this.weaponIndex].definition;
+    }
+    
+    /**
+     * Shots left with the current weapon (-1 = unlimited)
+     */
+    getAmmo(): number {
+        return this.weapons[this.weaponIndex].ammo;
+    }
+    
+    getWeapons(): CarriedWeapon[] {
+        return this.weapons;
+    }
+    
+    /**
+     * Pick up a weapon and switch to it. Picking up a weapon the player already
+     * carries adds its ammo instead.
+     * @param ammo Shots the pickup gives (default: the weapon's ammo, -1 = unlimited)
+     */
+    addWeapon(definition: WeaponDefinition, ammo: number = definition.ammo): void {
+        const index = this.weapons.findIndex(carried => carried.definition.name === definition.name);
+        if (index >= 0) {
+            const carried = this.weapons[index];
+            carried.definition = definition;
+            carried.ammo = carried.ammo < 0 || ammo < 0 ? -1 : carried.ammo + ammo;
+            this.selectWeapon(index);
+        } else {
+            this.weapons.push({ definition, ammo });
+            this.selectWeapon(this.weapons.length - 1);
+        }
+    }
+    
+    /**
+     * Switch to the next carried weapon (or the previous one with step -1)
+     */
+    cycleWeapon(step: number = 1): void {
+        if (this.weapons.length < 2) return;
+        this.selectWeapon((this.weaponIndex + step + this.weapons.length) % this.weapons.length);
+    }
+    
+    private selectWeapon(index: number): void {
+        this.weaponIndex = index;
+        
+        eventBus.emit(GameEvent.WEAPON_CHANGE, {
+            player: this,
+            weapon: this.getCurrentWeapon().name,
+            ammo: this.getAmmo()
+        });
+    }
+    
+    private removeWeapon(index: number): void {
+        this.weapons.splice(index, 1);
+        // Never end up empty handed
+        if (this.weapons.length === 0) {
+            this.weapons.push({ definition: DEFAULT_WEAPON, ammo: -1 });
+        }
+        // Back to the weapon before it
+        this.selectWeapon(Math.max(0, index - 1));
+    }
 
-    takeDamage(damage: number): void {
-        if (this.isInvulnerable) {
-            return;
+    /**
+     * Hurt the player. How the hit is handled depends on the damage type (see DAMAGE_RULES).
+     */
+    takeDamage(damage: number, type: PlayerDamageType = 'contact'): void {
+        const rule = DAMAGE_RULES[type];
+        
+        if (rule.lethal) {
+            if (this.isDead) return;
+            damage = Math.max(damage, this.health);
+        } else {
+            if (this.isInvulnerable || this.invincible) {
+                return;
+            }
+            
+            // A shield takes the hit instead
+            if (this.shield > 0) {
+                this.absorbHitWithShield();
+                return;
+            }
         }
         
-        this.health -= damage;
-        this.isInvulnerable = true;  // Immediately become invulnerable
+        this.health = Math.max(0, this.health - damage);
         
         // Emit player damage event
         eventBus.emit(GameEvent.PLAYER_DAMAGE, {
             player: this,
             damage: damage,
-            health: this.health
+            health: this.health,
+            damageType: type
         });
         
         // Play hit animation
@@ -598,38 +847,59 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
             volume: 0.5
         });
         
-        // Apply knockback based on whether player is on ground
-        const onGround = this.body?.blocked.down || false;
-        
-        if (onGround) {
-            // On ground: push back horizontally
-            const knockbackX = this.flipX ? 100 : -100;
-            this.setVelocityX(knockbackX);
-        } else {
-            // In air: jump straight up
-            this.setVelocityY(-400);
+        if (this.health <= 0) {
+            this.handleDeath();
+            return;
         }
         
-        // Set knockback duration (player can't control movement during this time)
-        this.knockbackTime = 400; // 400ms of knockback
-        
-        // Flash effect for invulnerability
-        this.scene.tweens.add({
-            targets: this,
-            alpha: { from: 1, to: 0.3 },
-            duration: 100,
-            repeat: 7,
-            yoyo: true,
-            onComplete: () => {
-                this.alpha = 1;
-                this.isInvulnerable = false;
+        if (rule.knockback) {
+            // A hit knocks the player off ladders
+            this.stopClimbing();
+            
+            // Apply knockback based on whether player is on ground
+            const onGround = this.body?.blocked.down || false;
+            
+            if (onGround) {
+                // On ground: push back horizontally
+                const knockbackX = this.flipX ? 100 : -100;
+                this.setVelocityX(knockbackX);
+            } else {
+                // In air: jump straight up
+                this.setVelocityY(-400);
             }
-        });
+            
+            // Set knockback duration (player can't control movement during this time)
+            this.knockbackTime = 400; // 400ms of knockback
+        }
         
-        if (this.health <= 0) {
-            this.handleDeath();
+        // Flash effect for invulnerability
+        if (rule.invulnerableTime > 0) {
+            this.isInvulnerable = true;
+            this.scene.tweens.add({
+                targets: this,
+                alpha: { from: 1, to: 0.3 },
+                duration: 100,
+                repeat: Math.max(0, Math.round(rule.invulnerableTime / 200) - 1),
+                yoyo: true,
+                onComplete: () => {
+                    this.alpha = 1;
+                    this.isInvulnerable = false;
+                }
+            });
         }
     }
+    
+    /**
+     * Blocked by terrain or immovable bodies from above and below, or from both sides
+     * (pushable boxes resting on the player don't count)
+     */
+    private isSqueezed(): boolean {
+        const body = this.body as Phaser.Physics.Arcade.Body | null;
+        if (!body || !body.enable) return false;
+        
+        const blocked = body.blocked;
+        return (blocked.up && blocked.down) || (blocked.left && blocked.right);
+    }
 
     private handleDeath(): void {
         // Prevent multiple death triggers
@@ -653,22 +923,69 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
             volume: 0.5
         });
         
+        // Let Game scene decide between respawn and game over
         this.scene.time.delayedCall(1000, () => {
-            // Emit game over event
-            eventBus.emit(GameEvent.GAME_OVER, {
-                reason: 'Player died'
-            });
-            
-            // Call Game scene's restartGame method
-            const gameScene = this.scene as any;
-            if (gameScene.restartGame) {
-                gameScene.restartGame();
-            } else {
-                this.scene.scene.restart();
+            this.hooks.handlePlayerDeath();
+        });
+    }
+
+    /**
+     * Bring the player back to life at the given position with full health
+     */
+    respawn(x: number, y: number): void {
+        this.scene.tweens.killTweensOf(this);
+        
+        this.isDead = false;
+        this.health = this.maxHealth;
+        this.knockbackTime = 0;
+        this.crushTime = 0;
+        this.jumpCount = 0;
+        this.launchLockTime = 0;
+        this.surface = DEFAULT_SURFACE;
+        this.stopClimbing();
+        this.isCharging = false;
+        this.chargeTime = 0;
+        this.isFloatingUp = false;
+        
+        this.clearTint();
+        this.setAlpha(1);
+        this.enableBody(true, x, y, true, true);
+        this.setVelocity(0, 0);
+        this.playAnimation('idle');
+        
+        eventBus.emit(GameEvent.PLAYER_RESPAWN, {
+            player: this,
+            position: { x, y },
+            lives: this.lives
+        });
+        
+        // Short invulnerability after respawning
+        this.isInvulnerable = true;
+        this.scene.tweens.add({
+            targets: this,
+            alpha: { from: 1, to: 0.3 },
+            duration: 100,
+            repeat: 9,
+            yoyo: true,
+            onComplete: () => {
+                this.alpha = 1;
+                this.isInvulnerable = false;
             }
         });
     }
 
+    /**
+     * Consume one life and return how many are left
+     */
+    loseLife(): number {
+        this.lives = Math.max(0, this.lives - 1);
+        return this.lives;
+    }
+
+    getLives(): number {
+        return this.lives;
+    }
+
     getHealth(): number {
         return this.health;
     }
@@ -677,9 +994,181 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         return this.maxHealth;
     }
     
-    private checkAndFixStuckInTerrain(): void {
-        const deltaTime = this.scene.game.loop.delta;
-        this.stuckCheckTimer += deltaTime;
+    /**
+     * Raise the maximum health, the new hearts start filled
+     */
+    increaseMaxHealth(amount: number): void {
+        this.maxHealth += amount;
+        this.health = Math.min(this.maxHealth, this.health + amount);
+    }
+    
+    heal(amount: number): void {
+        this.health = Math.min(this.maxHealth, this.health + amount);
+    }
+    
+    hasAbility(ability: PlayerAbility): boolean {
+        return this.abilities[ability];
+    }
+    
+    setAbility(ability: PlayerAbility, enabled: boolean): void {
+        this.abilities[ability] = enabled;
+        
+        // Double jumping needs a second jump
+        if (ability === 'canDoubleJump' && enabled && this.maxJumps < 2) {
+            this.maxJumps = 2;
+        }
+    }
+    
+    getMoveSpeed(): number {
+        return this.moveSpeed * this.speedMultiplier;
+    }
+    
+    getSpeedMultiplier(): number {
+        return this.speedMultiplier;
+    }
+    
+    setSpeedMultiplier(multiplier: number): void {
+        this.speedMultiplier = Math.max(0, multiplier);
+    }
+    
+    /**
+     * Horizontal velocity after moving towards the target speed for one frame.
+     * Normal floors reach it at once, slippery ones (ice) take a while.
+     */
+    private approachVelocityX(target: number, delta: number): number {
+        const current = this.body?.velocity.x || 0;
+        const speedingUp = target !== 0 && Math.sign(target) === Math.sign(current) && Math.abs(target) > Math.abs(current);
+        const rate = speedingUp || current === 0 ? this.surface.acceleration : this.surface.deceleration;
+        if (rate >= 1) {
+            return target;
+        }
+        
+        // Rates are per 60 fps frame, scaled to the frame time
+        const t = Math.min(1, rate * delta / (1000 / 60));
+        const velocity = current + (target - current) * t;
+        return Math.abs(velocity - target) < 1 ? target : velocity;
+    }
+    
+    /**
+     * Floor the player stands on, set by the Game scene while the player is on the ground.
+     * It is kept in the air, so jumping off ice keeps the momentum.
+     */
+    setSurface(surface: SurfaceProperties): void {
+        this.surface = surface;
+    }
+    
+    getSurface(): SurfaceProperties {
+        return this.surface;
+    }
+    
+    /**
+     * Launched by a spring: the jumps start over and a sideways launch isn't cancelled by input
+     */
+    launch(velocityX: number, velocityY: number): void {
+        if (this.isDead) return;
+        
+        this.stopClimbing();
+        this.setVelocity(velocityX, velocityY);
+        this.jumpCount = 1;
+        this.launchLockTime = velocityX !== 0 ? LAUNCH_CONTROL_LOCK : 0;
+        
+        if (this.isCharging) {
+            this.isCharging = false;
+            this.chargeTime = 0;
+            this.clearTint();
+        }
+        
+        this.playAnimation('jump');
+    }
+    
+    /**
+     * While invincible the player takes no damage at all
+     */
+    isInvincible(): boolean {
+        return this.invincible;
+    }
+    
+    setInvincible(invincible: boolean): void {
+        if (this.invincible === invincible) return;
+        
+        this.invincible = invincible;
+        this.invincibleTime = 0;
+        if (!invincible && !this.isCharging && !this.isDead) {
+            this.clearTint();
+        }
+    }
+    
+    /**
+     * Number of hits the shield still absorbs
+     */
+    getShield(): number {
+        return this.shield;
+    }
+    
+    addShield(hits: number): void {
+        this.setShield(this.shield + hits);
+    }
+    
+    setShield(hits: number): void {
+        this.shield = Math.max(0, hits);
+        
+        if (this.shield > 0 && !this.shieldBubble) {
+            this.shieldBubble = this.scene.add.circle(this.x, this.y, Math.max(this.displayWidth, this.displayHeight) * 0.6, 0x66ccff, 0.25);
+            this.shieldBubble.setStrokeStyle(2, 0x99ddff, 0.8);
+            this.shieldBubble.setDepth(this.depth + 1);
+        } else if (this.shield === 0 && this.shieldBubble) {
+            this.shieldBubble.destroy();
+            this.shieldBubble = null;
+        }
+    }
+    
+    /**
+     * Most bullets that can be flying at once
+     */
+    getMaxBullets(): number {
+        return this.bullets.maxSize;
+    }
+    
+    setMaxBullets(maxBullets: number): void {
+        this.bullets.maxSize = Math.max(1, maxBullets);
+    }
+    
+    private absorbHitWithShield(): void {
+        this.setShield(this.shield - 1);
+        
+        // Short grace period so the same hit doesn't also go through
+        this.isInvulnerable = true;
+        this.scene.time.delayedCall(500, () => {
+            this.isInvulnerable = false;
+        });
+        
+        // Shield burst
+        const burst = this.scene.add.circle(this.x, this.y, Math.max(this.displayWidth, this.displayHeight) * 0.6);
+        burst.setStrokeStyle(3, 0x99ddff, 1);
+        this.scene.tweens.add({
+            targets: burst,
+            scale: 1.8,
+            alpha: 0,
+            duration: 300,
+            onComplete: () => {
+                burst.destroy();
+            }
+        });
+    }
+    
+    private updatePowerUpVisuals(delta: number): void {
+        this.shieldBubble?.setPosition(this.x, this.y);
+        
+        // Rainbow tint while invincible (the charge jump tint takes precedence)
+        if (this.invincible && !this.isCharging && !this.isDead) {
+            this.invincibleTime += delta;
+            const index = Math.floor(this.invincibleTime / 80) % INVINCIBLE_TINTS.length;
+            this.setTint(INVINCIBLE_TINTS[index]);
+        }
+    }
+    
+    private checkAndFixStuckInTerrain(delta: number): void {
+        this.stuckCheckTimer += delta;
         
         // Only check periodically to avoid performance issues
         if (this.stuckCheckTimer < this.stuckCheckInterval) {
@@ -712,14 +1201,21 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         const gameScene = this.scene as any;
         if (!gameScene.layers) return false;
         
-        // Check if player center is inside any collision tile
-        for (const layer of gameScene.layers) {
-            const tile = layer.getTileAtWorldXY(this.x, this.y);
-            if (tile && tile.collides) {
-                return true;
-            }
-        }
+        // Check if player center is inside solid terrain (one-way tiles and the air above slopes don't count)
+        return TileCollision.isSolidAt(gameScene.layers, this.x, this.y);
+    }
+    
+    private isOnOneWayPlatform(): boolean {
+        const gameScene = this.scene as any;
+        if (!gameScene.layers || !this.body) return false;
         
-        return false;
+        return TileCollision.isOnOneWay(gameScene.layers, this.body as Phaser.Physics.Arcade.Body);
+    }
+    
+    /**
+     * True while the player falls through a one-way platform (checked by the tile colliders)
+     */
+    isDroppingThrough(): boolean {
+        return this.dropThroughTime > 0;
     }
 }
\ No newline at end of file
@@ -0,0 +1,254 @@
+import { Scene } from 'phaser';
+import { Enemy } from './Enemy';
+import { BossArena } from './BossArena';
+import { FlagManager } from '../managers/FlagManager';
+import { GameObjectManager } from '../managers/GameObjectManager';
+import { Switchable } from './Switchable';
+
+export type SpawnerActivation = 'proximity' | 'trigger';
+
+/**
+ * Game scene callbacks spawners call into
+ */
+export interface SpawnerHooks {
+    getArenaBlockers(): Phaser.Types.Physics.Arcade.ArcadeColliderType[];
+    spawnObjectAs(templateUUID: string, uuid: string, x: number, y: number): Phaser.GameObjects.GameObject | null;
+}
+
+/**
+ * Spawns copies of an enemy template over time (Tiled object of type "spawner" or "wave")
+ *
+ * The template is an enemy marked spawn_on_trigger. Point spawners spawn at their
+ * position, rectangle spawners at a random spot along the bottom of the rectangle.
+ * Spawned enemies get the UUIDs "<spawner uuid>_1", "<spawner uuid>_2", ...
+ *
+ * A wave is a rectangle spawner that locks its area (like a boss arena) once it
+ * starts and opens it again when all of its enemies are defeated.
+ *
+ * Properties that can be configured in Tiled tilemap editor:
+ * - template_uuid: (string) UUID of the enemy template to spawn
+ * - max_alive: (int) Most spawned enemies alive at once (default: 3)
+ * - total: (int) Enemies spawned in total, 0 = no limit (default: 0, waves: max_alive)
+ * - interval: (int) Time in ms between spawns (default: 2000)
+ * - activation: (string) "proximity" or "trigger" (default: "proximity")
+ * - activation_range: (int) Distance to the player that starts a proximity spawner (default: 400);
+ *   waves start when the player is fully inside their rectangle
+ * - complete_flag: (string) Flag set once every enemy of a limited spawner was defeated
+ */
+export class Spawner extends Phaser.GameObjects.Zone implements Switchable {
+    private templateUUID: string = '';
+    private maxAlive: number = 3;
+    private total: number = 0;
+    private interval: number = 2000;
+    private activation: SpawnerActivation = 'proximity';
+    private activationRange: number = 400;
+    private completeFlag?: string;
+    private isWave: boolean;
+    private arena: BossArena | null = null;
+    private hooks: SpawnerHooks;
+
+    private running: boolean = false;
+    private completed: boolean = false;
+    private spawnedCount: number = 0;
+    private spawnTimer: number = 0;
+    private alive: Enemy[] = [];
+
+    constructor(scene: Scene, spawnerObject: Phaser.Types.Tilemaps.TiledObject, isWave: boolean, hooks: SpawnerHooks) {
+        const x = spawnerObject.x || 0;
+        const y = spawnerObject.y || 0;
+        const width = spawnerObject.width || 0;
+        const height = spawnerObject.height || 0;
+
+        super(scene, x + width / 2, y + height / 2, Math.max(width, 1), Math.max(height, 1));
+        scene.add.existing(this);
+
+        this.isWave = isWave;
+        this.hooks = hooks;
+
+        const properties = (spawnerObject.properties as any[]) || [];
+        properties.forEach(prop => {
+            switch (prop.name) {
+                case 'template_uuid':
+                    this.templateUUID = prop.value;
+                    break;
+                case 'max_alive':
+                    this.maxAlive = prop.value;
+                    break;
+                case 'total':
+                    this.total = prop.value;
+                    break;
+                case 'interval':
+                    this.interval = prop.value;
+                    break;
+                case 'activation':
+                    this.activation = prop.value;
+                    break;
+                case 'activation_range':
+                    this.activationRange = prop.value;
+                    break;
+                case 'complete_flag':
+                    this.completeFlag = prop.value;
+                    break;
+            }
+        });
+
+        if (this.isWave) {
+            // A wave has to end to open its area again
+            if (this.total <= 0) {
+                this.total = this.maxAlive;
+            }
+            if (width > 0 && height > 0) {
+                this.arena = new BossArena(scene, spawnerObject);
+            } else {
+                console.warn('[Spawner] Wave without a rectangle can\'t lock its area');
+            }
+        }
+
+        if (!this.templateUUID) {
+            console.warn(`[Spawner] ${spawnerObject.name || 'spawner'} has no template_uuid`);
+        }
+
+        console.log(`[Spawner] Created ${isWave ? 'wave' : 'spawner'} at (${x}, ${y}), template: ${this.templateUUID}, total: ${this.total || 'unlimited'}`);
+    }
+
+    /**
+     * Advance the spawner, called by the Game scene every frame
+     * @param delta Frame time in ms
+     * @param player The player, for proximity activation
+     */
+    updateSpawner(delta: number, player: Phaser.GameObjects.GameObject | null): void {
+        if (this.completed) return;
+
+        if (!this.running) {
+            if (this.activation === 'proximity' && player && this.isPlayerClose(player)) {
+                this.start();
+            }
+            return;
+        }
+
+        // Forget enemies that were defeated
+        this.alive = this.alive.filter(enemy => enemy.active && enemy.getHealth() > 0);
+
+        const exhausted = this.total > 0 && this.spawnedCount >= this.total;
+        if (exhausted) {
+            if (this.alive.length === 0) {
+                this.complete();
+            }
+            return;
+        }
+
+        this.spawnTimer -= delta;
+        if (this.spawnTimer <= 0 && this.alive.length < this.maxAlive) {
+            this.spawn();
+            this.spawnTimer = this.interval;
+        }
+    }
+
+    private isPlayerClose(player: Phaser.GameObjects.GameObject): boolean {
+        if (this.arena) {
+            return this.arena.containsBody(player);
+        }
+
+        const target = player as unknown as Phaser.Types.Math.Vector2Like;
+        return Phaser.Math.Distance.Between(this.x, this.y, target.x ?? 0, target.y ?? 0) <= this.activationRange;
+    }
+
+    /**
+     * Start spawning (and lock the area of a wave)
+     */
+    start(): void {
+        if (this.running || this.completed) return;
+
+        this.running = true;
+        this.spawnTimer = 0;
+        this.arena?.lock(this.hooks.getArenaBlockers());
+    }
+
+    /**
+     * Stop spawning; enemies already spawned stay
+     */
+    stop(): void {
+        this.running = false;
+    }
+
+    private spawn(): void {
+        const bounds = this.getBounds();
+        const x = bounds.width > 1 ? Phaser.Math.RND.between(bounds.left, bounds.right) : this.x;
+        const y = bounds.height > 1 ? bounds.bottom : this.y;
+
+        this.spawnedCount++;
+        const spawned = this.hooks.spawnObjectAs(this.templateUUID, this.getSpawnUUID(this.spawnedCount), x, y);
+        if (!(spawned instanceof Enemy)) {
+            console.warn(`[Spawner] Template ${this.templateUUID} didn't create an enemy, stopping`);
+            this.stop();
+            return;
+        }
+
+        this.alive.push(spawned);
+
+        // Fade in instead of popping in
+        spawned.setAlpha(0);
+        this.scene.tweens.add({
+            targets: spawned,
+            alpha: 1,
+            duration: 300
+        });
+    }
+
+    private getSpawnUUID(index: number): string {
+        return `${this.getData('uuid')}_${index}`;
+    }
+
+    private complete(): void {
+        this.completed = true;
+        this.running = false;
+        this.arena?.unlock();
+
+        if (this.completeFlag) {
+            FlagManager.getInstance().setFlag(this.completeFlag);
+        }
+    }
+
+    /**
+     * Put a running wave back to its initial state: its enemies disappear and
+     * its area opens. Called when the player respawns.
+     */
+    resetWave(): void {
+        if (!this.isWave || !this.running) return;
+
+        this.alive.forEach(enemy => enemy.destroy());
+        this.alive = [];
+
+        // The UUIDs are handed out again from _1, none may keep pointing at the old enemies
+        const gameObjectManager = GameObjectManager.getInstance();
+        for (let i = 1; i <= this.spawnedCount; i++) {
+            gameObjectManager.unregisterObject(this.getSpawnUUID(i));
+        }
+        this.spawnedCount = 0;
+        this.running = false;
+        this.arena?.unlock();
+    }
+
+    isRunning(): boolean {
+        return this.running;
+    }
+
+    isCompleted(): boolean {
+        return this.completed;
+    }
+
+    /**
+     * Used by the trigger "switch" action
+     */
+    isSwitchedOn(): boolean {
+        return this.running;
+    }
+
+    setSwitchedOn(on: boolean): void {
+        if (on) {
+            this.start();
+        } else {
+            this.stop();
+        }
+    }
+}
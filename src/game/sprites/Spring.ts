@@ -0,0 +1,138 @@
+import { Scene } from 'phaser';
+import { eventBus, GameEvent } from '../events/EventBus';
+import { AnimationManager } from '../managers/AnimationManager';
+import { Player } from './Player';
+
+/**
+ * Spring that launches whatever lands on it (Tiled object of type "spring")
+ *
+ * Works on the player, enemies and movable obstacles.
+ *
+ * Properties that can be configured in Tiled tilemap editor:
+ * - launch_x: (float) Horizontal launch velocity in px/s, negative = to the left (default: 0)
+ * - launch_y: (float) Vertical launch velocity in px/s, negative = up (default: -900)
+ */
+export class Spring extends Phaser.Physics.Arcade.Sprite {
+    private atlasKey: string;
+    private launchX: number = 0;
+    private launchY: number = -900;
+    private animationManager: AnimationManager;
+
+    constructor(scene: Scene, springObject: Phaser.Types.Tilemaps.TiledObject) {
+        const x = springObject.x || 0;
+        const y = springObject.y || 0;
+        const name = springObject.name || '';
+        const texture = name && scene.textures.exists(name) ? name : Spring.getDefaultTexture(scene);
+
+        super(scene, x, y - 32, texture);
+
+        scene.add.existing(this);
+        scene.physics.add.existing(this, true);
+
+        this.setOrigin(0.5, 0.5);
+        this.atlasKey = texture;
+        this.animationManager = AnimationManager.getInstance();
+
+        const properties = (springObject.properties as any[]) || [];
+        properties.forEach(prop => {
+            switch (prop.name) {
+                case 'launch_x':
+                    this.launchX = prop.value;
+                    break;
+                case 'launch_y':
+                    this.launchY = prop.value;
+                    break;
+            }
+        });
+
+        // Only the pad at the bottom of the tile launches
+        this.setSize(48, 24);
+        this.setOffset(8, 40);
+
+        if (this.body && typeof this.body.updateFromGameObject === 'function') {
+            (this.body as Phaser.Physics.Arcade.StaticBody).updateFromGameObject();
+        }
+
+        this.playSpringAnimation('idle');
+
+        console.log(`[Spring] Created at (${x}, ${y}), launch: (${this.launchX}, ${this.launchY})`);
+    }
+
+    /**
+     * Placeholder texture, used when the object has no texture of its own
+     */
+    private static getDefaultTexture(scene: Scene): string {
+        const key = 'spring_default';
+        if (scene.textures.exists(key)) {
+            return key;
+        }
+
+        const graphics = scene.add.graphics();
+        graphics.fillStyle(0x666666, 1);
+        graphics.fillRect(12, 58, 40, 6);
+        graphics.lineStyle(4, 0xcccccc, 1);
+        graphics.strokePoints([
+            { x: 20, y: 58 }, { x: 44, y: 53 }, { x: 20, y: 48 }, { x: 44, y: 43 }
+        ]);
+        graphics.fillStyle(0xff4444, 1);
+        graphics.fillRect(8, 38, 48, 6);
+        graphics.generateTexture(key, 64, 64);
+        graphics.destroy();
+        return key;
+    }
+
+    private playSpringAnimation(animName: string): void {
+        if (!this.animationManager.hasAnimation(this.atlasKey, animName)) {
+            this.animationManager.createAnimationsForAtlas(this.atlasKey);
+        }
+
+        if (this.animationManager.hasAnimation(this.atlasKey, animName)) {
+            this.animationManager.playAnimation(this, this.atlasKey, animName);
+        }
+    }
+
+    /**
+     * Launch an object that touches the spring, if it is on top of it (landing or walking onto it)
+     * @returns Whether the object was launched
+     */
+    tryLaunch(object: Phaser.GameObjects.GameObject): boolean {
+        const body = (object as any).body as Phaser.Physics.Arcade.Body | undefined;
+        if (!object.active || !body || !body.enable || body.velocity.y < 0) {
+            return false;
+        }
+
+        const springBody = this.body as Phaser.Physics.Arcade.StaticBody;
+        if (body.center.y > springBody.top) {
+            return false;
+        }
+
+        // The player keeps its own rules for being launched (jumps, charging)
+        if (object instanceof Player) {
+            object.launch(this.launchX, this.launchY);
+        } else {
+            body.setVelocity(this.launchX, this.launchY);
+        }
+
+        this.playSpringAnimation('launch');
+        this.scene.tweens.add({
+            targets: this,
+            scaleY: 0.6,
+            duration: 80,
+            yoyo: true,
+            ease: 'Quad.easeOut'
+        });
+
+        eventBus.emit(GameEvent.SPRING_LAUNCH, {
+            spring: this,
+            target: object,
+            velocity: { x: this.launchX, y: this.launchY }
+        });
+
+        eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
+            key: 'spring',
+            volume: 0.6
+        });
+
+        return true;
+    }
+}
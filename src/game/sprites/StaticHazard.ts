@@ -1,9 +1,21 @@
 import { Scene } from 'phaser';
 import { AnimationManager } from '../managers/AnimationManager';
+import { PlayerDamageType } from './Player';
+import { Switchable } from './Switchable';
 
-export class StaticHazard extends Phaser.Physics.Arcade.Sprite {
+/**
+ * Hazard hurting the player on contact (Tiled object of type "hazard")
+ *
+ * Properties that can be configured in Tiled tilemap editor:
+ * - damage: (int) Damage dealt to the player (default: 1)
+ * - damage_type: (string) "spike", "contact", "projectile", "fall" or "crush" (default: "spike");
+ *   "fall" and "crush" are lethal
+ */
+export class StaticHazard extends Phaser.Physics.Arcade.Sprite implements Switchable {
     private damage: number;
     private hazardType: string;
+    private damageType: PlayerDamageType = 'spike';
+    private armed: boolean = true;
     private animationManager: AnimationManager;
 
     constructor(scene: Scene, hazardObject: Phaser.Types.Tilemaps.TiledObject) {
@@ -23,6 +35,11 @@ export class StaticHazard extends Phaser.Physics.Arcade.Sprite {
         this.damage = properties?.damage || 1;
         this.hazardType = hazardObject.name || 'generic';
         
+        const damageTypeProp = (hazardObject.properties as any[] | undefined)?.find(prop => prop.name === 'damage_type');
+        if (damageTypeProp) {
+            this.damageType = damageTypeProp.value;
+        }
+        
         this.setSize(48, 48);
         this.setOffset(8, 16);
         
@@ -42,6 +59,23 @@ export class StaticHazard extends Phaser.Physics.Arcade.Sprite {
         return this.hazardType;
     }
     
+    getDamageType(): PlayerDamageType {
+        return this.damageType;
+    }
+    
+    /**
+     * Used by the trigger "switch" action and switches: a switched off hazard is harmless
+     */
+    isSwitchedOn(): boolean {
+        return this.armed;
+    }
+    
+    setSwitchedOn(on: boolean): void {
+        this.armed = on;
+        (this.body as Phaser.Physics.Arcade.StaticBody).enable = on;
+        this.setAlpha(on ? 1 : 0.3);
+    }
+    
     private tryPlayIdleAnimation(): void {
         const atlasKey = this.hazardType;
         
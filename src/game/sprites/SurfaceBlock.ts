@@ -0,0 +1,90 @@
+import { Scene } from 'phaser';
+import { TileCollision, SurfaceProperties, DEFAULT_SURFACE } from '../utils/TileCollision';
+import { Switchable } from './Switchable';
+
+export type SurfaceBlockKind = 'conveyor' | 'ice';
+
+/**
+ * Solid block with a special floor (Tiled object of type "conveyor" or "ice")
+ *
+ * Conveyors carry the player, enemies and movable obstacles standing on them.
+ * Ice changes how quickly the player speeds up and slows down. The same
+ * surfaces can be set on tiles (see TileCollision).
+ *
+ * Properties that can be configured in Tiled tilemap editor:
+ * - speed: (float) Conveyors: speed in px/s, negative = to the left (default: 100)
+ * - acceleration / deceleration: (float) Grip for the player, 1 = normal (default: normal, ice: ICE_SURFACE values)
+ * - texture: (string) Texture repeated over the block (default: object name or terrain_grass_block_top)
+ */
+export class SurfaceBlock extends Phaser.GameObjects.TileSprite implements Switchable {
+    private kind: SurfaceBlockKind;
+    private surface: SurfaceProperties;
+    private running: boolean = true;
+
+    constructor(scene: Scene, blockObject: Phaser.Types.Tilemaps.TiledObject, kind: SurfaceBlockKind) {
+        const properties = (blockObject.properties as any[]) || [];
+        const getValue = (name: string) => properties.find(prop => prop.name === name)?.value;
+
+        const width = blockObject.width || 64;
+        const height = blockObject.height || 64;
+
+        const { x, y } = TileCollision.getObjectCenter(blockObject, width, height);
+
+        const texture = getValue('texture') ?? (scene.textures.exists(blockObject.name) ? blockObject.name : 'terrain_grass_block_top');
+        super(scene, x, y, width, height, texture);
+
+        scene.add.existing(this);
+        scene.physics.add.existing(this, true);
+
+        this.kind = kind;
+
+        // Conveyors default to 100 px/s to the right
+        this.surface = TileCollision.parseSurface({
+            ice: kind === 'ice',
+            acceleration: getValue('acceleration'),
+            deceleration: getValue('deceleration'),
+            conveyor_speed: kind === 'conveyor' ? (getValue('speed') ?? 100) : undefined
+        }) ?? DEFAULT_SURFACE;
+
+        // Without art of its own, ice is tinted blue and conveyors grey
+        if (getValue('texture') === undefined && !scene.textures.exists(blockObject.name)) {
+            this.setTint(kind === 'ice' ? 0xaaddff : 0x999999);
+        }
+
+        console.log(`[SurfaceBlock] Created ${kind} at (${x}, ${y}), surface: ${JSON.stringify(this.surface)}`);
+    }
+
+    /**
+     * Scroll the conveyor texture, called by the Game scene every frame
+     */
+    updateSurfaceBlock(delta: number): void {
+        if (this.kind === 'conveyor' && this.running) {
+            this.tilePositionX -= this.surface.conveyorSpeed * delta / 1000;
+        }
+    }
+
+    /**
+     * Surface applied to the bodies standing on the block (a stopped conveyor doesn't carry them)
+     */
+    getSurface(): SurfaceProperties {
+        return this.running ? this.surface : { ...this.surface, conveyorSpeed: 0 };
+    }
+
+    /**
+     * Whether a body is standing on top of the block
+     */
+    isSupporting(object: Phaser.GameObjects.GameObject): boolean {
+        return TileCollision.isStandingOn(object, this.body as Phaser.Physics.Arcade.StaticBody);
+    }
+
+    /**
+     * Used by the trigger "switch" action and switches: starts or stops a conveyor
+     */
+    isSwitchedOn(): boolean {
+        return this.running;
+    }
+
+    setSwitchedOn(on: boolean): void {
+        this.running = on;
+    }
+}
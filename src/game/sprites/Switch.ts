@@ -0,0 +1,283 @@
+import { Scene } from 'phaser';
+import { eventBus, GameEvent } from '../events/EventBus';
+import { AnimationManager } from '../managers/AnimationManager';
+import { GameObjectManager } from '../managers/GameObjectManager';
+import { TileCollision } from '../utils/TileCollision';
+import { Switchable, isSwitchable } from './Switchable';
+
+export type SwitchKind = 'lever' | 'button' | 'pressure_plate';
+
+// Distance in px above the plate at which a body still counts as standing on it
+const PRESS_TOLERANCE = 6;
+
+/**
+ * Object with an on/off state that switches its targets on and off
+ * (Tiled object of type "lever", "button" or "pressure_plate")
+ *
+ * - lever: toggled by the interact action while the player stands at it
+ * - button: toggled when hit by a player bullet
+ * - pressure_plate: on while the player, an enemy or a movable obstacle stands on it
+ *
+ * Targets are any objects with an on/off state, the same ones the trigger "switch"
+ * action works on (doors, platforms, hazards, spawners). Targets keep their own
+ * state until the switch changes for the first time.
+ *
+ * Properties that can be configured in Tiled tilemap editor:
+ * - target_uuids: (string) Comma separated UUIDs of the objects to switch (or target_uuid)
+ * - invert: (bool) Switch the targets off when this switch is on and the other way round (default: false)
+ * - start_on: (bool) Initial state (default: false)
+ * - once: (bool) Stay on once switched on (default: false)
+ * - duration: (int) Buttons: time in ms before they switch off again, 0 = stay on until hit again (default: 0)
+ * - on_texture / off_texture: (string) Textures shown in each state
+ *   (default: the "on"/"off" animations of the atlas, otherwise a tint)
+ */
+export class Switch extends Phaser.Physics.Arcade.Sprite implements Switchable {
+    private kind: SwitchKind;
+    private atlasKey: string;
+    private targetUUIDs: string[] = [];
+    private invert: boolean = false;
+    private oneShot: boolean = false;
+    private duration: number = 0;
+    private onTexture: string = '';
+    private offTexture: string = '';
+    private switchedOn: boolean = false;
+    private offTimer: number = 0;
+    private animationManager: AnimationManager;
+
+    constructor(scene: Scene, switchObject: Phaser.Types.Tilemaps.TiledObject, kind: SwitchKind) {
+        const x = switchObject.x || 0;
+        const y = switchObject.y || 0;
+        const name = switchObject.name || '';
+        const texture = name && scene.textures.exists(name) ? name : Switch.getDefaultTexture(scene, kind);
+
+        super(scene, x, y - 32, texture);
+
+        scene.add.existing(this);
+        scene.physics.add.existing(this, true);
+
+        this.setOrigin(0.5, 0.5);
+        this.kind = kind;
+        this.atlasKey = texture;
+        this.animationManager = AnimationManager.getInstance();
+
+        const properties = (switchObject.properties as any[]) || [];
+        properties.forEach(prop => {
+            switch (prop.name) {
+                case 'target_uuids':
+                case 'target_uuid':
+                    this.targetUUIDs.push(...String(prop.value).split(',').map(uuid => uuid.trim()).filter(uuid => uuid !== ''));
+                    break;
+                case 'invert':
+                    this.invert = prop.value === true;
+                    break;
+                case 'start_on':
+                    this.switchedOn = prop.value === true;
+                    break;
+                case 'once':
+                    this.oneShot = prop.value === true;
+                    break;
+                case 'duration':
+                    this.duration = prop.value;
+                    break;
+                case 'on_texture':
+                    this.onTexture = prop.value;
+                    break;
+                case 'off_texture':
+                    this.offTexture = prop.value;
+                    break;
+            }
+        });
+
+        // Plates are a thin strip on the floor, levers and buttons a smaller box
+        if (kind === 'pressure_plate') {
+            this.setSize(56, 16);
+            this.setOffset(4, 48);
+        } else {
+            this.setSize(48, 48);
+            this.setOffset(8, 16);
+        }
+
+        if (this.body && typeof this.body.updateFromGameObject === 'function') {
+            (this.body as Phaser.Physics.Arcade.StaticBody).updateFromGameObject();
+        }
+
+        if (this.targetUUIDs.length === 0) {
+            console.warn(`[Switch] ${kind} ${name} has no target_uuids`);
+        }
+
+        this.updateVisual();
+
+        console.log(`[Switch] Created ${kind} at (${x}, ${y}), targets: ${this.targetUUIDs.join(', ')}`);
+    }
+
+    /**
+     * Simple placeholder texture per kind, used when the object has no texture of its own
+     */
+    private static getDefaultTexture(scene: Scene, kind: SwitchKind): string {
+        const key = `switch_${kind}`;
+        if (scene.textures.exists(key)) {
+            return key;
+        }
+
+        const graphics = scene.add.graphics();
+        switch (kind) {
+            case 'lever':
+                graphics.fillStyle(0x666666, 1);
+                graphics.fillRect(16, 52, 32, 12);
+                graphics.fillStyle(0xcccccc, 1);
+                graphics.fillRect(30, 20, 4, 34);
+                graphics.fillStyle(0xff4444, 1);
+                graphics.fillCircle(32, 18, 6);
+                break;
+            case 'button':
+                graphics.fillStyle(0x666666, 1);
+                graphics.fillRect(12, 44, 40, 20);
+                graphics.fillStyle(0xff4444, 1);
+                graphics.fillCircle(32, 40, 12);
+                break;
+            case 'pressure_plate':
+                graphics.fillStyle(0x666666, 1);
+                graphics.fillRect(4, 56, 56, 8);
+                graphics.fillStyle(0xcccccc, 1);
+                graphics.fillRect(8, 50, 48, 6);
+                break;
+        }
+        graphics.generateTexture(key, 64, 64);
+        graphics.destroy();
+        return key;
+    }
+
+    /**
+     * Advance timers and check what stands on a pressure plate, called by the Game scene every frame
+     * @param delta Frame time in ms
+     * @param pressers Objects that can hold a plate down (player, enemies, movable obstacles)
+     */
+    updateSwitch(delta: number, pressers: Phaser.GameObjects.GameObject[]): void {
+        if (this.kind === 'pressure_plate') {
+            this.setOn(pressers.some(presser => this.isPressedBy(presser)));
+            return;
+        }
+
+        if (this.offTimer > 0) {
+            this.offTimer -= delta;
+            if (this.offTimer <= 0) {
+                this.setOn(false);
+            }
+        }
+    }
+
+    private isPressedBy(presser: Phaser.GameObjects.GameObject): boolean {
+        // Plates aren't solid, bodies stand on the floor below them
+        return TileCollision.isStandingOn(presser, this.body as Phaser.Physics.Arcade.StaticBody, false, PRESS_TOLERANCE);
+    }
+
+    /**
+     * Interact action by the player (levers only)
+     */
+    interact(): void {
+        if (this.kind !== 'lever') return;
+
+        this.setOn(!this.switchedOn);
+    }
+
+    /**
+     * Hit by a player bullet (buttons only)
+     * @returns Whether the bullet was stopped by the button
+     */
+    hit(): boolean {
+        if (this.kind !== 'button') return false;
+
+        if (this.duration > 0) {
+            this.setOn(true);
+            this.offTimer = this.duration;
+        } else {
+            this.setOn(!this.switchedOn);
+        }
+        return true;
+    }
+
+    setOn(on: boolean): void {
+        if (on === this.switchedOn) return;
+        // A one-shot switch can't be turned off again
+        if (!on && this.oneShot) return;
+
+        this.switchedOn = on;
+        this.updateVisual();
+        this.switchTargets();
+
+        eventBus.emit(GameEvent.SWITCH_TOGGLE, {
+            switch: this,
+            kind: this.kind,
+            on
+        });
+
+        eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
+            key: on ? 'switch_on' : 'switch_off',
+            volume: 0.5
+        });
+    }
+
+    private switchTargets(): void {
+        const targetOn = this.invert ? !this.switchedOn : this.switchedOn;
+        const gameObjectManager = GameObjectManager.getInstance();
+
+        this.targetUUIDs.forEach(uuid => {
+            const target = gameObjectManager.getObjectByUUID(uuid)?.object;
+            if (!target) {
+                console.warn(`[Switch] Target ${uuid} not found`);
+                return;
+            }
+            if (!isSwitchable(target)) {
+                console.warn(`[Switch] Target ${uuid} can't be switched on or off`);
+                return;
+            }
+            target.setSwitchedOn(targetOn);
+        });
+    }
+
+    private updateVisual(): void {
+        const texture = this.switchedOn ? this.onTexture : this.offTexture;
+        if (texture && this.scene.textures.exists(texture)) {
+            this.setTexture(texture);
+            return;
+        }
+
+        const animName = this.switchedOn ? 'on' : 'off';
+        if (!this.animationManager.hasAnimation(this.atlasKey, animName)) {
+            this.animationManager.createAnimationsForAtlas(this.atlasKey);
+        }
+        if (this.animationManager.hasAnimation(this.atlasKey, animName)) {
+            this.animationManager.playAnimation(this, this.atlasKey, animName);
+            return;
+        }
+
+        // No art for the states: flip levers and tint everything that is on
+        if (this.kind === 'lever') {
+            this.setFlipX(this.switchedOn);
+        }
+        if (this.switchedOn) {
+            this.setTint(0x66ff66);
+        } else {
+            this.clearTint();
+        }
+    }
+
+    getKind(): SwitchKind {
+        return this.kind;
+    }
+
+    isOn(): boolean {
+        return this.switchedOn;
+    }
+
+    /**
+     * Used by the trigger "switch" action, so triggers can flip levers too
+     */
+    isSwitchedOn(): boolean {
+        return this.switchedOn;
+    }
+
+    setSwitchedOn(on: boolean): void {
+        this.setOn(on);
+    }
+}
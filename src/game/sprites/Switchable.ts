@@ -0,0 +1,13 @@
+/**
+ * Object with an on/off state, changed by switches and the trigger "switch" action
+ * (doors, moving platforms, hazards, conveyors, spawners and switches themselves)
+ */
+export interface Switchable {
+    isSwitchedOn(): boolean;
+    setSwitchedOn(on: boolean): void;
+}
+
+export function isSwitchable(object: unknown): object is Switchable {
+    const candidate = object as Partial<Switchable> | null | undefined;
+    return typeof candidate?.isSwitchedOn === 'function' && typeof candidate?.setSwitchedOn === 'function';
+}
@@ -0,0 +1,256 @@
+import { Scene } from 'phaser';
+import { eventBus, GameEvent } from '../events/EventBus';
+import { TileCollision } from '../utils/TileCollision';
+import { Obstacle } from './Obstacle';
+
+export type TimedPlatformKind = 'crumbling' | 'falling' | 'blink';
+
+type TimedPlatformState = 'idle' | 'shaking' | 'falling' | 'broken';
+
+// Blink platforms flicker during the last part of their solid time
+const BLINK_WARNING = 500;
+
+/**
+ * Platform with timed behavior (Tiled object of type "crumbling_platform",
+ * "falling_platform" or "blink_platform")
+ *
+ * - crumbling: shakes once something stands on it and breaks after crumble_time
+ * - falling: shakes for fall_delay once stood on, then drops with gravity, carrying its riders
+ *   (it falls through the terrain until it leaves the world)
+ * - blink: solid and visible for on_time, then gone for off_time, following the level clock
+ *   so every blink platform with the same timing switches together
+ *
+ * Crumbling and falling platforms come back at their starting position after respawn_time,
+ * once nothing is in the way, and are reset when the player respawns.
+ *
+ * Properties that can be configured in Tiled tilemap editor:
+ * - crumble_time: (int) Crumbling: time in ms between being stood on and breaking (default: 500)
+ * - fall_delay: (int) Falling: time in ms between being stood on and falling (default: 300)
+ * - gravity: (float) Falling: acceleration in px/s² (default: 1200)
+ * - max_fall_speed: (float) Falling: speed limit in px/s (default: 600)
+ * - respawn_time: (int) Time in ms before a broken platform comes back, 0 = never (default: 3000)
+ * - on_time / off_time: (int) Blink: time in ms solid and gone (default: 1500 / 1500)
+ * - offset: (int) Blink: time in ms added to the level clock, to alternate platforms (default: 0)
+ * - texture: (string) Texture repeated over the platform (default: object name or terrain_grass_block_top)
+ */
+export class TimedPlatform extends Phaser.GameObjects.TileSprite {
+    private kind: TimedPlatformKind;
+    private crumbleTime: number = 500;
+    private fallDelay: number = 300;
+    private gravity: number = 1200;
+    private maxFallSpeed: number = 600;
+    private respawnTime: number = 3000;
+    private onTime: number = 1500;
+    private offTime: number = 1500;
+    private offset: number = 0;
+
+    private homeX: number;
+    private homeY: number;
+    private platformState: TimedPlatformState = 'idle';
+    private stateElapsed: number = 0;
+    private fallSpeed: number = 0;
+    private solid: boolean = true;
+
+    constructor(scene: Scene, platformObject: Phaser.Types.Tilemaps.TiledObject, kind: TimedPlatformKind) {
+        const properties = (platformObject.properties as any[]) || [];
+        const getValue = (name: string) => properties.find(prop => prop.name === name)?.value;
+
+        const width = platformObject.width || 192;
+        const height = platformObject.height || 32;
+
+        const { x, y } = TileCollision.getObjectCenter(platformObject, width, height);
+
+        const texture = getValue('texture') ?? (scene.textures.exists(platformObject.name) ? platformObject.name : 'terrain_grass_block_top');
+        super(scene, x, y, width, height, texture);
+
+        scene.add.existing(this);
+        scene.physics.add.existing(this, true);
+
+        this.kind = kind;
+        this.homeX = x;
+        this.homeY = y;
+        this.crumbleTime = getValue('crumble_time') ?? this.crumbleTime;
+        this.fallDelay = getValue('fall_delay') ?? this.fallDelay;
+        this.gravity = getValue('gravity') ?? this.gravity;
+        this.maxFallSpeed = getValue('max_fall_speed') ?? this.maxFallSpeed;
+        this.respawnTime = getValue('respawn_time') ?? this.respawnTime;
+        this.onTime = Math.max(1, getValue('on_time') ?? this.onTime);
+        this.offTime = Math.max(0, getValue('off_time') ?? this.offTime);
+        this.offset = getValue('offset') ?? this.offset;
+
+        console.log(`[TimedPlatform] Created ${kind} at (${x}, ${y})`);
+    }
+
+    /**
+     * Advance the platform timers, called by the Game scene every frame
+     * @param delta Frame time in ms
+     * @param clock Level time in ms, keeps blink platforms in rhythm
+     * @param riders Objects that can stand on the platform (player, boxes)
+     */
+    updateTimedPlatform(delta: number, clock: number, riders: Phaser.GameObjects.GameObject[]): void {
+        if (this.kind === 'blink') {
+            this.updateBlink(clock);
+            return;
+        }
+
+        this.stateElapsed += delta;
+
+        switch (this.platformState) {
+            case 'idle':
+                if (riders.some(rider => this.isRiding(rider))) {
+                    this.enterState('shaking');
+                }
+                break;
+            case 'shaking':
+                this.shake();
+                if (this.kind === 'crumbling' && this.stateElapsed >= this.crumbleTime) {
+                    this.crumble();
+                } else if (this.kind === 'falling' && this.stateElapsed >= this.fallDelay) {
+                    this.startFalling();
+                }
+                break;
+            case 'falling':
+                this.fall(delta, riders);
+                break;
+            case 'broken':
+                if (this.respawnTime > 0 && this.stateElapsed >= this.respawnTime && !this.isBlocked(riders)) {
+                    this.respawn();
+                }
+                break;
+        }
+    }
+
+    private enterState(state: TimedPlatformState): void {
+        this.platformState = state;
+        this.stateElapsed = 0;
+    }
+
+    /**
+     * Only the picture shakes, the body stays in place so riders aren't thrown off
+     */
+    private shake(): void {
+        this.x = this.homeX + Math.sin(this.stateElapsed * 0.08) * 2;
+    }
+
+    private crumble(): void {
+        Obstacle.createDestructionEffect(this.scene, this.homeX, this.homeY);
+        this.hide();
+
+        eventBus.emit(GameEvent.PLATFORM_BREAK, {
+            platform: this,
+            kind: 'crumbling'
+        });
+
+        eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
+            key: 'platform_crumble',
+            volume: 0.5
+        });
+    }
+
+    private startFalling(): void {
+        this.x = this.homeX;
+        this.fallSpeed = 0;
+        this.enterState('falling');
+
+        eventBus.emit(GameEvent.PLATFORM_BREAK, {
+            platform: this,
+            kind: 'falling'
+        });
+    }
+
+    private fall(delta: number, riders: Phaser.GameObjects.GameObject[]): void {
+        const standing = riders.filter(rider => this.isRiding(rider));
+
+        this.fallSpeed = Math.min(this.fallSpeed + this.gravity * delta / 1000, this.maxFallSpeed);
+        const dy = this.fallSpeed * delta / 1000;
+
+        this.y += dy;
+        (this.body as Phaser.Physics.Arcade.StaticBody).updateFromGameObject();
+
+        standing.forEach(rider => {
+            (rider as any).y += dy;
+        });
+
+        if (this.y - this.height / 2 > this.scene.physics.world.bounds.bottom) {
+            this.hide();
+        }
+    }
+
+    private hide(): void {
+        this.enterState('broken');
+        this.setVisible(false);
+        (this.body as Phaser.Physics.Arcade.StaticBody).enable = false;
+    }
+
+    private respawn(): void {
+        this.resetPlatform();
+        this.setAlpha(0);
+        this.scene.tweens.add({
+            targets: this,
+            alpha: 1,
+            duration: 300
+        });
+    }
+
+    /**
+     * Back to the starting position and state, used when the player respawns
+     */
+    resetPlatform(): void {
+        this.scene.tweens.killTweensOf(this);
+        this.enterState('idle');
+        this.fallSpeed = 0;
+        this.setPosition(this.homeX, this.homeY);
+        this.setVisible(true);
+        this.setAlpha(1);
+
+        const body = this.body as Phaser.Physics.Arcade.StaticBody;
+        body.enable = true;
+        body.updateFromGameObject();
+    }
+
+    private updateBlink(clock: number): void {
+        const period = this.onTime + this.offTime;
+        const phase = (((clock + this.offset) % period) + period) % period;
+        const solid = phase < this.onTime;
+
+        if (solid !== this.solid) {
+            this.solid = solid;
+            this.setVisible(solid);
+            (this.body as Phaser.Physics.Arcade.StaticBody).enable = solid;
+        }
+
+        // Flicker shortly before disappearing
+        const warning = solid && this.offTime > 0 && phase >= this.onTime - BLINK_WARNING;
+        this.setAlpha(warning && Math.floor(phase / 100) % 2 === 0 ? 0.4 : 1);
+    }
+
+    /**
+     * Whether something stands where the platform would come back
+     */
+    private isBlocked(riders: Phaser.GameObjects.GameObject[]): boolean {
+        const home = new Phaser.Geom.Rectangle(this.homeX - this.width / 2, this.homeY - this.height / 2, this.width, this.height);
+
+        return riders.some(rider => {
+            const body = (rider as any).body as Phaser.Physics.Arcade.Body | undefined;
+            if (!rider.active || !body || !body.enable) {
+                return false;
+            }
+            return Phaser.Geom.Intersects.RectangleToRectangle(home, new Phaser.Geom.Rectangle(body.x, body.y, body.width, body.height));
+        });
+    }
+
+    /**
+     * Whether a body is standing on top of the platform
+     */
+    private isRiding(rider: Phaser.GameObjects.GameObject): boolean {
+        return TileCollision.isStandingOn(rider, this.body as Phaser.Physics.Arcade.StaticBody);
+    }
+
+    getKind(): TimedPlatformKind {
+        return this.kind;
+    }
+
+    isSolid(): boolean {
+        return this.kind === 'blink' ? this.solid : this.platformState !== 'broken';
+    }
+}
@@ -1,20 +1,54 @@
 import { GameObjectManager } from '../managers/GameObjectManager';
+import { FlagManager, FlagValue } from '../managers/FlagManager';
+import { eventBus, GameEvent } from '../events/EventBus';
 import { Player } from './Player';
+import { isSwitchable } from './Switchable';
+
+export type TriggerActionType =
+    | 'move'
+    | 'scale'
+    | 'rotate'
+    | 'fade'
+    | 'visibility'
+    | 'collision'
+    | 'switch'
+    | 'destroy'
+    | 'spawn'
+    | 'sound'
+    | 'bgm'
+    | 'dialog'
+    | 'camera_shake'
+    | 'set_flag';
+
+/**
+ * One step of a trigger's action chain
+ */
+export interface TriggerAction {
+    type: TriggerActionType;
+    targets: string[];              // Target UUIDs (templates for 'spawn')
+    delay: number;                  // Wait in ms before this step starts
+    params: Map<string, any>;       // Action specific properties (velocity_x, angle, key, ...)
+}
+
+/**
+ * Game scene callbacks trigger actions call into
+ */
+export interface TriggerHooks {
+    showDialog(text: string, duration?: number): void;
+    spawnObject(uuid: string, x?: number, y?: number): void;
+}
+
+// Actions that need at least one live target to do anything
+const TARGETED_ACTIONS: TriggerActionType[] = ['move', 'scale', 'rotate', 'fade', 'visibility', 'collision', 'switch', 'destroy'];
 
 export class Trigger extends Phaser.GameObjects.Zone {
     private triggered: boolean = false;
-    private eventType: 'move' | 'scale';
-    private targetUUID: string;
-    private velocityX: number = 0;
-    private velocityY: number = 0;
-    private duration: number = 1000;
-    private targetScaleX: number = 1;  // Renamed to avoid conflict with Phaser's scaleX
-    private targetScaleY: number = 1;  // Renamed to avoid conflict with Phaser's scaleY
+    private eventType?: TriggerActionType;
+    private actions: TriggerAction[] = [];
     private repeat: boolean = false;
     private delay: number = 0;
-    private returnToOrigin: boolean = true;  // New property to control return behavior
-    private originalVelocity?: Phaser.Math.Vector2;
-    private originalScale?: Phaser.Math.Vector2;
+    private cooldown: number = 0;  // Time before a repeatable trigger re-arms once its actions are done
+    private requiredFlag?: string;  // Only activates while this flag is set
     private debugGraphics?: Phaser.GameObjects.Rectangle;
     
     // Visual representation properties
@@ -24,8 +58,10 @@ export class Trigger extends Phaser.GameObjects.Zone {
     private inactiveTextureKey?: string;  // Texture to show when inactive
     private useSprite: boolean = false;  // Whether to use Sprite (animated) or Image (static)
     private visualScale: number = 1;  // Scale for the visual representation
-
-    constructor(scene: Phaser.Scene, tiledObject: Phaser.Types.Tilemaps.TiledObject) {
+    
+    private hooks: TriggerHooks;
+    
+    constructor(scene: Phaser.Scene, tiledObject: Phaser.Types.Tilemaps.TiledObject, hooks: TriggerHooks) {
         const x = tiledObject.x || 0;
         const y = tiledObject.y || 0;
         const width = tiledObject.width || 64;
@@ -36,6 +72,8 @@ export class Trigger extends Phaser.GameObjects.Zone {
         scene.add.existing(this);
         scene.physics.add.existing(this, true);
         
+        this.hooks = hooks;
+        
         // Parse properties from tilemap
         this.parseProperties(tiledObject);
         
@@ -56,25 +94,7 @@ export class Trigger extends Phaser.GameObjects.Zone {
         properties.forEach(prop => {
             switch (prop.name) {
                 case 'event_type':
-                    this.eventType = prop.value as 'move' | 'scale';
-                    break;
-                case 'target_uuid':
-                    this.targetUUID = prop.value;
-                    break;
-                case 'velocity_x':
-                    this.velocityX = prop.value;
-                    break;
-                case 'velocity_y':
-                    this.velocityY = prop.value;
-                    break;
-                case 'duration':
-                    this.duration = prop.value;
-                    break;
-                case 'scale_x':
-                    this.targetScaleX = prop.value;
-                    break;
-                case 'scale_y':
-                    this.targetScaleY = prop.value;
+                    this.eventType = prop.value as TriggerActionType;
                     break;
                 case 'repeat':
                     this.repeat = prop.value;
@@ -82,8 +102,11 @@ export class Trigger extends Phaser.GameObjects.Zone {
                 case 'delay':
                     this.delay = prop.value;
                     break;
-                case 'return_to_origin':
-                    this.returnToOrigin = prop.value;
+                case 'cooldown':
+                    this.cooldown = prop.value;
+                    break;
+                case 'required_flag':
+                    this.requiredFlag = prop.value;
                     break;
                 case 'texture':
                 case 'texture_key':
@@ -106,6 +129,60 @@ export class Trigger extends Phaser.GameObjects.Zone {
                     break;
             }
         });
+        
+        this.parseActions(properties);
+    }
+    
+    /**
+     * Build the action chain. A single action can be configured directly on the
+     * trigger (event_type + target_uuid); chained actions use numbered properties
+     * (action_1_type, action_1_targets, action_1_angle, ...) and run in order.
+     */
+    private parseActions(properties: any[]) {
+        const values = new Map<string, any>(properties.map(prop => [prop.name, prop.value]));
+        const defaultTargets = this.parseTargets(values.get('target_uuids') ?? values.get('target_uuid'));
+        
+        if (this.eventType) {
+            this.actions.push({
+                type: this.eventType,
+                targets: defaultTargets,
+                delay: 0,
+                params: values
+            });
+            
+            // A move that stays in place used to wait a second before re-arming
+            if (this.eventType === 'move' && values.get('return_to_origin') === false && !values.has('cooldown')) {
+                this.cooldown = 1000;
+            }
+        }
+        
+        for (let index = 1; values.has(`action_${index}_type`); index++) {
+            const prefix = `action_${index}_`;
+            const params = new Map<string, any>();
+            values.forEach((value, name) => {
+                if (name.startsWith(prefix)) {
+                    params.set(name.substring(prefix.length), value);
+                }
+            });
+            
+            const targets = params.has('targets') || params.has('target_uuid')
+                ? this.parseTargets(params.get('targets') ?? params.get('target_uuid'))
+                : defaultTargets;
+            
+            this.actions.push({
+                type: params.get('type') as TriggerActionType,
+                targets,
+                delay: params.get('delay') ?? 0,
+                params
+            });
+        }
+    }
+    
+    private parseTargets(value: unknown): string[] {
+        if (typeof value !== 'string') {
+            return [];
+        }
+        return value.split(',').map(uuid => uuid.trim()).filter(uuid => uuid !== '');
     }
     
     private createVisualRepresentation(scene: Phaser.Scene, x: number, y: number) {
@@ -149,13 +226,19 @@ export class Trigger extends Phaser.GameObjects.Zone {
             return;
         }
         
-        // Early check if target still exists before triggering
-        if (this.targetUUID) {
-            const targetObj = GameObjectManager.getInstance().getObjectByUUID(this.targetUUID);
-            if (!targetObj || !targetObj.object || !targetObj.object.active) {
-                console.warn(`Cannot activate trigger: target object ${this.targetUUID} is not available`);
-                return;
-            }
+        if (this.requiredFlag && !FlagManager.getInstance().isSet(this.requiredFlag)) {
+            return;
+        }
+        
+        if (this.actions.length === 0) {
+            console.warn('Trigger has no actions');
+            return;
+        }
+        
+        // Early check if targets still exist before triggering
+        if (!this.hasRunnableAction()) {
+            console.warn(`Cannot activate trigger: target objects ${this.actions.map(action => action.targets.join(', ')).join(' / ')} are not available`);
+            return;
         }
         
         this.triggered = true;
@@ -163,13 +246,18 @@ export class Trigger extends Phaser.GameObjects.Zone {
         // Update visual state if sprite exists
         this.updateVisualState(true);
         
+        eventBus.emit(GameEvent.TRIGGER_ACTIVATE, {
+            trigger: this,
+            actions: this.actions.map(action => action.type)
+        });
+        
         // Apply delay if specified
         if (this.delay > 0) {
             this.scene.time.delayedCall(this.delay, () => {
-                this.executeTriggerEvent();
+                this.runAction(0);
             });
         } else {
-            this.executeTriggerEvent();
+            this.runAction(0);
         }
         
         // Visual feedback for trigger activation
@@ -184,56 +272,218 @@ export class Trigger extends Phaser.GameObjects.Zone {
         }
     }
     
-    private executeTriggerEvent() {
-        if (!this.targetUUID) {
-            console.warn('Trigger has no target UUID');
+    /**
+     * Whether at least one action would do something if the trigger fired now
+     */
+    private hasRunnableAction(): boolean {
+        return this.actions.some(action =>
+            !TARGETED_ACTIONS.includes(action.type) || this.getLiveTargets(action).length > 0
+        );
+    }
+    
+    private getLiveTargets(action: TriggerAction): Phaser.GameObjects.GameObject[] {
+        const targets: Phaser.GameObjects.GameObject[] = [];
+        action.targets.forEach(uuid => {
+            const targetObj = GameObjectManager.getInstance().getObjectByUUID(uuid);
+            if (!targetObj) {
+                console.warn(`Target object with UUID ${uuid} not found`);
+                return;
+            }
+            // Skip objects that have been destroyed or are inactive
+            if (!targetObj.object || !targetObj.object.active) {
+                return;
+            }
+            targets.push(targetObj.object);
+        });
+        return targets;
+    }
+    
+    /**
+     * Run the action chain from the given step; each step starts once the previous one is done
+     */
+    private runAction(index: number) {
+        // The trigger may be gone if the level ended mid-chain
+        if (!this.scene) {
             return;
         }
         
-        const targetObj = GameObjectManager.getInstance().getObjectByUUID(this.targetUUID);
-        if (!targetObj) {
-            console.warn(`Target object with UUID ${this.targetUUID} not found`);
+        const action = this.actions[index];
+        if (!action) {
+            this.onActionsComplete();
             return;
         }
         
-        // Check if the object is still active and not destroyed
-        if (!targetObj.object || !targetObj.object.active) {
-            console.warn(`Target object with UUID ${this.targetUUID} has been destroyed or is inactive`);
-            // Reset trigger state if repeatable
-            if (this.repeat) {
-                this.triggered = false;
-            }
+        const next = () => this.runAction(index + 1);
+        if (action.delay > 0) {
+            this.scene.time.delayedCall(action.delay, () => this.executeAction(action, next));
+        } else {
+            this.executeAction(action, next);
+        }
+    }
+    
+    private onActionsComplete() {
+        if (!this.repeat) {
             return;
         }
         
-        switch (this.eventType) {
+        const rearm = () => {
+            this.triggered = false;
+            this.updateVisualState(false);
+        };
+        
+        if (this.cooldown > 0) {
+            this.scene.time.delayedCall(this.cooldown, rearm);
+        } else {
+            rearm();
+        }
+    }
+    
+    private executeAction(action: TriggerAction, done: () => void) {
+        if (!this.scene) {
+            return;
+        }
+        
+        switch (action.type) {
             case 'move':
-                this.executeMoveEvent(targetObj.object);
+                this.forEachTarget(action, done, (target, targetDone) => this.executeMoveEvent(target, action, targetDone));
                 break;
             case 'scale':
-                this.executeScaleEvent(targetObj.object);
+                this.forEachTarget(action, done, (target, targetDone) => this.executeScaleEvent(target, action, targetDone));
+                break;
+            case 'rotate':
+                this.forEachTarget(action, done, (target, targetDone) => this.executeRotateEvent(target, action, targetDone));
+                break;
+            case 'fade':
+                this.forEachTarget(action, done, (target, targetDone) => this.executeFadeEvent(target, action, targetDone));
+                break;
+            case 'visibility':
+                this.forEachTarget(action, done, (target, targetDone) => {
+                    const visibleTarget = target as any;
+                    visibleTarget.setVisible?.(this.getParam(action, 'visible', !visibleTarget.visible));
+                    targetDone();
+                });
+                break;
+            case 'collision':
+                this.forEachTarget(action, done, (target, targetDone) => {
+                    const body = (target as any).body as Phaser.Physics.Arcade.Body | Phaser.Physics.Arcade.StaticBody | undefined;
+                    if (body) {
+                        body.enable = this.getParam(action, 'enabled', !body.enable);
+                    } else {
+                        console.warn('Target object has no physics body to toggle collision');
+                    }
+                    targetDone();
+                });
+                break;
+            case 'switch':
+                this.forEachTarget(action, done, (target, targetDone) => {
+                    // Objects that can be turned on and off (spawners, doors, ...)
+                    if (isSwitchable(target)) {
+                        target.setSwitchedOn(this.getParam(action, 'on', !target.isSwitchedOn()));
+                    } else {
+                        console.warn('Target object can\'t be switched on or off');
+                    }
+                    targetDone();
+                });
+                break;
+            case 'destroy':
+                this.forEachTarget(action, done, (target, targetDone) => this.executeDestroyEvent(target, action, targetDone));
+                break;
+            case 'spawn':
+                this.executeSpawnEvent(action);
+                done();
+                break;
+            case 'sound':
+                eventBus.emit(GameEvent.SOUND_EFFECT_PLAY, {
+                    key: this.getParam(action, 'key', ''),
+                    volume: this.getParam(action, 'volume', 0.5)
+                });
+                done();
+                break;
+            case 'bgm': {
+                const key = this.getParam(action, 'key', '');
+                if (key) {
+                    eventBus.emit(GameEvent.BGM_PLAY, {
+                        key,
+                        volume: this.getParam(action, 'volume', 1.0),
+                        loop: this.getParam(action, 'loop', true)
+                    });
+                } else {
+                    eventBus.emit(GameEvent.BGM_STOP, {});
+                }
+                done();
+                break;
+            }
+            case 'dialog': {
+                const duration = this.getParam(action, 'duration', 3000);
+                this.hooks.showDialog(this.getParam(action, 'text', ''), duration);
+                this.scene.time.delayedCall(duration, done);
+                break;
+            }
+            case 'camera_shake': {
+                const duration = this.getParam(action, 'duration', 300);
+                this.scene.cameras.main.shake(duration, this.getParam(action, 'intensity', 0.01));
+                this.scene.time.delayedCall(duration, done);
+                break;
+            }
+            case 'set_flag':
+                FlagManager.getInstance().setFlag(
+                    this.getParam(action, 'flag', ''),
+                    this.getParam<FlagValue>(action, 'value', true)
+                );
+                done();
                 break;
             default:
-                console.warn(`Unknown event type: ${this.eventType}`);
+                console.warn(`Unknown event type: ${action.type}`);
+                done();
         }
     }
     
-    private executeMoveEvent(target: Phaser.GameObjects.GameObject) {
-        // Safety check: ensure target still exists and is active
-        if (!target || !target.active) {
-            console.warn('Target object no longer exists or is inactive');
-            if (this.repeat) {
-                this.triggered = false;
-            }
+    private getParam<T>(action: TriggerAction, name: string, defaultValue: T): T {
+        return action.params.has(name) ? action.params.get(name) as T : defaultValue;
+    }
+    
+    /**
+     * Apply an action to every live target; the step is done once every target is done
+     */
+    private forEachTarget(
+        action: TriggerAction,
+        done: () => void,
+        apply: (target: Phaser.GameObjects.GameObject, targetDone: () => void) => void
+    ) {
+        const targets = this.getLiveTargets(action);
+        if (targets.length === 0) {
+            console.warn(`No live targets for ${action.type} action`);
+            done();
             return;
         }
         
+        let pending = targets.length;
+        targets.forEach(target => {
+            let finished = false;
+            apply(target, () => {
+                if (finished) return;
+                finished = true;
+                pending--;
+                if (pending === 0) {
+                    done();
+                }
+            });
+        });
+    }
+    
+    private executeMoveEvent(target: Phaser.GameObjects.GameObject, action: TriggerAction, done: () => void) {
         const physicsTarget = target as any;
         if (!physicsTarget.body) {
             console.warn('Target object has no physics body for movement');
+            done();
             return;
         }
         
+        const velocityX = this.getParam(action, 'velocity_x', 0);
+        const velocityY = this.getParam(action, 'velocity_y', 0);
+        const duration = this.getParam(action, 'duration', 1000);
+        const returnToOrigin = this.getParam(action, 'return_to_origin', true);
+        
         // Check if it's a static body
         const isStatic = physicsTarget.body.immovable && !physicsTarget.body.moves;
         
@@ -244,164 +494,185 @@ export class Trigger extends Phaser.GameObjects.Zone {
             
             // Calculate target position based on velocity and duration
             // Distance = Velocity * Time
-            const moveX = this.velocityX * (this.duration / 1000);
-            const moveY = this.velocityY * (this.duration / 1000);
+            const moveX = velocityX * (duration / 1000);
+            const moveY = velocityY * (duration / 1000);
             
             // Animate to new position
-            this.scene.tweens.add({
-                targets: physicsTarget,
-                x: originalX + moveX,
-                y: originalY + moveY,
-                duration: this.duration,
-                ease: 'Power2.InOut',
-                onUpdate: () => {
-                    // Check if target still exists before updating
-                    if (!physicsTarget || !physicsTarget.active) {
-                        this.scene.tweens.killTweensOf(physicsTarget);
-                        return;
-                    }
-                    // Update static body position
-                    if (physicsTarget.body && physicsTarget.body.updateFromGameObject) {
-                        physicsTarget.body.updateFromGameObject();
-                    }
-                },
-                onComplete: () => {
-                    // Check if target still exists before returning to origin
-                    if (!physicsTarget || !physicsTarget.active) {
-                        if (this.repeat) {
-                            this.triggered = false;
-                        }
-                        return;
-                    }
-                    
-                    if (this.returnToOrigin) {
-                        // Return to original position
-                        this.scene.tweens.add({
-                            targets: physicsTarget,
-                            x: originalX,
-                            y: originalY,
-                            duration: this.duration,
-                            ease: 'Power2.InOut',
-                            onUpdate: () => {
-                                // Check if target still exists during return animation
-                                if (!physicsTarget || !physicsTarget.active) {
-                                    this.scene.tweens.killTweensOf(physicsTarget);
-                                    return;
-                                }
-                                if (physicsTarget.body && physicsTarget.body.updateFromGameObject) {
-                                    physicsTarget.body.updateFromGameObject();
-                                }
-                            },
-                            onComplete: () => {
-                                // Reset triggered state if repeatable
-                                if (this.repeat) {
-                                    this.triggered = false;
-                                    this.updateVisualState(false);
-                                }
-                            }
-                        });
-                    } else {
-                        // Don't return, just reset triggered state if repeatable
-                        if (this.repeat) {
-                            // Wait for a bit before allowing re-trigger
-                            this.scene.time.delayedCall(1000, () => {
-                                this.triggered = false;
-                                this.updateVisualState(false);
-                            });
-                        }
-                    }
+            this.tweenStaticBody(physicsTarget, originalX + moveX, originalY + moveY, duration, () => {
+                if (returnToOrigin) {
+                    // Return to original position
+                    this.tweenStaticBody(physicsTarget, originalX, originalY, duration, done);
+                } else {
+                    done();
                 }
             });
         } else {
             // For dynamic bodies, use velocity
-            if (!this.originalVelocity) {
-                this.originalVelocity = new Phaser.Math.Vector2(
-                    physicsTarget.body.velocity.x,
-                    physicsTarget.body.velocity.y
-                );
-            }
+            const originalVelocity = new Phaser.Math.Vector2(
+                physicsTarget.body.velocity.x,
+                physicsTarget.body.velocity.y
+            );
             
-            physicsTarget.setVelocity(this.velocityX, this.velocityY);
+            physicsTarget.setVelocity(velocityX, velocityY);
             
-            this.scene.time.delayedCall(this.duration, () => {
+            this.scene.time.delayedCall(duration, () => {
                 // Check if target still exists before resetting velocity
-                if (!physicsTarget || !physicsTarget.active) {
-                    if (this.repeat) {
-                        this.triggered = false;
-                    }
-                    return;
-                }
-                
-                if (this.originalVelocity && physicsTarget.setVelocity) {
-                    physicsTarget.setVelocity(this.originalVelocity.x, this.originalVelocity.y);
-                }
-                
-                if (this.repeat) {
-                    this.triggered = false;
-                    this.updateVisualState(false);
+                if (physicsTarget.active && physicsTarget.setVelocity) {
+                    physicsTarget.setVelocity(originalVelocity.x, originalVelocity.y);
                 }
+                done();
             });
         }
     }
     
-    private executeScaleEvent(target: Phaser.GameObjects.GameObject) {
-        // Safety check: ensure target still exists and is active
-        if (!target || !target.active) {
-            console.warn('Target object no longer exists or is inactive');
-            if (this.repeat) {
-                this.triggered = false;
+    /**
+     * Tween a static body's game object and keep the body in sync
+     */
+    private tweenStaticBody(physicsTarget: any, x: number, y: number, duration: number, onComplete: () => void) {
+        this.scene.tweens.add({
+            targets: physicsTarget,
+            x,
+            y,
+            duration,
+            ease: 'Power2.InOut',
+            onUpdate: () => {
+                // Check if target still exists before updating
+                if (!physicsTarget.active) {
+                    this.scene.tweens.killTweensOf(physicsTarget);
+                    onComplete();
+                    return;
+                }
+                // Update static body position
+                if (physicsTarget.body && physicsTarget.body.updateFromGameObject) {
+                    physicsTarget.body.updateFromGameObject();
+                }
+            },
+            onComplete: () => {
+                onComplete();
             }
-            return;
-        }
-        
+        });
+    }
+    
+    private executeScaleEvent(target: Phaser.GameObjects.GameObject, action: TriggerAction, done: () => void) {
         const scaleTarget = target as any;
         
-        // Store original scale if this is the first time
-        if (!this.originalScale) {
-            this.originalScale = new Phaser.Math.Vector2(
-                scaleTarget.scaleX,
-                scaleTarget.scaleY
-            );
-        }
+        const originalScale = new Phaser.Math.Vector2(scaleTarget.scaleX, scaleTarget.scaleY);
         
         // Animate scale change
         this.scene.tweens.add({
             targets: target,
-            scaleX: this.targetScaleX,
-            scaleY: this.targetScaleY,
+            scaleX: this.getParam(action, 'scale_x', 1),
+            scaleY: this.getParam(action, 'scale_y', 1),
             duration: 300,
             ease: 'Power2',
             onComplete: () => {
                 // Keep the new scale for the specified duration
-                this.scene.time.delayedCall(this.duration, () => {
+                this.scene.time.delayedCall(this.getParam(action, 'duration', 1000), () => {
                     // Check if target still exists before animating back
-                    if (!target || !target.active) {
-                        if (this.repeat) {
-                            this.triggered = false;
-                        }
+                    if (!target.active) {
+                        done();
                         return;
                     }
                     
                     // Animate back to original scale
                     this.scene.tweens.add({
                         targets: target,
-                        scaleX: this.originalScale!.x,
-                        scaleY: this.originalScale!.y,
+                        scaleX: originalScale.x,
+                        scaleY: originalScale.y,
                         duration: 300,
                         ease: 'Power2',
-                        onComplete: () => {
-                            // Reset triggered state if repeatable
-                            if (this.repeat) {
-                                this.triggered = false;
-                                this.updateVisualState(false);
-                            }
-                        }
+                        onComplete: done
                     });
                 });
             }
         });
     }
     
+    private executeRotateEvent(target: Phaser.GameObjects.GameObject, action: TriggerAction, done: () => void) {
+        const rotateTarget = target as any;
+        const originalAngle = rotateTarget.angle;
+        const duration = this.getParam(action, 'duration', 1000);
+        
+        // Angle is relative to the current rotation, in degrees
+        this.scene.tweens.add({
+            targets: target,
+            angle: originalAngle + this.getParam(action, 'angle', 90),
+            duration,
+            ease: 'Power2.InOut',
+            onComplete: () => {
+                if (!this.getParam(action, 'return_to_origin', false) || !target.active) {
+                    done();
+                    return;
+                }
+                
+                this.scene.tweens.add({
+                    targets: target,
+                    angle: originalAngle,
+                    duration,
+                    ease: 'Power2.InOut',
+                    onComplete: done
+                });
+            }
+        });
+    }
+    
+    private executeFadeEvent(target: Phaser.GameObjects.GameObject, action: TriggerAction, done: () => void) {
+        const fadeTarget = target as any;
+        const alpha = this.getParam(action, 'alpha', 0);
+        
+        if (alpha > 0) {
+            fadeTarget.setVisible?.(true);
+        }
+        
+        this.scene.tweens.add({
+            targets: target,
+            alpha,
+            duration: this.getParam(action, 'duration', 500),
+            onComplete: () => {
+                // Fully faded objects are hidden so they stop rendering
+                if (alpha === 0) {
+                    fadeTarget.setVisible?.(false);
+                }
+                done();
+            }
+        });
+    }
+    
+    private executeDestroyEvent(target: Phaser.GameObjects.GameObject, action: TriggerAction, done: () => void) {
+        const duration = this.getParam(action, 'duration', 0);
+        
+        const destroyTarget = () => {
+            if (target.active) {
+                const uuid = target.getData('uuid');
+                if (uuid) {
+                    GameObjectManager.getInstance().unregisterObject(uuid);
+                }
+                target.destroy();
+            }
+            done();
+        };
+        
+        if (duration > 0) {
+            this.scene.tweens.add({
+                targets: target,
+                alpha: 0,
+                duration,
+                onComplete: destroyTarget
+            });
+        } else {
+            destroyTarget();
+        }
+    }
+    
+    private executeSpawnEvent(action: TriggerAction) {
+        const x = this.getParam<number | undefined>(action, 'x', undefined);
+        const y = this.getParam<number | undefined>(action, 'y', undefined);
+        
+        action.targets.forEach(uuid => {
+            this.hooks.spawnObject(uuid, x, y);
+        });
+    }
+    
     private updateVisualState(active: boolean) {
         if (!this.sprite) return;
         
@@ -423,8 +694,6 @@ export class Trigger extends Phaser.GameObjects.Zone {
     
     reset() {
         this.triggered = false;
-        this.originalVelocity = undefined;
-        this.originalScale = undefined;
         this.updateVisualState(false);
     }
     
@@ -432,6 +701,10 @@ export class Trigger extends Phaser.GameObjects.Zone {
         return this.triggered;
     }
     
+    getActions(): TriggerAction[] {
+        return this.actions;
+    }
+    
     destroy() {
         if (this.debugGraphics) {
             this.debugGraphics.destroy();
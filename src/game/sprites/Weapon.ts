@@ -0,0 +1,98 @@
+/**
+ * Settings of a weapon and the bullets it fires
+ */
+export interface WeaponDefinition {
+    name: string;                      // Preset name, also used to recognize a weapon the player already has
+    label: string;                     // Name shown in the HUD
+    texture: string;                   // Bullet texture (a yellow circle is generated when missing)
+    tint: number;                      // Bullet and trail color
+    speed: number;                     // Bullet speed
+    gravity: number;                   // Gravity on the bullet, replaces the world gravity (0 = flies straight)
+    bounces: number;                   // Times a bullet bounces off the floor before breaking (-1 = no limit)
+    pierce: number;                    // Enemies a bullet passes through before breaking
+    damage: number;                    // Damage dealt to enemies and destructible obstacles
+    projectiles: number;               // Bullets fired per shot
+    spread: number;                    // Angle in degrees the bullets of a shot are fanned over
+    cooldown: number;                  // Time in ms between shots
+    ammo: number;                      // Shots a pickup gives (-1 = unlimited)
+    lifetime: number;                  // Time in ms before a bullet disappears
+}
+
+export const DEFAULT_WEAPON: WeaponDefinition = {
+    name: 'blaster',
+    label: 'Blaster',
+    texture: 'bullet',
+    tint: 0xffff00,
+    speed: 500,
+    gravity: 600,
+    bounces: -1,
+    pierce: 0,
+    damage: 1,
+    projectiles: 1,
+    spread: 0,
+    cooldown: 500,
+    ammo: -1,
+    lifetime: 5000
+};
+
+/**
+ * Built-in weapons, the blaster is the bouncing gun the player starts with.
+ * Individual settings set in Tiled override the preset.
+ */
+export const WEAPON_PRESETS: { [name: string]: Partial<WeaponDefinition> } = {
+    blaster: {},
+    spread: { label: 'Spread', tint: 0xff9933, gravity: 0, bounces: 0, projectiles: 3, spread: 30, cooldown: 600, ammo: 20, lifetime: 800 },
+    piercer: { label: 'Piercer', tint: 0x66ffff, speed: 800, gravity: 0, bounces: 0, pierce: 2, damage: 2, cooldown: 400, ammo: 15, lifetime: 1500 },
+    rapid: { label: 'Rapid', tint: 0xffffff, speed: 650, gravity: 0, bounces: 0, cooldown: 120, ammo: 60, lifetime: 1000 },
+    bomb: { label: 'Bomb', tint: 0xff4444, speed: 300, gravity: 1000, bounces: 2, damage: 3, cooldown: 900, ammo: 8, lifetime: 3000 }
+};
+
+/**
+ * Tiled property name -> weapon setting
+ */
+export const WEAPON_PROPERTIES: { [property: string]: keyof WeaponDefinition } = {
+    weapon_label: 'label',
+    projectile_texture: 'texture',
+    projectile_speed: 'speed',
+    projectile_gravity: 'gravity',
+    bounces: 'bounces',
+    pierce: 'pierce',
+    damage: 'damage',
+    projectiles: 'projectiles',
+    spread: 'spread',
+    cooldown: 'cooldown',
+    ammo: 'ammo',
+    lifetime: 'lifetime'
+};
+
+export class Weapon {
+    /**
+     * Build a weapon from its preset and individual overrides
+     */
+    static create(name: string, overrides: Partial<WeaponDefinition> = {}): WeaponDefinition {
+        const preset = WEAPON_PRESETS[name];
+        if (!preset) {
+            console.warn(`[Weapon] Unknown weapon "${name}", using "blaster"`);
+        }
+        return { ...DEFAULT_WEAPON, ...(preset ?? {}), name: preset ? name : DEFAULT_WEAPON.name, ...overrides };
+    }
+
+    /**
+     * Read weapon settings from Tiled properties (WEAPON_PROPERTIES, plus projectile_color as "#RRGGBB")
+     */
+    static parseOverrides(properties: { [name: string]: any }): Partial<WeaponDefinition> {
+        const overrides: Partial<WeaponDefinition> = {};
+        Object.entries(properties).forEach(([name, value]) => {
+            if (name === 'projectile_color') {
+                overrides.tint = parseInt(String(value).replace('#', '0x'));
+                return;
+            }
+
+            const setting = WEAPON_PROPERTIES[name];
+            if (setting) {
+                (overrides as any)[setting] = value;
+            }
+        });
+        return overrides;
+    }
+}
@@ -0,0 +1,120 @@
+import { Scene } from 'phaser';
+
+export class BossHealthBar {
+    private scene: Scene;
+    private nameText: Phaser.GameObjects.Text;
+    private background: Phaser.GameObjects.Rectangle;
+    private fill: Phaser.GameObjects.Rectangle;
+    private markers: Phaser.GameObjects.Rectangle[] = [];
+    private barWidth: number = 300;
+    private barHeight: number = 20;
+    private maxHealth: number = 1;
+    private currentHealth: number = 1;
+    private x: number;
+    private y: number;
+
+    /**
+     * @param x Screen x of the left edge of the bar
+     * @param y Screen y of the center of the bar
+     */
+    constructor(scene: Scene, x: number, y: number) {
+        this.scene = scene;
+        this.x = x;
+        this.y = y;
+
+        this.background = scene.add.rectangle(x, y, this.barWidth, this.barHeight, 0x333333, 0.8);
+        this.background.setOrigin(0, 0.5);
+        this.background.setStrokeStyle(2, 0xffffff, 1);
+
+        this.fill = scene.add.rectangle(x, y, this.barWidth, this.barHeight, 0xcc22cc, 1);
+        this.fill.setOrigin(0, 0.5);
+
+        this.nameText = scene.add.text(x, y - this.barHeight / 2 - 4, '', {
+            fontSize: '18px',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 4
+        });
+        this.nameText.setOrigin(0, 1);
+
+        [this.background, this.fill, this.nameText].forEach(element => {
+            element.setScrollFactor(0);
+            element.setDepth(1000);
+        });
+
+        this.setVisible(false);
+    }
+
+    /**
+     * Show the bar for a boss
+     * @param phaseThresholds Health values at which a new phase starts, marked on the bar
+     */
+    show(name: string, health: number, maxHealth: number, phaseThresholds: number[] = []): void {
+        this.maxHealth = Math.max(1, maxHealth);
+        this.currentHealth = health;
+        this.nameText.setText(name);
+
+        this.markers.forEach(marker => marker.destroy());
+        this.markers = phaseThresholds
+            .filter(threshold => threshold > 0 && threshold < this.maxHealth)
+            .map(threshold => {
+                const marker = this.scene.add.rectangle(this.x + this.barWidth * threshold / this.maxHealth, this.y, 2, this.barHeight, 0xffffff, 0.9);
+                marker.setScrollFactor(0);
+                marker.setDepth(1000);
+                return marker;
+            });
+
+        this.redraw();
+        this.setVisible(true);
+
+        // Fade in
+        const elements = [this.background, this.fill, this.nameText, ...this.markers];
+        elements.forEach(element => element.setAlpha(0));
+        this.scene.tweens.add({
+            targets: elements,
+            alpha: 1,
+            duration: 400
+        });
+    }
+
+    updateHealth(health: number): void {
+        if (health === this.currentHealth) return;
+
+        const lost = health < this.currentHealth;
+        this.currentHealth = health;
+        this.redraw();
+
+        if (lost) {
+            // Flash white on damage
+            this.fill.setFillStyle(0xffffff, 1);
+            this.scene.time.delayedCall(100, () => {
+                this.fill.setFillStyle(0xcc22cc, 1);
+            });
+        }
+    }
+
+    private redraw(): void {
+        const ratio = Phaser.Math.Clamp(this.currentHealth / this.maxHealth, 0, 1);
+        this.fill.setSize(this.barWidth * ratio, this.barHeight);
+    }
+
+    hide(): void {
+        this.setVisible(false);
+    }
+
+    isVisible(): boolean {
+        return this.background.visible;
+    }
+
+    private setVisible(visible: boolean): void {
+        [this.background, this.fill, this.nameText, ...this.markers].forEach(element => element.setVisible(visible));
+    }
+
+    destroy(): void {
+        this.background.destroy();
+        this.fill.destroy();
+        this.nameText.destroy();
+        this.markers.forEach(marker => marker.destroy());
+        this.markers = [];
+    }
+}
@@ -0,0 +1,88 @@
+import { Scene } from 'phaser';
+
+export class DialogBox {
+    private scene: Scene;
+    private background: Phaser.GameObjects.Rectangle;
+    private text: Phaser.GameObjects.Text;
+    private hideTimer?: Phaser.Time.TimerEvent;
+    private padding: number = 20;
+    private bottomMargin: number = 40;
+
+    constructor(scene: Scene) {
+        this.scene = scene;
+
+        const width = scene.scale.width * 0.7;
+
+        this.background = scene.add.rectangle(0, 0, width, 80, 0x000000, 0.75);
+        this.background.setStrokeStyle(2, 0xffffff, 0.8);
+        this.background.setScrollFactor(0);
+        this.background.setDepth(1001);
+
+        this.text = scene.add.text(0, 0, '', {
+            fontFamily: 'Arial',
+            fontSize: '22px',
+            color: '#ffffff',
+            align: 'center',
+            wordWrap: { width: width - this.padding * 2 }
+        });
+        this.text.setOrigin(0.5, 0.5);
+        this.text.setScrollFactor(0);
+        this.text.setDepth(1002);
+
+        this.setVisible(false);
+    }
+
+    /**
+     * Show a message at the bottom of the screen
+     * @param message Text to display
+     * @param duration Time in ms before the box hides itself (0 keeps it open)
+     */
+    show(message: string, duration: number = 3000): void {
+        this.hideTimer?.remove();
+        this.hideTimer = undefined;
+
+        this.text.setText(message);
+
+        // Fit the box around the wrapped text
+        const height = this.text.height + this.padding * 2;
+        const x = this.scene.scale.width / 2;
+        const y = this.scene.scale.height - this.bottomMargin - height / 2;
+        this.background.setSize(this.background.width, height);
+        this.background.setPosition(x, y);
+        this.text.setPosition(x, y);
+
+        this.setVisible(true);
+        this.background.setAlpha(0);
+        this.text.setAlpha(0);
+        this.scene.tweens.add({
+            targets: [this.background, this.text],
+            alpha: 1,
+            duration: 200
+        });
+
+        if (duration > 0) {
+            this.hideTimer = this.scene.time.delayedCall(duration, () => this.hide());
+        }
+    }
+
+    hide(): void {
+        this.hideTimer?.remove();
+        this.hideTimer = undefined;
+        this.setVisible(false);
+    }
+
+    isVisible(): boolean {
+        return this.text.visible;
+    }
+
+    private setVisible(visible: boolean): void {
+        this.background.setVisible(visible);
+        this.text.setVisible(visible);
+    }
+
+    destroy(): void {
+        this.hideTimer?.remove();
+        this.background.destroy();
+        this.text.destroy();
+    }
+}
@@ -1,4 +1,13 @@
 import { Scene } from 'phaser';
+import { PlayerDamageType } from '../sprites/Player';
+
+// Color of the fragments of a breaking heart, per damage type (red for the others)
+const HEART_BREAK_COLORS: { [type: string]: number } = {
+    spike: 0xbbbbbb,
+    projectile: 0xff8800,
+    fall: 0x8844ff,
+    crush: 0x996633
+};
 
 export class HealthUI {
     private scene: Scene;
@@ -71,7 +80,10 @@ export class HealthUI {
         graphics.strokePath();
     }
 
-    updateHealth(health: number): void {
+    /**
+     * @param damageType What caused the health to drop, changes the heart break effect
+     */
+    updateHealth(health: number, damageType?: PlayerDamageType): void {
         if (health < 0) health = 0;
         if (health > this.maxHealth) health = this.maxHealth;
         
@@ -104,8 +116,8 @@ export class HealthUI {
                 this.drawHeart(heart, heartX, heartY, false);
                 
                 // If this is newly lost health, add break animation
-                if (oldHealth > health && i === health) {
-                    this.createHeartBreakEffect(heartX, heartY);
+                if (oldHealth > health && i >= health && i < oldHealth) {
+                    this.createHeartBreakEffect(heartX, heartY, HEART_BREAK_COLORS[damageType ?? ''] ?? 0xff0000);
                     
                     this.scene.tweens.add({
                         targets: heart,
@@ -125,11 +137,11 @@ export class HealthUI {
         }
     }
 
-    private createHeartBreakEffect(x: number, y: number): void {
+    private createHeartBreakEffect(x: number, y: number, color: number): void {
         // Create fragment effect
         for (let i = 0; i < 6; i++) {
             const particle = this.scene.add.graphics();
-            particle.fillStyle(0xff0000, 1);
+            particle.fillStyle(color, 1);
             particle.fillCircle(0, 0, 3);
             particle.x = x;
             particle.y = y;
@@ -153,6 +165,17 @@ export class HealthUI {
         }
     }
 
+    /**
+     * Screen x of the right edge of the last heart, for HUD elements placed next to the hearts
+     */
+    getRight(): number {
+        return this.x + (this.maxHealth - 1) * this.heartSpacing + this.heartSize / 2;
+    }
+
+    getMaxHealth(): number {
+        return this.maxHealth;
+    }
+
     setMaxHealth(maxHealth: number): void {
         // Clear old hearts
         this.hearts.forEach(heart => heart.destroy());
@@ -386,6 +386,9 @@ export class MobileControls {
     private joystick: VirtualJoystick | null = null;
     private jumpButton: MobileButton | null = null;
     private shootButton: MobileButton | null = null;
+    private switchWeaponButton: MobileButton | null = null;
+    private interactButton: MobileButton | null = null;
+    private pauseButton: MobileButton | null = null;
     private container: Phaser.GameObjects.Container;
     
     constructor(scene: Scene) {
@@ -459,6 +462,33 @@ export class MobileControls {
             '🔫',
             shootButtonSize
         );
+        
+        // Small weapon switch button above the shoot button
+        this.switchWeaponButton = new MobileButton(
+            this.scene,
+            shootButtonX,
+            shootButtonY - shootButtonSize - 30,
+            '🔄',
+            Math.min(baseButtonSize * 0.7, 55)
+        );
+        
+        // Small interact button above the jump button
+        this.interactButton = new MobileButton(
+            this.scene,
+            jumpButtonX,
+            jumpButtonY - jumpButtonSize - 30,
+            '✋',
+            Math.min(baseButtonSize * 0.7, 55)
+        );
+        
+        // Pause button in the top right corner, left of the fullscreen button
+        this.pauseButton = new MobileButton(
+            this.scene,
+            width - 140,
+            45,
+            '⏸',
+            50
+        );
     }
     
     getJoystickForce(): { x: number, y: number } {
@@ -496,6 +526,26 @@ export class MobileControls {
         }
     }
     
+    setSwitchWeaponCallbacks(onPress: () => void, onRelease?: (duration: number) => void): void {
+        if (this.switchWeaponButton) {
+            this.switchWeaponButton.onPress = onPress;
+            this.switchWeaponButton.onRelease = onRelease || null;
+        }
+    }
+    
+    setInteractCallbacks(onPress: () => void, onRelease?: (duration: number) => void): void {
+        if (this.interactButton) {
+            this.interactButton.onPress = onPress;
+            this.interactButton.onRelease = onRelease || null;
+        }
+    }
+    
+    setPauseCallback(onPress: () => void): void {
+        if (this.pauseButton) {
+            this.pauseButton.onPress = onPress;
+        }
+    }
+    
     updateJumpButtonProgress(level: number): void {
         if (this.jumpButton) {
             this.jumpButton.updateProgressLevel(level);
@@ -506,6 +556,9 @@ export class MobileControls {
         this.joystick?.destroy();
         this.jumpButton?.destroy();
         this.shootButton?.destroy();
+        this.switchWeaponButton?.destroy();
+        this.interactButton?.destroy();
+        this.pauseButton?.destroy();
         this.container.destroy();
     }
 }
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { Scene } from 'phaser';
+import { ActivePowerUp } from '../managers/PowerUpManager';
+
+interface PowerUpRow {
+    label: Phaser.GameObjects.Text;
+    barBackground: Phaser.GameObjects.Rectangle;
+    bar: Phaser.GameObjects.Rectangle;
+}
+
+// Remaining time below which a timed power-up starts blinking
+const EXPIRY_WARNING_TIME = 2000;
+
+/**
+ * List of the active power-ups, with the time left on timed ones
+ */
+export class PowerUpUI {
+    private scene: Scene;
+    private rows: Map<string, PowerUpRow> = new Map();
+    private rowHeight: number = 30;
+    private labelWidth: number = 150;
+    private barWidth: number = 100;
+    private barHeight: number = 8;
+    private x: number;
+    private y: number;
+
+    /**
+     * @param x Screen x of the left edge of the list
+     * @param y Screen y of the top of the list
+     */
+    constructor(scene: Scene, x: number, y: number) {
+        this.scene = scene;
+        this.x = x;
+        this.y = y;
+    }
+
+    /**
+     * Show the given power-ups, called every frame
+     */
+    update(powerUps: ActivePowerUp[]): void {
+        // Remove the rows of power-ups that ended
+        this.rows.forEach((row, effect) => {
+            if (!powerUps.some(powerUp => powerUp.effect === effect)) {
+                this.destroyRow(row);
+                this.rows.delete(effect);
+            }
+        });
+
+        powerUps.forEach((powerUp, index) => {
+            let row = this.rows.get(powerUp.effect);
+            if (!row) {
+                row = this.createRow();
+                this.rows.set(powerUp.effect, row);
+            }
+
+            const rowY = this.y + index * this.rowHeight;
+            const timed = powerUp.duration > 0;
+
+            row.label.setPosition(this.x, rowY);
+            row.label.setText(timed ? `${powerUp.label} ${Math.ceil(powerUp.remaining / 1000)}s` : powerUp.label);
+
+            const barX = this.x + this.labelWidth;
+            const barY = rowY + row.label.height / 2;
+            row.barBackground.setPosition(barX, barY).setVisible(timed);
+            row.bar.setPosition(barX, barY).setVisible(timed);
+            if (timed) {
+                row.bar.setSize(this.barWidth * Phaser.Math.Clamp(powerUp.remaining / powerUp.duration, 0, 1), this.barHeight);
+            }
+
+            // Blink when about to run out
+            const warning = timed && powerUp.remaining < EXPIRY_WARNING_TIME;
+            const alpha = warning && Math.floor(powerUp.remaining / 150) % 2 === 0 ? 0.3 : 1;
+            [row.label, row.barBackground, row.bar].forEach(element => element.setAlpha(alpha));
+        });
+    }
+
+    private createRow(): PowerUpRow {
+        const label = this.scene.add.text(0, 0, '', {
+            fontSize: '18px',
+            color: '#ffe066',
+            stroke: '#000000',
+            strokeThickness: 4
+        });
+
+        const barBackground = this.scene.add.rectangle(0, 0, this.barWidth, this.barHeight, 0x333333, 0.8);
+        barBackground.setOrigin(0, 0.5);
+        barBackground.setStrokeStyle(1, 0xffffff, 1);
+
+        const bar = this.scene.add.rectangle(0, 0, this.barWidth, this.barHeight, 0xffe066, 1);
+        bar.setOrigin(0, 0.5);
+
+        [label, barBackground, bar].forEach(element => {
+            element.setScrollFactor(0);
+            element.setDepth(1000);
+        });
+
+        return { label, barBackground, bar };
+    }
+
+    private destroyRow(row: PowerUpRow): void {
+        row.label.destroy();
+        row.barBackground.destroy();
+        row.bar.destroy();
+    }
+
+    destroy(): void {
+        this.rows.forEach(row => this.destroyRow(row));
+        this.rows.clear();
+    }
+}
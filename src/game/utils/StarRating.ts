@@ -0,0 +1,122 @@
+export const MAX_STARS = 3;
+
+/**
+ * Conditions for earning one star. Undefined conditions are ignored.
+ */
+export interface StarThreshold {
+    maxTime?: number;           // Finish within this many ms
+    minScore?: number;          // Reach at least this score
+    requiredItems?: string[];   // Collect each of these items at least once
+}
+
+/**
+ * Rating configuration of a level, read from the Tiled map properties
+ */
+export interface LevelRatingConfig {
+    parTime: number | null;     // Target completion time in ms
+    thresholds: StarThreshold[];    // One entry per star (index 0 = first star)
+}
+
+/**
+ * What a finished run achieved
+ */
+export interface RunResult {
+    time: number;
+    score: number;
+    collectedItems: string[];
+}
+
+/**
+ * Utility class for par times and star ratings
+ *
+ * Map properties (set on the map itself in Tiled):
+ * - par_time: (float) Target time in seconds
+ * - star_N_time: (float) Star N requires finishing within this many seconds
+ * - star_N_score: (int) Star N requires at least this score
+ * - star_N_items: (string) Star N requires these items, comma separated texture names
+ *
+ * N is 1 to 3. A star without conditions is earned by completing the level.
+ * When only par_time is set, stars are: 1 = completed, 2 = within 1.5x par, 3 = within par.
+ */
+export class StarRating {
+    /**
+     * Build the rating configuration from Tiled map properties
+     * @param properties The map's properties array (may be undefined)
+     */
+    static fromMapProperties(properties: any): LevelRatingConfig {
+        const props = Array.isArray(properties) ? properties : [];
+        const getValue = (name: string) => props.find((prop: any) => prop.name === name)?.value;
+
+        const parSeconds = getValue('par_time');
+        const parTime = typeof parSeconds === 'number' && parSeconds > 0 ? parSeconds * 1000 : null;
+
+        const thresholds: StarThreshold[] = [];
+        let hasExplicitThresholds = false;
+
+        for (let star = 1; star <= MAX_STARS; star++) {
+            const threshold: StarThreshold = {};
+
+            const time = getValue(`star_${star}_time`);
+            if (typeof time === 'number' && time > 0) {
+                threshold.maxTime = time * 1000;
+            }
+
+            const score = getValue(`star_${star}_score`);
+            if (typeof score === 'number') {
+                threshold.minScore = score;
+            }
+
+            const items = getValue(`star_${star}_items`);
+            if (typeof items === 'string' && items.trim() !== '') {
+                threshold.requiredItems = items.split(',').map(item => item.trim()).filter(item => item !== '');
+            }
+
+            if (Object.keys(threshold).length > 0) {
+                hasExplicitThresholds = true;
+            }
+            thresholds.push(threshold);
+        }
+
+        // Par time alone gives a time-based rating
+        if (!hasExplicitThresholds && parTime !== null) {
+            thresholds[1] = { maxTime: parTime * 1.5 };
+            thresholds[2] = { maxTime: parTime };
+        }
+
+        return { parTime, thresholds };
+    }
+
+    /**
+     * Whether the level defines anything worth showing a rating for
+     */
+    static hasRating(config: LevelRatingConfig): boolean {
+        return config.parTime !== null || config.thresholds.some(threshold => Object.keys(threshold).length > 0);
+    }
+
+    /**
+     * Count the stars earned by a finished run
+     */
+    static evaluate(config: LevelRatingConfig, result: RunResult): number {
+        return config.thresholds.filter(threshold => StarRating.meetsThreshold(threshold, result)).length;
+    }
+
+    private static meetsThreshold(threshold: StarThreshold, result: RunResult): boolean {
+        if (threshold.maxTime !== undefined && result.time > threshold.maxTime) {
+            return false;
+        }
+        if (threshold.minScore !== undefined && result.score < threshold.minScore) {
+            return false;
+        }
+        if (threshold.requiredItems && !threshold.requiredItems.every(item => result.collectedItems.includes(item))) {
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Format a star count as filled and empty stars (e.g. ★★☆)
+     */
+    static format(stars: number, maxStars: number = MAX_STARS): string {
+        return '★'.repeat(stars) + '☆'.repeat(Math.max(0, maxStars - stars));
+    }
+}
@@ -0,0 +1,308 @@
+/**
+ * Surface of a slope tile: height of the walkable surface at the tile's left and
+ * right edges, as a fraction of the tile height (0 = bottom, 1 = top)
+ */
+export interface SlopeShape {
+    left: number;
+    right: number;
+}
+
+/**
+ * Values of the `slope` tile property. "right" slopes rise towards the right,
+ * 22.5° slopes take two tiles (low half, then high half).
+ */
+export const SLOPE_SHAPES: { [name: string]: SlopeShape } = {
+    '45_right': { left: 0, right: 1 },
+    '45_left': { left: 1, right: 0 },
+    '22_right_low': { left: 0, right: 0.5 },
+    '22_right_high': { left: 0.5, right: 1 },
+    '22_left_high': { left: 1, right: 0.5 },
+    '22_left_low': { left: 0.5, right: 0 }
+};
+
+// How far a grounded body is pulled down to stay on a slope it walks down
+const SLOPE_SNAP_DISTANCE = 16;
+// Bodies further below a slope surface than this came from underneath and are left alone
+const SLOPE_MAX_PENETRATION = 32;
+// How far below the top of a one-way tile a body's feet may be and still land on it
+const ONE_WAY_TOLERANCE = 4;
+// Distance between the points sampled along a line of sight
+const LINE_OF_SIGHT_STEP = 8;
+// Distance between a body's feet and the top of a platform or block that still counts as standing on it
+const STAND_TOLERANCE = 4;
+
+/**
+ * How a floor affects the bodies on it
+ */
+export interface SurfaceProperties {
+    acceleration: number;   // Share of the speed difference the player makes up per 60 fps frame (1 = instant)
+    deceleration: number;   // The same when slowing down or turning around
+    conveyorSpeed: number;  // Speed in px/s bodies standing on it are carried at (positive = right)
+}
+
+export const DEFAULT_SURFACE: SurfaceProperties = { acceleration: 1, deceleration: 1, conveyorSpeed: 0 };
+
+// Used by `ice: true`, the player speeds up slowly and slides a long way
+export const ICE_SURFACE: SurfaceProperties = { acceleration: 0.08, deceleration: 0.02, conveyorSpeed: 0 };
+
+/**
+ * Utility class for tile kinds Arcade physics doesn't handle on its own
+ *
+ * Tile properties (set on the tile in the tileset):
+ * - one_way: (bool) Solid only from above; bodies jump up through it and can drop down through it
+ * - slope: (string) One of SLOPE_SHAPES; bodies stand on the diagonal surface
+ * - ice: (bool) Slippery floor (ICE_SURFACE)
+ * - acceleration / deceleration: (float) Grip of the floor for the player, 1 = normal (see SurfaceProperties)
+ * - conveyor_speed: (float) Carries bodies standing on it along at this speed in px/s (negative = left)
+ * - climbable: (bool) Ladder or vine the player can climb (usually on a tile without collision)
+ */
+export class TileCollision {
+    /**
+     * Apply the tile kinds to a layer, after its collision was set from the `collides` property
+     */
+    static setupLayer(layer: Phaser.Tilemaps.TilemapLayer): void {
+        layer.forEachTile(tile => {
+            if (TileCollision.getSlopeShape(tile)) {
+                // Slopes are resolved after each physics step instead of by Arcade
+                tile.setCollision(false, false, false, false);
+            } else if (TileCollision.isOneWay(tile)) {
+                tile.setCollision(false, false, true, false);
+            }
+        });
+
+        // Walls at the top of a slope would stop bodies that reach its high edge
+        layer.forEachTile(tile => {
+            const shape = TileCollision.getSlopeShape(tile);
+            if (!shape) return;
+
+            const right = layer.getTileAt(tile.x + 1, tile.y);
+            if (shape.right === 1 && right?.collides && !TileCollision.getSlopeShape(right)) {
+                right.setCollision(false, right.collideRight, right.collideUp, right.collideDown);
+            }
+
+            const left = layer.getTileAt(tile.x - 1, tile.y);
+            if (shape.left === 1 && left?.collides && !TileCollision.getSlopeShape(left)) {
+                left.setCollision(left.collideLeft, false, left.collideUp, left.collideDown);
+            }
+        });
+    }
+
+    static isOneWay(tile: Phaser.Tilemaps.Tile | null): boolean {
+        return tile?.properties?.one_way === true;
+    }
+
+    static getSlopeShape(tile: Phaser.Tilemaps.Tile | null): SlopeShape | null {
+        const slope = tile?.properties?.slope;
+        return typeof slope === 'string' ? SLOPE_SHAPES[slope] ?? null : null;
+    }
+
+    /**
+     * World y of a slope's surface at the given world x
+     */
+    static getSlopeSurfaceY(tile: Phaser.Tilemaps.Tile, shape: SlopeShape, worldX: number): number {
+        const tileLeft = tile.getLeft();
+        const tileWidth = tile.getRight() - tileLeft;
+        const t = Phaser.Math.Clamp((worldX - tileLeft) / tileWidth, 0, 1);
+        const height = Phaser.Math.Linear(shape.left, shape.right, t);
+        return tile.getBottom() - height * (tile.getBottom() - tile.getTop());
+    }
+
+    /**
+     * Whether a world point is inside terrain a body can't pass through.
+     * One-way tiles never count, slopes only count below their surface.
+     */
+    static isSolidAt(layers: Phaser.Tilemaps.TilemapLayer[], worldX: number, worldY: number): boolean {
+        for (const layer of layers) {
+            const tile = layer.getTileAtWorldXY(worldX, worldY);
+            if (!tile) continue;
+
+            const shape = TileCollision.getSlopeShape(tile);
+            if (shape) {
+                if (worldY > TileCollision.getSlopeSurfaceY(tile, shape, worldX)) {
+                    return true;
+                }
+                continue;
+            }
+
+            if (tile.collides && !TileCollision.isOneWay(tile)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Whether nothing solid is between two world points (one-way tiles can be seen through)
+     */
+    static hasLineOfSight(layers: Phaser.Tilemaps.TilemapLayer[], x1: number, y1: number, x2: number, y2: number): boolean {
+        const distance = Phaser.Math.Distance.Between(x1, y1, x2, y2);
+        const steps = Math.ceil(distance / LINE_OF_SIGHT_STEP);
+        for (let i = 1; i < steps; i++) {
+            const t = i / steps;
+            if (TileCollision.isSolidAt(layers, Phaser.Math.Linear(x1, x2, t), Phaser.Math.Linear(y1, y2, t))) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Read surface properties (ice, acceleration, deceleration, conveyor_speed) from a tile or object
+     * @returns null if none of them are set
+     */
+    static parseSurface(properties: { [name: string]: any } | null | undefined): SurfaceProperties | null {
+        if (!properties) {
+            return null;
+        }
+        const { ice, acceleration, deceleration, conveyor_speed } = properties;
+        if (ice !== true && acceleration === undefined && deceleration === undefined && conveyor_speed === undefined) {
+            return null;
+        }
+
+        const base = ice === true ? ICE_SURFACE : DEFAULT_SURFACE;
+        return {
+            acceleration: Phaser.Math.Clamp(acceleration ?? base.acceleration, 0.001, 1),
+            deceleration: Phaser.Math.Clamp(deceleration ?? base.deceleration, 0.001, 1),
+            conveyorSpeed: conveyor_speed ?? base.conveyorSpeed
+        };
+    }
+
+    /**
+     * Surface of the tile right below the body's feet
+     * @returns null if the body stands on a tile without surface properties (or on nothing)
+     */
+    static getSurfaceUnder(layers: Phaser.Tilemaps.TilemapLayer[], body: Phaser.Physics.Arcade.Body): SurfaceProperties | null {
+        const probeY = body.bottom + 1;
+        for (const x of [body.center.x, body.left + 1, body.right - 1]) {
+            for (const layer of layers) {
+                const surface = TileCollision.parseSurface(layer.getTileAtWorldXY(x, probeY)?.properties);
+                if (surface) {
+                    return surface;
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Whether a world point is on a climbable tile
+     */
+    static isClimbableAt(layers: Phaser.Tilemaps.TilemapLayer[], worldX: number, worldY: number): boolean {
+        return layers.some(layer => layer.getTileAtWorldXY(worldX, worldY)?.properties?.climbable === true);
+    }
+
+    /**
+     * Whether a one-way tile is right below the body's feet
+     */
+    static isOnOneWay(layers: Phaser.Tilemaps.TilemapLayer[], body: Phaser.Physics.Arcade.Body): boolean {
+        const probeY = body.bottom + 1;
+        return layers.some(layer =>
+            [body.left + 1, body.center.x, body.right - 1].some(x => TileCollision.isOneWay(layer.getTileAtWorldXY(x, probeY)))
+        );
+    }
+
+    /**
+     * Collider process callback for bodies vs tile layers: one-way tiles only
+     * stop bodies falling onto them from above (and not while dropping through)
+     */
+    static processTileCollision(object: any, tile: any): boolean {
+        if (!(tile instanceof Phaser.Tilemaps.Tile) || !TileCollision.isOneWay(tile)) {
+            return true;
+        }
+
+        if (object.isDroppingThrough?.()) {
+            return false;
+        }
+
+        const body = object.body as Phaser.Physics.Arcade.Body;
+        const previousBottom = body.bottom - body.deltaY();
+        return body.velocity.y >= 0 && previousBottom <= tile.getTop() + ONE_WAY_TOLERANCE;
+    }
+
+    /**
+     * Keep a body on top of the slope tiles it walks on. Called after every physics step.
+     */
+    static resolveSlopes(object: Phaser.GameObjects.GameObject, layers: Phaser.Tilemaps.TilemapLayer[]): void {
+        const body = object.body as Phaser.Physics.Arcade.Body | null;
+        if (!object.active || !body || !body.enable || !(body instanceof Phaser.Physics.Arcade.Body)) {
+            return;
+        }
+
+        const wasGrounded = object.getData('slopeGrounded') === true;
+        const x = body.center.x;
+
+        // Surface under the feet, or a bit further down when walking down a slope
+        let surfaceY = TileCollision.findSlopeSurface(layers, x, body.bottom - 1);
+        if (surfaceY === null && wasGrounded) {
+            surfaceY = TileCollision.findSlopeSurface(layers, x, body.bottom + SLOPE_SNAP_DISTANCE);
+        }
+
+        let onSlope = false;
+        if (surfaceY !== null) {
+            const penetration = body.bottom - surfaceY;
+            const landing = penetration >= 0 && penetration <= SLOPE_MAX_PENETRATION;
+            const snapping = penetration < 0 && wasGrounded && body.velocity.y >= 0 && -penetration <= SLOPE_SNAP_DISTANCE;
+
+            if ((landing && body.velocity.y >= 0) || snapping) {
+                body.y -= penetration;
+                body.updateCenter();
+                body.velocity.y = 0;
+                body.blocked.down = true;
+                body.blocked.none = false;
+                onSlope = true;
+            }
+        }
+
+        object.setData('slopeGrounded', onSlope || body.blocked.down);
+    }
+
+    /**
+     * Whether an object's body stands on a static body (moving platforms, surface blocks, pressure plates)
+     * @param object Object whose body is checked
+     * @param surface Static body it may stand on
+     * @param solid Solid surfaces need the feet on their top and the body resting on it, bodies
+     *   go through the others so their feet may be anywhere from the top to the bottom
+     * @param tolerance Distance the feet may be off the surface
+     */
+    static isStandingOn(object: Phaser.GameObjects.GameObject, surface: Phaser.Physics.Arcade.StaticBody, solid: boolean = true, tolerance: number = STAND_TOLERANCE): boolean {
+        const body = (object as any).body as Phaser.Physics.Arcade.Body | undefined;
+        if (!object.active || !body || !body.enable) {
+            return false;
+        }
+
+        const overlapsHorizontally = body.right > surface.left && body.left < surface.right;
+        if (!solid) {
+            return overlapsHorizontally && body.bottom >= surface.top - tolerance && body.bottom <= surface.bottom + tolerance;
+        }
+
+        const onTop = Math.abs(body.bottom - surface.top) <= tolerance;
+        return onTop && overlapsHorizontally && body.velocity.y >= 0 && (body.touching.down || body.blocked.down);
+    }
+
+    /**
+     * World position of the center of a Tiled rectangle or tile object
+     * @param width Size of the object, its own size can be missing or replaced by a default
+     * @param height See width
+     */
+    static getObjectCenter(tiledObject: Phaser.Types.Tilemaps.TiledObject, width: number, height: number): Phaser.Math.Vector2 {
+        // Tile objects are anchored at their bottom-left corner, rectangles at their top-left
+        return new Phaser.Math.Vector2(
+            (tiledObject.x || 0) + width / 2,
+            (tiledObject.y || 0) + (tiledObject.gid ? -height / 2 : height / 2)
+        );
+    }
+
+    private static findSlopeSurface(layers: Phaser.Tilemaps.TilemapLayer[], worldX: number, worldY: number): number | null {
+        let surfaceY: number | null = null;
+        for (const layer of layers) {
+            const tile = layer.getTileAtWorldXY(worldX, worldY);
+            const shape = TileCollision.getSlopeShape(tile);
+            if (tile && shape) {
+                const y = TileCollision.getSlopeSurfaceY(tile, shape, worldX);
+                // Highest surface wins when layers overlap
+                surfaceY = surfaceY === null ? y : Math.min(surfaceY, y);
+            }
+        }
+        return surfaceY;
+    }
+}
@@ -0,0 +1,17 @@
+/**
+ * Utility class for displaying durations
+ */
+export class TimeFormatter {
+    /**
+     * Format milliseconds as m:ss.cc (e.g. 1:05.42)
+     * @param ms Duration in milliseconds
+     * @returns Formatted time string
+     */
+    static format(ms: number): string {
+        const safeMs = Math.max(0, Math.floor(ms));
+        const minutes = Math.floor(safeMs / 60000);
+        const seconds = Math.floor((safeMs % 60000) / 1000);
+        const centiseconds = Math.floor((safeMs % 1000) / 10);
+        return `${minutes}:${seconds.toString().padStart(2, '0')}.${centiseconds.toString().padStart(2, '0')}`;
+    }
+}